@@ -1,14 +1,15 @@
 // index.js
 import express from "express";
+import crypto from "crypto";
 import path from "path";
 import { fileURLToPath } from "url";
 import cors from "cors";
 import dotenv from "dotenv";
-import { Storage } from "@google-cloud/storage";
 import fetch from "node-fetch";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import { google } from "googleapis";
 import FormData from "form-data";
+import { createStorage } from "./storage.js";
 dotenv.config();
 
 const __filename = fileURLToPath(import.meta.url);
@@ -16,7 +17,8 @@ const __dirname = path.dirname(__filename);
 const DIST_DIR = path.join(__dirname, "..", "dist");
 
 const app = express();
-app.use(express.json());
+// Coach chat requests carry the full event list as context
+app.use(express.json({ limit: "2mb" }));
 
 app.use(
   cors({
@@ -24,7 +26,7 @@ app.use(
       "http://localhost:5173",
       "https://my-web-app-19134553205.asia-southeast1.run.app",
     ],
-    methods: ["GET", "POST", "OPTIONS"],
+    methods: ["GET", "POST", "DELETE", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization"],
   }),
 );
@@ -32,11 +34,10 @@ app.use(
 // Serve frontend build
 app.use(express.static(DIST_DIR));
 
-// Google Cloud Storage client
-const storage = new Storage({
-  keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
-});
-const bucket = storage.bucket(process.env.BUCKET_NAME);
+// GCS when BUCKET_NAME is set, otherwise the local disk (see storage.js)
+const storage = createStorage(path.join(__dirname, ".data"));
+if (storage.router) app.use(storage.router);
+console.log(`📦 Storage backend: ${storage.name}`);
 
 const youtube = google.youtube({
   version: "v3",
@@ -44,8 +45,9 @@ const youtube = google.youtube({
 });
 
 // --------------------------------------------------------
-// FUNCTION: Generate a signed URL for uploading to GCS
-// Requirement: The system must allow users to upload files
+// FUNCTION: Start a resumable upload session
+// Requirement: The system must allow users to upload files,
+// resuming large uploads after a network error or reload
 // --------------------------------------------------------
 app.get("/api/upload-url", async (req, res) => {
   try {
@@ -53,17 +55,15 @@ app.get("/api/upload-url", async (req, res) => {
     if (!filename || !filetype)
       return res.status(400).json({ error: "Missing filename or filetype" });
 
-    const uniqueName = `${Date.now()}_${filename}`;
-    const file = bucket.file(uniqueName);
-
-    const [url] = await file.getSignedUrl({
-      version: "v4",
-      action: "write",
-      expires: Date.now() + 3600 * 1000,
-      contentType: filetype,
-    });
+    // The random part keeps other users' upload keys unguessable
+    const uniqueName = `${Date.now()}_${crypto.randomBytes(8).toString("hex")}_${path.basename(String(filename))}`;
+    const uploadUrl = await storage.createUploadSession(
+      uniqueName,
+      filetype,
+      req.get("origin"),
+    );
 
-    res.json({ uploadUrl: url, key: uniqueName });
+    res.json({ uploadUrl, key: uniqueName, resumable: true });
   } catch (err) {
     console.error("❌ Upload URL Error:", err);
     res.status(500).json({ error: err.message });
@@ -71,26 +71,138 @@ app.get("/api/upload-url", async (req, res) => {
 });
 
 // --------------------------------------------------------
-// FUNCTION: Run ML Pipeline
+// FUNCTION: Resolve stored videos for playback
+// Requirement: The system must turn a storage URI from the
+// pipeline output (gs:// or local://) into a playable URL
+// --------------------------------------------------------
+app.get("/api/storage/read-url", (req, res) => {
+  const { uri } = req.query;
+  if (typeof uri !== "string" || !uri)
+    return res.status(400).json({ error: "Missing uri" });
+
+  try {
+    const url = storage.readUrl(uri);
+    if (!url)
+      return res
+        .status(404)
+        .json({ error: `Not stored in the ${storage.name} backend` });
+    res.json({ url });
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// --------------------------------------------------------
+// FUNCTION: Asynchronous ML Pipeline Jobs
 // Requirement: The system must send uploaded video to the
-// deep learning pipeline and return analysis output.
+// deep learning pipeline without holding the browser request
+// open, report progress, and return analysis output when ready.
 // --------------------------------------------------------
-app.post("/api/run-model", async (req, res) => {
+const PIPELINE_EXPECTED_SECONDS =
+  Number(process.env.PIPELINE_EXPECTED_SECONDS) || 300;
+const JOB_PREFIX = "jobs";
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+// Finished jobs stay in memory this long for clients still polling, then are
+// read back from storage
+const JOB_CACHE_TTL_MS = 10 * 60 * 1000;
+// A running job's record is touched this often, so other instances can tell
+// a long run from one orphaned by a restart
+const JOB_HEARTBEAT_MS = Math.min(PIPELINE_EXPECTED_SECONDS, 60) * 1000;
+const jobs = new Map();
+// Jobs whose latest state failed to persist; memory is their only copy
+const unsavedJobs = new Set();
+
+const isFinished = (job) => job.stage === "done" || job.stage === "failed";
+const jobKey = (jobId) => `${JOB_PREFIX}/${jobId}.json`;
+
+// Jobs are mirrored to storage so status survives restarts and is
+// visible to every server instance.
+async function saveJob(job) {
+  job.updatedAt = new Date().toISOString();
+  jobs.set(job.jobId, job);
   try {
-    const { filename, user_id = "anonymous" } = req.body;
-    if (!filename) return res.status(400).json({ error: "Missing filename" });
+    await storage.writeJSON(jobKey(job.jobId), job);
+    unsavedJobs.delete(job.jobId);
+  } catch (err) {
+    unsavedJobs.add(job.jobId);
+    console.error(`⚠️ Could not persist job ${job.jobId}:`, err.message);
+  }
+}
+
+// Drops a finished job from memory once storage holds it
+function evictJob(jobId) {
+  const job = jobs.get(jobId);
+  if (job && isFinished(job) && !unsavedJobs.has(jobId)) jobs.delete(jobId);
+}
+
+async function loadJob(jobId) {
+  const cached = jobs.get(jobId);
+  if (cached && (isFinished(cached) || cached.runningHere)) return cached;
+
+  try {
+    const job = await storage.readJSON(jobKey(jobId));
+    if (!job) return cached ?? null;
+
+    // A job nobody has touched for far longer than a run takes was
+    // orphaned by a restart; report it instead of polling forever.
+    const idleMs = Date.now() - new Date(job.updatedAt).getTime();
+    if (!isFinished(job) && idleMs > PIPELINE_EXPECTED_SECONDS * 3000) {
+      job.stage = "failed";
+      job.error = "The pipeline job was interrupted. Please retry.";
+      await saveJob(job);
+      evictJob(jobId);
+    }
+    return job;
+  } catch {
+    return cached ?? null;
+  }
+}
 
-    const gcsUri = `gs://${process.env.BUCKET_NAME}/${filename}`;
-    console.log("🚀 Sending to ML pipeline:", gcsUri);
+// Public view of a job; the pipeline gives no progress, so the percentage
+// while processing is estimated from elapsed time.
+function describeJob(job) {
+  let percent = 0;
+  if (job.stage === "done") percent = 100;
+  else if (job.stage === "processing") {
+    const elapsed = (Date.now() - new Date(job.startedAt).getTime()) / 1000;
+    percent = Math.min(95, Math.round((elapsed / PIPELINE_EXPECTED_SECONDS) * 100));
+  }
+  return {
+    jobId: job.jobId,
+    filename: job.filename,
+    stage: job.stage,
+    percent,
+    percentEstimated: job.stage === "processing",
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+async function runPipelineJob(job, userId) {
+  let heartbeat;
+  let lastBeat = Promise.resolve();
+  try {
+    job.stage = "processing";
+    job.startedAt = new Date().toISOString();
+    await saveJob(job);
+    heartbeat = setInterval(() => {
+      lastBeat = saveJob(job);
+    }, JOB_HEARTBEAT_MS);
+
+    console.log(
+      `🚀 Sending to ML pipeline (job ${job.jobId}):`,
+      storage.uri(job.filename),
+    );
 
     const form = new FormData();
-    form.append("gcs_uri", gcsUri);
-    form.append("output_bucket", process.env.BUCKET_NAME);
-    form.append("output_prefix", "output");
+    Object.entries(storage.pipelineFields(job.filename)).forEach(
+      ([name, value]) => form.append(name, value),
+    );
     form.append("overlay", "true");
     form.append("return_debug", "false");
-    form.append("user_id", user_id);
-    form.append("job_id", `job_from_gcs_001`);
+    form.append("user_id", userId);
+    form.append("job_id", job.jobId);
 
     const response = await fetch(`${process.env.PIPELINE_URL}/process`, {
       method: "POST",
@@ -102,119 +214,371 @@ app.post("/api/run-model", async (req, res) => {
 
     if (!response.ok) {
       console.error("ML pipeline returned error:", text);
-      return res.status(response.status).json({
-        error: `Pipeline error (${response.status})`,
-        raw: text,
-      });
+      job.stage = "failed";
+      job.error = `Pipeline error (${response.status})`;
+    } else {
+      job.stage = "done";
+      job.result = JSON.parse(text);
     }
+  } catch (err) {
+    console.error(`❌ Error running model (job ${job.jobId}):`, err);
+    job.stage = "failed";
+    job.error = err.message;
+  } finally {
+    // Let an in-flight heartbeat land first so it can't overwrite the outcome
+    clearInterval(heartbeat);
+    await lastBeat;
+    job.runningHere = false;
+    await saveJob(job);
+    setTimeout(() => evictJob(job.jobId), JOB_CACHE_TTL_MS).unref();
+  }
+}
+
+// Submit: returns a job id immediately and runs the pipeline in the background
+app.post("/api/jobs", async (req, res) => {
+  try {
+    const { filename, user_id = "anonymous" } = req.body;
+    if (!filename) return res.status(400).json({ error: "Missing filename" });
 
-    res.json(JSON.parse(text));
+    const now = new Date().toISOString();
+    const job = {
+      jobId: crypto.randomUUID(),
+      filename,
+      stage: "queued",
+      createdAt: now,
+      updatedAt: now,
+      runningHere: true,
+    };
+    await saveJob(job);
+    runPipelineJob(job, user_id);
+
+    res.status(202).json(describeJob(job));
   } catch (err) {
-    console.error("❌ Error running model:", err);
+    console.error("❌ Job submit error:", err);
     res.status(500).json({ error: err.message });
   }
 });
 
+// Status: stage and (estimated) percent
+app.get("/api/jobs/:jobId", async (req, res) => {
+  const { jobId } = req.params;
+  if (!JOB_ID_PATTERN.test(jobId))
+    return res.status(400).json({ error: "Invalid job id" });
+
+  const job = await loadJob(jobId);
+  if (!job) return res.status(404).json({ error: "Job not found" });
+  res.json(describeJob(job));
+});
+
+// Result: the pipeline output once the job is done
+app.get("/api/jobs/:jobId/result", async (req, res) => {
+  const { jobId } = req.params;
+  if (!JOB_ID_PATTERN.test(jobId))
+    return res.status(400).json({ error: "Invalid job id" });
+
+  const job = await loadJob(jobId);
+  if (!job) return res.status(404).json({ error: "Job not found" });
+  if (job.stage === "failed")
+    return res.status(500).json({ error: job.error || "Pipeline failed" });
+  if (job.stage !== "done")
+    return res.status(409).json({ error: "Job is not finished", ...describeJob(job) });
+
+  res.json(job.result);
+  evictJob(jobId);
+});
+
+// --------------------------------------------------------
+// FUNCTION: AI Coach Analysis
+// Requirement: The system must analyse each player's shot
+// selection and return it as validated, structured JSON
+// (see AIAnalysis in src/types.ts), in the user's language.
+// --------------------------------------------------------
+
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
 const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
 
+// Locales the client offers (see LOCALES in src/constant.ts)
+const LANGUAGES = {
+  en: "English",
+  ms: "Malay (Bahasa Melayu)",
+  zh: "Simplified Chinese",
+};
+
+// Language name for a request's `language`, English when it is missing;
+// null for a locale the app does not offer
+const languageName = (language) =>
+  language === undefined ? LANGUAGES.en : (LANGUAGES[language] ?? null);
+
+const stringList = {
+  type: SchemaType.ARRAY,
+  items: { type: SchemaType.STRING },
+};
+
+const ANALYSIS_SCHEMA = {
+  type: SchemaType.OBJECT,
+  properties: {
+    players: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          player: { type: SchemaType.STRING },
+          style: { type: SchemaType.STRING },
+          summary: { type: SchemaType.STRING },
+          strengths: stringList,
+          weaknesses: stringList,
+          evidence: {
+            type: SchemaType.ARRAY,
+            items: {
+              type: SchemaType.OBJECT,
+              properties: {
+                shot: { type: SchemaType.STRING },
+                count: { type: SchemaType.INTEGER },
+                note: { type: SchemaType.STRING },
+              },
+              required: ["shot", "count", "note"],
+            },
+          },
+        },
+        required: [
+          "player",
+          "style",
+          "summary",
+          "strengths",
+          "weaknesses",
+          "evidence",
+        ],
+      },
+    },
+    overall: { type: SchemaType.STRING },
+  },
+  required: ["players", "overall"],
+};
+
+const RECOMMENDATION_SCHEMA = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      player: { type: SchemaType.STRING },
+      style: { type: SchemaType.STRING },
+      proName: { type: SchemaType.STRING },
+    },
+    required: ["player", "style", "proName"],
+  },
+};
+
+const generateJSON = async (prompt, responseSchema) => {
+  const result = await model.generateContent({
+    contents: [{ role: "user", parts: [{ text: prompt }] }],
+    generationConfig: { responseMimeType: "application/json", responseSchema },
+  });
+  return JSON.parse(result.response.text());
+};
+
+const isString = (v) => typeof v === "string" && v.trim() !== "";
+const isStringList = (v) =>
+  Array.isArray(v) && v.every((x) => typeof x === "string");
+
+// Checks the model output against the schema and the players actually sent,
+// returning a list of problems (empty when valid).
+const analysisIssues = (analysis, playerNames, summaryTable) => {
+  const issues = [];
+  if (!analysis || !Array.isArray(analysis.players))
+    return ["players must be an array"];
+
+  const rows = new Map(summaryTable.map((row) => [row.shot, row]));
+  analysis.players.forEach((p, i) => {
+    const at = `players[${i}]`;
+    if (!isString(p?.player) || !playerNames.includes(p.player))
+      issues.push(`${at}.player must be one of ${playerNames.join(", ")}`);
+    for (const key of ["style", "summary"])
+      if (!isString(p?.[key])) issues.push(`${at}.${key} is missing`);
+    for (const key of ["strengths", "weaknesses"])
+      if (!isStringList(p?.[key])) issues.push(`${at}.${key} must be a list`);
+    if (!Array.isArray(p?.evidence)) {
+      issues.push(`${at}.evidence must be an array`);
+    } else {
+      p.evidence.forEach((e, j) => {
+        if (
+          !rows.has(e?.shot) ||
+          !Number.isInteger(e?.count) ||
+          typeof e?.note !== "string"
+        ) {
+          issues.push(`${at}.evidence[${j}] must cite a shot type and count`);
+          return;
+        }
+        // The count must be the player's own cell in the summary
+        const actual = Number(rows.get(e.shot)[p.player] ?? 0);
+        if (e.count !== actual)
+          issues.push(
+            `${at}.evidence[${j}] cites ${e.count} ${e.shot} for ${p.player}, the summary has ${actual}`,
+          );
+      });
+    }
+  });
+  if (analysis.players.length !== playerNames.length)
+    issues.push(
+      `expected ${playerNames.length} players, got ${analysis.players.length}`,
+    );
+  if (!isString(analysis.overall)) issues.push("overall is missing");
+  return issues;
+};
+
 app.post("/api/analyze-table", async (req, res) => {
   try {
     const { summaryTable } = req.body;
+    const language = languageName(req.body.language);
 
-    if (!summaryTable) {
+    if (!Array.isArray(summaryTable) || summaryTable.length === 0) {
       return res.status(400).json({ error: "Missing summaryTable data" });
     }
+    if (!language) {
+      return res.status(400).json({ error: "Unsupported language" });
+    }
+    // The client falls back to its rule-based analysis on any error
+    if (!process.env.GEMINI_API_KEY) {
+      return res.status(503).json({ error: "AI analysis is not configured" });
+    }
+
+    // Columns other than "shot" are named after the players (roster names)
+    const playerNames = Object.keys(summaryTable[0] ?? {}).filter(
+      (key) => key !== "shot",
+    );
 
     const analysisPrompt = `
 Match Shot Summary:
 ${JSON.stringify(summaryTable, null, 2)}
 
-You are a world-class badminton analyst and commentator. Your task is to provide a detailed, professional analysis of two badminton players based on a statistical summary of their shot selection during a match.
+The players are: ${playerNames.join(", ")}. Use exactly these names in the "player" fields.
 
-Your analysis must be insightful, articulate, and written in a professional tone suitable for a sports broadcast or a post-match report. Go beyond simply restating the numbers; interpret them to tell a story about each player's strategy, strengths, and tactical approach.
+You are a world-class badminton analyst and commentator. Provide a detailed, professional analysis of the players based on this statistical summary of their shot selection. Go beyond restating the numbers; interpret them to tell a story about each player's strategy, strengths and tactical approach.
 
-Analysis Guidelines:
+For each player:
+- "style": characterise the playing style in 2-7 words (e.g. aggressive baseline attacker, strategic net player, defensive retriever, all-court player).
+- "summary": one paragraph on their likely on-court strategy and what they were trying to achieve.
+- "strengths" and "weaknesses": short points, 2-4 each.
+- "evidence": the shot counts the analysis relies on. "shot" must be a shot type from the summary and "count" its exact count for that player. For instance, many Smashes and Drives indicate an offensive style, whereas many Drops, Lifts and Clears point to a controlled or defensive game.
 
-Player 1 Analysis:
-- Based on the shot distribution, characterize Player 1's playing style (e.g., aggressive baseline attacker, strategic net player, defensive retriever, all-court player).
-- Use specific shot counts as evidence. For instance, a high number of "Smashes" and "Drives" indicates an offensive, aggressive style, whereas a high number of "Drops," "Lifts," and "Clears" points towards a more controlled, defensive, or strategic game.
-- Infer their likely on-court strategy and what they were trying to achieve.
+"overall": compare the players directly, describe the tactical dynamic of the match (aggression vs defence, net vs backcourt control, etc.) and how their approaches interacted.
 
-Player 2 Analysis:
-- Provide the same in-depth analysis for Player 2, identifying their playing style and tactical preferences based on their shot data.
-
-Head-to-Head Comparison:
-- Directly compare and contrast the two players' styles.
-- Describe the tactical dynamic of the match (aggression vs defense, net vs backcourt control, etc.)
-- Conclude with a summary of how their approaches interacted on the court.
-
-Note: do not use any bold, italic, or underline formatting in the main text. Write in plain paragraphs as if it appears under the “INSIGHTS” section of a match analysis software. Your response must contain exactly three sections: Player 1 Analysis, Player 2 Analysis, and Overall Analysis — and nothing else.
+Write plain text without markdown formatting.
+Write "style", "summary", "strengths", "weaknesses", the evidence "note" and "overall" in ${language}. Keep the "player" and "shot" values exactly as they appear in the summary, untranslated.
 `;
 
-    const analysisResult = await model.generateContent(analysisPrompt);
-    const aiAnalysis = analysisResult.response.text();
-
-    const prompt2 = `
-Here is an AI-generated analysis of two badminton players' playstyles:
-
-${aiAnalysis}
-
-Going through these players' analysis i want to find professional matches with player that shows similar playstyle for improvement and comparison, return me only in the output with the player name and the youtube link for their matches
-
-For each player, return this format:
-
-Player 1 (style summary)
-[Player Name] - [YouTube Link]
-
-Player 2 (style summary)
-[Player Name] - [YouTube Link]
-
-Rules:
-- The style summary must be short (2-7 words only).
-- No markdown, no bullet points, no extra explanations.
-    `;
-    const refResult = await model.generateContent(prompt2);
-    const aiRaw = await refResult.response.text();
-
-    const lines = aiRaw
-      .split("\n")
-      .map((l) => l.trim())
-      .filter((l) => l);
-
-    const players = [];
-    let current = null;
-    for (const line of lines) {
-      if (line.startsWith("Player 1") || line.startsWith("Player 2")) {
-        const match = line.match(/Player (\d) \(([^)]+)\)/);
-        if (match) current = { number: `Player ${match[1]}`, style: match[2] };
-      } else if (line.includes("-") && current) {
-        const [name, url] = line.split("-").map((x) => x.trim());
-        current.name = name;
-        current.link = url.startsWith("http") ? url : null;
-        players.push(current);
-        current = null;
-      }
+    const analysis = await generateJSON(analysisPrompt, ANALYSIS_SCHEMA);
+    const issues = analysisIssues(analysis, playerNames, summaryTable);
+    if (issues.length > 0) {
+      console.error("AI analysis failed validation:", issues);
+      return res
+        .status(502)
+        .json({ error: "AI analysis was malformed", issues });
     }
-    const aiVerified = [];
-    for (const p of players) {
-      const link = await getYouTubeMatchLink(p.name);
-      aiVerified.push({
-        player: p.number,
-        style: p.style,
-        name: p.name,
-        link: link || "No video found",
+
+    const recommendationPrompt = `
+Here are the playing styles of badminton players from an amateur match:
+
+${analysis.players.map((p) => `${p.player}: ${p.style}. ${p.summary}`).join("\n")}
+
+For each player, name one professional badminton player with a similar playstyle whose matches they could study for improvement and comparison. "player" is the amateur's name as given, "style" a short summary (2-7 words) in ${language} and "proName" the professional's full name.
+`;
+    const suggestions = await generateJSON(
+      recommendationPrompt,
+      RECOMMENDATION_SCHEMA,
+    );
+
+    const recommendations = [];
+    for (const s of Array.isArray(suggestions) ? suggestions : []) {
+      if (!isString(s?.player) || !isString(s?.proName)) continue;
+      const link = await getYouTubeMatchLink(s.proName);
+      recommendations.push({
+        player: s.player,
+        style: isString(s.style) ? s.style : "",
+        proName: s.proName,
+        ...(link ? { link } : {}),
       });
     }
 
     res.json({
-      aiSummary: aiAnalysis,
-      aiVerified: aiVerified
-        .map((p) => `${p.player} (${p.style})\n${p.name} - ${p.link}`)
-        .join("\n\n"),
+      analysis: {
+        players: analysis.players,
+        overall: analysis.overall,
+        recommendations,
+      },
     });
   } catch (err) {
     console.error("🔥 Gemini error:", err);
+    res.status(500).json({ error: "AI analysis failed" });
+  }
+});
+
+// --------------------------------------------------------
+// FUNCTION: Ask the Coach
+// Requirement: The system must answer follow-up questions
+// about a match from its events, stats and prior analysis,
+// citing the moments it refers to.
+// --------------------------------------------------------
+
+const CHAT_MAX_QUESTION_LENGTH = 500;
+const CHAT_MAX_EVENTS = 3000;
+
+app.post("/api/coach-chat", async (req, res) => {
+  try {
+    const { question, history = [], context = {} } = req.body;
+    const language = languageName(req.body.language);
+
+    if (typeof question !== "string" || !question.trim()) {
+      return res.status(400).json({ error: "Missing question" });
+    }
+    if (!language) {
+      return res.status(400).json({ error: "Unsupported language" });
+    }
+    if (question.length > CHAT_MAX_QUESTION_LENGTH) {
+      return res.status(400).json({ error: "Question is too long" });
+    }
+    if (!Array.isArray(context.events) || !Array.isArray(history)) {
+      return res.status(400).json({ error: "Missing match context" });
+    }
+    if (!process.env.GEMINI_API_KEY) {
+      return res.status(503).json({ error: "AI chat is not configured" });
+    }
+
+    const players = Array.isArray(context.players) ? context.players : [];
+    const events = context.events
+      .slice(0, CHAT_MAX_EVENTS)
+      .map((e) => `${Number(e.t).toFixed(1)}s ${e.player}: ${e.shot}`)
+      .join("\n");
+    const conversation = history
+      .filter((m) => typeof m?.text === "string")
+      .map((m) => `${m.role === "user" ? "User" : "Coach"}: ${m.text}`)
+      .join("\n\n");
+
+    const prompt = `
+You are a badminton coach answering questions about one amateur match between ${players.join(" and ")}.
+Answer only from the match data below. If the data cannot answer the question, say so.
+
+When you refer to a moment in the match, cite the event time exactly as [12.3s], using times from the event list. Cite the specific events your answer relies on, not ranges.
+Answer in plain text without markdown, in a few short paragraphs at most.
+Answer in ${language}, unless the user writes in another language.
+
+Shot summary (counts per player):
+${JSON.stringify(context.summaryTable ?? [], null, 2)}
+
+Prior analysis:
+${context.analysis ? JSON.stringify(context.analysis, null, 2) : "None"}
+
+Events (video time, player, shot):
+${events}
+
+${conversation ? `Conversation so far:\n${conversation}\n` : ""}
+User: ${question.trim()}
+Coach:`;
+
+    const result = await model.generateContent(prompt);
+    res.json({ answer: result.response.text().trim() });
+  } catch (err) {
+    console.error("🔥 Coach chat error:", err);
+    res.status(500).json({ error: "The coach could not answer" });
   }
 });
 
@@ -235,6 +599,157 @@ async function getYouTubeMatchLink(playerName) {
   }
 }
 
+// --------------------------------------------------------
+// FUNCTION: Shareable Match Links
+// Requirement: The system must publish an analysis under an
+// unguessable id for read-only viewing, with optional expiry
+// and revocation by the person who shared it.
+// --------------------------------------------------------
+const SHARE_PREFIX = "shares";
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+const SHARE_MAX_DAYS = 365;
+const SHARE_MAX_BYTES = 1_000_000;
+const shareKey = (id) => `${SHARE_PREFIX}/${id}.json`;
+
+const hashToken = (token) =>
+  crypto.createHash("sha256").update(String(token)).digest("hex");
+
+const isExpired = (share) =>
+  share.expiresAt !== null && new Date(share.expiresAt) <= new Date();
+
+// Same rules as the client's validateEvent (src/utils/modelResult.ts)
+const isValidEvent = (e) =>
+  e !== null &&
+  typeof e === "object" &&
+  typeof e.label === "string" &&
+  e.label.trim() !== "" &&
+  Number.isInteger(e.track_id) &&
+  Number.isFinite(e.t0) &&
+  e.t0 >= 0 &&
+  (e.t1 == null || (Number.isFinite(e.t1) && e.t1 >= e.t0)) &&
+  (e.score == null || Number.isFinite(e.score));
+
+const isEventList = (v) => Array.isArray(v) && v.every(isValidEvent);
+
+// Returns why a bundle cannot be shared, or null. Anything stored here must
+// open in the read-only viewer.
+const shareBundleIssue = (bundle) => {
+  if (bundle?.format !== "mds06-analysis") return "Missing analysis bundle";
+  const { result, correctedEvents } = bundle;
+  if (
+    !result ||
+    typeof result !== "object" ||
+    Array.isArray(result) ||
+    !isEventList(result.events)
+  )
+    return "The analysis result must contain a list of valid events";
+  if (correctedEvents !== undefined && !isEventList(correctedEvents))
+    return "The corrected events are invalid";
+  return null;
+};
+
+// Create: stores an exported analysis bundle and returns its id together
+// with the token needed to revoke it
+app.post("/api/shares", async (req, res) => {
+  try {
+    const { bundle, expiresInDays = null } = req.body;
+    const issue = shareBundleIssue(bundle);
+    if (issue) return res.status(400).json({ error: issue });
+    if (Buffer.byteLength(JSON.stringify(bundle)) > SHARE_MAX_BYTES)
+      return res.status(413).json({
+        error: `The analysis is too large to share (over ${SHARE_MAX_BYTES / 1_000_000} MB)`,
+      });
+    if (
+      expiresInDays !== null &&
+      !(
+        Number.isInteger(expiresInDays) &&
+        expiresInDays >= 1 &&
+        expiresInDays <= SHARE_MAX_DAYS
+      )
+    )
+      return res.status(400).json({
+        error: `Expiry must be between 1 and ${SHARE_MAX_DAYS} days`,
+      });
+
+    const now = Date.now();
+    const revokeToken = crypto.randomBytes(24).toString("base64url");
+    const share = {
+      id: crypto.randomBytes(16).toString("base64url"),
+      createdAt: new Date(now).toISOString(),
+      expiresAt:
+        expiresInDays === null
+          ? null
+          : new Date(now + expiresInDays * 86_400_000).toISOString(),
+      revokeTokenHash: hashToken(revokeToken),
+      bundle,
+    };
+    await storage.writeJSON(shareKey(share.id), share);
+
+    res.status(201).json({
+      id: share.id,
+      createdAt: share.createdAt,
+      expiresAt: share.expiresAt,
+      revokeToken,
+    });
+  } catch (err) {
+    console.error("❌ Share create error:", err);
+    res.status(500).json({ error: "Could not create the share link" });
+  }
+});
+
+// View: the shared bundle, unless it expired or was revoked
+app.get("/api/shares/:shareId", async (req, res) => {
+  const { shareId } = req.params;
+  if (!SHARE_ID_PATTERN.test(shareId))
+    return res.status(400).json({ error: "Invalid share link" });
+
+  try {
+    const share = await storage.readJSON(shareKey(shareId));
+    if (!share)
+      return res
+        .status(404)
+        .json({ error: "This share link does not exist or was revoked." });
+    if (isExpired(share)) {
+      await storage.remove(shareKey(shareId));
+      return res.status(410).json({ error: "This share link has expired." });
+    }
+
+    res.json({
+      id: share.id,
+      createdAt: share.createdAt,
+      expiresAt: share.expiresAt,
+      bundle: share.bundle,
+    });
+  } catch (err) {
+    console.error("❌ Share read error:", err);
+    res.status(500).json({ error: "Could not load the share link" });
+  }
+});
+
+// Revoke: deletes the share; requires the token returned on creation
+app.delete("/api/shares/:shareId", async (req, res) => {
+  const { shareId } = req.params;
+  const { revokeToken } = req.body ?? {};
+  if (!SHARE_ID_PATTERN.test(shareId) || typeof revokeToken !== "string")
+    return res.status(400).json({ error: "Invalid share link" });
+
+  try {
+    const share = await storage.readJSON(shareKey(shareId));
+    if (!share) return res.status(204).end();
+
+    const expected = Buffer.from(share.revokeTokenHash, "hex");
+    const given = Buffer.from(hashToken(revokeToken), "hex");
+    if (!crypto.timingSafeEqual(expected, given))
+      return res.status(403).json({ error: "Not allowed to revoke this link" });
+
+    await storage.remove(shareKey(shareId));
+    res.status(204).end();
+  } catch (err) {
+    console.error("❌ Share revoke error:", err);
+    res.status(500).json({ error: "Could not revoke the share link" });
+  }
+});
+
 // -----------------------------
 // Fallback: serve frontend
 // -----------------------------
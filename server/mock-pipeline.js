@@ -0,0 +1,224 @@
+// mock-pipeline.js
+// Local stand-in for the GPU pipeline service (PIPELINE_URL). Implements the
+// same POST /process contract, but returns synthetic events instead of
+// running the models, so the whole app can be demoed and tested offline.
+//
+//   npm run mock-pipeline
+//   PIPELINE_URL=http://localhost:8001 npm start
+//
+// The scenario is picked from the uploaded video's filename (e.g.
+// "doubles-practice.mp4" runs "doubles"), falling back to MOCK_SCENARIO.
+// Events are seeded from the filename, so the same video always gives the
+// same match.
+import express from "express";
+import multer from "multer";
+import dotenv from "dotenv";
+dotenv.config();
+
+const app = express();
+const upload = multer();
+
+const PORT = Number(process.env.MOCK_PIPELINE_PORT) || 8001;
+const DEFAULT_SCENARIO = process.env.MOCK_SCENARIO || "singles";
+// Simulated processing time, so the progress UI has something to show
+const DELAY_SECONDS = Number(process.env.MOCK_DELAY_SECONDS ?? 5);
+// How long the "timeout" scenario hangs before giving up like Cloud Run
+const TIMEOUT_SECONDS = Number(process.env.MOCK_TIMEOUT_SECONDS ?? 60);
+const RALLIES = Number(process.env.MOCK_RALLIES) || 24;
+const FPS = 30;
+
+// --------------------------------------------------------
+// Scenarios
+// --------------------------------------------------------
+// Match scenarios shape the synthetic events; failure scenarios make the
+// service misbehave the way the real one can.
+const SCENARIOS = {
+  singles: { players: 2 },
+  doubles: { players: 4 },
+  "long-rallies": { players: 2, rallyLength: [20, 40] },
+  "unknown-labels": { players: 2, unknownLabelShare: 0.12 },
+  "low-scores": { players: 2, lowScoreShare: 0.35 },
+  frames: { players: 2, timeUnit: "frames" },
+  // No time base declared: the dashboard has to infer one and warn
+  undeclared: { players: 2, timeUnit: "frames", declareTimeBase: false },
+  // A player's track id changes mid-match, as after a tracker loss
+  "track-switch": { players: 2, trackSwitch: true },
+  error: { failure: 500 },
+  unavailable: { failure: 503 },
+  timeout: { failure: "timeout" },
+  invalid: { failure: "invalid" },
+};
+
+// A scenario name counts as a whole word of the filename, so
+// "doubles-final.mp4" matches "doubles" but "terror.mp4" not "error"
+const pickScenario = (videoRef) => {
+  const name = String(videoRef ?? "").split("/").pop().toLowerCase();
+  const match = Object.keys(SCENARIOS).find((s) =>
+    new RegExp(`(^|[^a-z])${s}([^a-z]|$)`).test(name),
+  );
+  return match ?? DEFAULT_SCENARIO;
+};
+
+// --------------------------------------------------------
+// Synthetic match generation
+// --------------------------------------------------------
+
+// Small seeded PRNG (mulberry32) so a video always maps to the same match
+function createRandom(seedText) {
+  let seed = 0;
+  for (const ch of seedText) seed = (Math.imul(seed, 31) + ch.charCodeAt(0)) | 0;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Labels as the models emit them, with the replies each shot tends to get
+const REPLIES = {
+  serve: ["lift", "push", "net_shot", "net_shot", "clear"],
+  lift: ["smash", "smash", "jump_smash", "clear", "drop"],
+  clear: ["clear", "drop", "smash", "lift"],
+  smash: ["smash_defence", "smash_defence", "lift", "drive"],
+  jump_smash: ["smash_defence", "lift"],
+  smash_defence: ["net_shot", "lift", "drive", "push"],
+  drop: ["lift", "net_shot", "cross_court_net"],
+  drive: ["drive", "drive", "push", "smash_defence"],
+  push: ["lift", "drive", "clear"],
+  net_shot: ["lift", "net_shot", "cross_court_net", "net_kill"],
+  cross_court_net: ["lift", "net_shot", "net_kill"],
+  net_kill: ["lift"],
+};
+// Rally-ending shots
+const WINNERS = ["smash", "jump_smash", "net_kill", "drop"];
+const UNKNOWN_LABELS = ["backhand_flick", "around_the_head", "slice"];
+
+function generateMatch(scenario, random) {
+  const pick = (items) => items[Math.floor(random() * items.length)];
+  const between = (min, max) => min + random() * (max - min);
+
+  // Players 1..n; doubles pairs are 1+2 and 3+4
+  const sides =
+    scenario.players === 4
+      ? [
+          [1, 2],
+          [3, 4],
+        ]
+      : [[1], [2]];
+
+  const events = [];
+  let time = between(3, 6);
+  let server = 0;
+
+  for (let r = 0; r < RALLIES; r++) {
+    const [minLength, maxLength] = scenario.rallyLength ?? [3, 14];
+    const length = Math.round(between(minLength, maxLength));
+    let side = server;
+    let label = "serve";
+
+    for (let s = 0; s < length; s++) {
+      const duration = between(0.25, 0.6);
+      let trackId = pick(sides[side]);
+      // Second half: player 2 comes back from a tracker loss as track 5
+      if (scenario.trackSwitch && trackId === 2 && r >= RALLIES / 2) trackId = 5;
+
+      const lowScore =
+        scenario.lowScoreShare && random() < scenario.lowScoreShare;
+      events.push({
+        label:
+          scenario.unknownLabelShare &&
+          s > 0 &&
+          random() < scenario.unknownLabelShare
+            ? pick(UNKNOWN_LABELS)
+            : label,
+        track_id: trackId,
+        t0: time,
+        t1: time + duration,
+        score: lowScore ? between(0.15, 0.49) : between(0.62, 0.99),
+      });
+
+      time += between(0.8, 1.5);
+      side = 1 - side;
+      label = s === length - 2 ? pick(WINNERS) : pick(REPLIES[label]);
+    }
+
+    // Whoever hit last won the rally and serves next
+    server = 1 - side;
+    time += between(8, 20);
+  }
+
+  // Timestamps as the time base says: frame indices or seconds
+  const toUnit = (t) =>
+    scenario.timeUnit === "frames"
+      ? Math.round(t * FPS)
+      : Math.round(t * 100) / 100;
+  return events.map((e) => ({
+    ...e,
+    t0: toUnit(e.t0),
+    t1: toUnit(e.t1),
+    score: Math.round(e.score * 1000) / 1000,
+  }));
+}
+
+// --------------------------------------------------------
+// FUNCTION: Process a video
+// Requirement: The mock must accept the same form fields as
+// the real pipeline and answer with the same response shape.
+// --------------------------------------------------------
+const sleep = (seconds) =>
+  new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+app.post("/process", upload.none(), async (req, res) => {
+  // gcs_uri from the GCS storage backend, video_uri/video_path from local
+  const videoRef = req.body.gcs_uri || req.body.video_uri || req.body.video_path;
+  if (!videoRef)
+    return res.status(400).json({ error: "gcs_uri or video_path is required" });
+
+  const name = pickScenario(videoRef);
+  const scenario = SCENARIOS[name];
+  if (!scenario)
+    return res.status(400).json({ error: `Unknown scenario "${name}"` });
+  console.log(`🧪 Mock pipeline (job ${req.body.job_id}): ${name}`, videoRef);
+
+  if (scenario.failure === "timeout") {
+    await sleep(TIMEOUT_SECONDS);
+    return res.status(504).send("upstream request timeout");
+  }
+
+  await sleep(DELAY_SECONDS);
+
+  if (scenario.failure === 500)
+    return res.status(500).send("CUDA error: out of memory (mock)");
+  if (scenario.failure === 503)
+    return res.status(503).send("Service Unavailable (mock)");
+  if (scenario.failure === "invalid")
+    return res.json({
+      events: [{ label: "", track_id: "one", t0: -1 }],
+      outputs: {},
+    });
+
+  const events = generateMatch(scenario, createRandom(`${videoRef}:${name}`));
+  const timeBase =
+    scenario.declareTimeBase === false
+      ? {}
+      : { time_unit: scenario.timeUnit ?? "seconds", fps: FPS };
+
+  res.json({
+    ...timeBase,
+    events,
+    // No overlay is rendered; the uploaded video is played instead
+    outputs: { overlay_mp4: { gcs_uri: req.body.video_uri || req.body.gcs_uri } },
+    mock: { scenario: name },
+  });
+});
+
+app.get("/", (req, res) =>
+  res.json({ service: "mock-pipeline", scenarios: Object.keys(SCENARIOS) }),
+);
+
+app.listen(PORT, () => {
+  console.log(
+    `🧪 Mock pipeline listening on port ${PORT} (default scenario: ${DEFAULT_SCENARIO})`,
+  );
+});
@@ -0,0 +1,291 @@
+// storage.js
+// Storage backends for uploaded videos, pipeline output, job records and
+// share links. Google Cloud Storage is used when BUCKET_NAME is set;
+// otherwise everything lives on the local disk and Express serves signed
+// upload and read endpoints, so the app runs without a GCP project.
+//
+// Every backend provides:
+//   name                         "gcs" or "local"
+//   createUploadSession(key, contentType, origin) -> resumable upload URL
+//   readJSON(key) -> parsed object, or null when missing
+//   writeJSON(key, value)
+//   remove(key)
+//   uri(key) -> "gs://bucket/key" or "local://key"
+//   pipelineFields(key) -> form fields telling the ML pipeline where the
+//                          video is and where to write its output
+//   readUrl(uri) -> URL the browser can play, or null for a foreign URI;
+//                   throws for keys that are not videos or pipeline output
+//   router -> Express routes the backend needs (local only)
+import crypto from "crypto";
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
+import express from "express";
+import { Storage } from "@google-cloud/storage";
+
+// GCS keeps resumable sessions for a week; local sessions match it
+const UPLOAD_SESSION_SECONDS = 7 * 24 * 60 * 60;
+const READ_URL_SECONDS = 12 * 60 * 60;
+
+// Read links are only handed out for pipeline output and videos, never for
+// job records or share bundles
+const PIPELINE_OUTPUT_PREFIX = "output/";
+const PRIVATE_PREFIXES = ["jobs/", "shares/"];
+const VIDEO_KEY_PATTERN = /\.(mp4|mov|m4v|webm|mkv|avi)$/i;
+
+function assertReadableKey(key) {
+  const normalized = path.posix.normalize(key);
+  const readable =
+    !normalized.startsWith("../") &&
+    !PRIVATE_PREFIXES.some((prefix) => normalized.startsWith(prefix)) &&
+    (normalized.startsWith(PIPELINE_OUTPUT_PREFIX) ||
+      VIDEO_KEY_PATTERN.test(normalized));
+  if (!readable) throw new Error(`Not a readable video: ${key}`);
+  return normalized;
+}
+
+// --------------------------------------------------------
+// Google Cloud Storage
+// --------------------------------------------------------
+function createGcsStorage(bucketName) {
+  const bucket = new Storage({
+    keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
+  }).bucket(bucketName);
+
+  return {
+    name: "gcs",
+
+    // The session URI authorises chunked PUTs from the browser; GCS keeps
+    // it valid for a week, so an interrupted upload can pick up later.
+    createUploadSession: async (key, contentType, origin) => {
+      const [sessionUri] = await bucket.file(key).createResumableUpload({
+        metadata: { contentType },
+        origin,
+      });
+      return sessionUri;
+    },
+
+    readJSON: async (key) => {
+      try {
+        const [contents] = await bucket.file(key).download();
+        return JSON.parse(contents.toString());
+      } catch (err) {
+        if (err.code === 404) return null;
+        throw err;
+      }
+    },
+
+    writeJSON: (key, value) =>
+      bucket
+        .file(key)
+        .save(JSON.stringify(value), { contentType: "application/json" }),
+
+    remove: (key) => bucket.file(key).delete({ ignoreNotFound: true }),
+
+    uri: (key) => `gs://${bucketName}/${key}`,
+
+    pipelineFields: (key) => ({
+      gcs_uri: `gs://${bucketName}/${key}`,
+      output_bucket: bucketName,
+      output_prefix: "output",
+    }),
+
+    // Pipeline output is publicly readable in the bucket
+    readUrl: (uri) => {
+      if (!uri.startsWith("gs://")) return null;
+      const [, ...key] = uri.slice("gs://".length).split("/");
+      assertReadableKey(key.join("/"));
+      return uri.replace("gs://", "https://storage.googleapis.com/");
+    },
+
+    router: null,
+  };
+}
+
+// --------------------------------------------------------
+// Local disk
+// --------------------------------------------------------
+function createLocalStorage(rootDir) {
+  // Without a configured secret, signed URLs only survive until a restart
+  const secret =
+    process.env.STORAGE_SIGNING_SECRET || crypto.randomBytes(32).toString("hex");
+  if (!process.env.STORAGE_SIGNING_SECRET) {
+    console.warn(
+      "⚠️ STORAGE_SIGNING_SECRET is not set; upload and video links expire on restart.",
+    );
+  }
+
+  const sign = (purpose, key, expires) =>
+    crypto
+      .createHmac("sha256", secret)
+      .update(`${purpose}:${key}:${expires}`)
+      .digest("base64url");
+
+  const signedUrl = (purpose, key, seconds) => {
+    const expires = Math.floor(Date.now() / 1000) + seconds;
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+    return `/api/storage/${purpose}/${encodedKey}?expires=${expires}&sig=${sign(purpose, key, expires)}`;
+  };
+
+  // Absolute path of a key, refusing anything outside the storage root
+  const resolveKey = (key) => {
+    const file = path.resolve(rootDir, key);
+    if (!file.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  // 403 for a bad signature, 410 once expired (the client then starts a
+  // new upload session), otherwise the key's path
+  const verify = (purpose, req, res) => {
+    const key = req.params.key.join("/");
+    const expires = Number(req.query.expires);
+    const expected = Buffer.from(sign(purpose, key, expires));
+    const given = Buffer.from(String(req.query.sig ?? ""));
+    if (
+      expected.length !== given.length ||
+      !crypto.timingSafeEqual(expected, given)
+    ) {
+      res.status(403).json({ error: "Invalid signature" });
+      return null;
+    }
+    if (expires * 1000 < Date.now()) {
+      res.status(410).json({ error: "Link expired" });
+      return null;
+    }
+    try {
+      return resolveKey(key);
+    } catch (err) {
+      res.status(400).json({ error: err.message });
+      return null;
+    }
+  };
+
+  const fileSize = async (file) => {
+    try {
+      return (await fsp.stat(file)).size;
+    } catch {
+      return 0;
+    }
+  };
+
+  // Replies like a GCS resumable session: 308 with the bytes received so
+  // far, 200 once the object is complete
+  const incomplete = (res, received) => {
+    if (received > 0) res.set("Range", `bytes=0-${received - 1}`);
+    res.status(308).end();
+  };
+
+  const router = express.Router();
+
+  router.put("/api/storage/upload/*key", async (req, res) => {
+    const file = verify("upload", req, res);
+    if (!file) return;
+    const partFile = `${file}.part`;
+
+    try {
+      const range = req.get("Content-Range") ?? "";
+      const status = range.match(/^bytes \*\/(\d+)$/);
+      const chunk = range.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+
+      if (status) {
+        if (fs.existsSync(file)) return res.status(200).json({ ok: true });
+        return incomplete(res, await fileSize(partFile));
+      }
+      if (!chunk) return res.status(400).json({ error: "Bad Content-Range" });
+
+      const [start, end, total] = chunk.slice(1).map(Number);
+      const received = await fileSize(partFile);
+      // Out of sync (e.g. a retried chunk); tell the client where to resume
+      if (start !== received) {
+        req.resume();
+        return incomplete(res, received);
+      }
+
+      await fsp.mkdir(path.dirname(file), { recursive: true });
+      await new Promise((resolve, reject) => {
+        const out = fs.createWriteStream(partFile, { flags: "a" });
+        req.pipe(out);
+        out.on("finish", resolve);
+        out.on("error", reject);
+        req.on("error", reject);
+      });
+
+      const size = await fileSize(partFile);
+      if (size > end + 1) {
+        // More bytes than the range announced; drop the chunk
+        await fsp.truncate(partFile, received);
+        return res.status(400).json({ error: "Chunk larger than its range" });
+      }
+      if (size < total) return incomplete(res, size);
+
+      await fsp.rename(partFile, file);
+      res.status(200).json({ ok: true });
+    } catch (err) {
+      console.error("❌ Local upload error:", err);
+      res.status(500).json({ error: "Upload failed" });
+    }
+  });
+
+  // Supports Range requests, so the video can be seeked
+  router.get("/api/storage/files/*key", (req, res) => {
+    const file = verify("files", req, res);
+    if (!file) return;
+    res.sendFile(file, (err) => {
+      if (err && !res.headersSent) res.status(404).json({ error: "Not found" });
+    });
+  });
+
+  return {
+    name: "local",
+
+    createUploadSession: async (key) =>
+      signedUrl("upload", key, UPLOAD_SESSION_SECONDS),
+
+    readJSON: async (key) => {
+      try {
+        return JSON.parse(await fsp.readFile(resolveKey(key), "utf8"));
+      } catch (err) {
+        if (err.code === "ENOENT") return null;
+        throw err;
+      }
+    },
+
+    writeJSON: async (key, value) => {
+      const file = resolveKey(key);
+      await fsp.mkdir(path.dirname(file), { recursive: true });
+      await fsp.writeFile(file, JSON.stringify(value));
+    },
+
+    remove: (key) => fsp.rm(resolveKey(key), { force: true }),
+
+    uri: (key) => `local://${key}`,
+
+    // The pipeline runs on the same machine and reads/writes the disk
+    pipelineFields: (key) => ({
+      video_path: resolveKey(key),
+      video_uri: `local://${key}`,
+      output_dir: path.join(path.resolve(rootDir), "output"),
+      output_prefix: "output",
+    }),
+
+    readUrl: (uri) => {
+      if (!uri.startsWith("local://")) return null;
+      const key = assertReadableKey(uri.slice("local://".length));
+      resolveKey(key); // Throws for keys outside the root
+      return signedUrl("files", key, READ_URL_SECONDS);
+    },
+
+    router,
+  };
+}
+
+/**
+ * Picks the backend from the environment: GCS when BUCKET_NAME is set,
+ * otherwise the local disk under STORAGE_DIR (default server/.data).
+ */
+export function createStorage(defaultDir) {
+  if (process.env.BUCKET_NAME) return createGcsStorage(process.env.BUCKET_NAME);
+  return createLocalStorage(process.env.STORAGE_DIR || defaultDir);
+}
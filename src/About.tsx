@@ -1,4 +1,7 @@
 import { Link } from "react-router-dom";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import RichText from "./components/RichText";
+import { useI18n } from "./hooks/useI18n";
 
 // Asset Imports
 import bryanphoto from "./assets/bryan.png";
@@ -14,7 +17,16 @@ import snsphoto from "./assets/sns logo.png";
  * acknowledgments, and the development team.
  * Uses a shared header design with the Landing Page for consistency.
  */
+// Styles for the <tag> spans in the About page messages
+const EMPHASIS = {
+  em: "italic",
+  hl: "text-blue-700",
+  strong: "text-blue-700 font-bold",
+};
+
 export default function About(): JSX.Element {
+  const { t } = useI18n();
+
   return (
     <div className="flex flex-col min-h-screen bg-gray-100">
       {/* ---------------------------------------------------------------------------
@@ -44,23 +56,31 @@ export default function About(): JSX.Element {
                 to="/"
                 className="relative text-lg font-medium text-purple-100 group transition-all duration-300 hover:text-white no-underline"
               >
-                Home
+                {t("nav.home")}
                 <span className="absolute -bottom-2 left-0 w-full h-0.5 bg-gradient-to-r from-purple-400 to-blue-400 transform scale-x-0 transition-transform duration-300 group-hover:scale-x-100" />
               </Link>
               <Link
                 to="/about"
                 className="relative text-lg font-medium text-white group transition-all duration-300 hover:text-purple-200 no-underline"
               >
-                About
+                {t("nav.about")}
                 <span className="absolute -bottom-2 left-0 w-full h-0.5 bg-gradient-to-r from-purple-400 to-blue-400 transform scale-x-100 transition-transform duration-300 group-hover:scale-x-110" />
               </Link>
               <Link
                 to="/main"
                 className="relative text-lg font-medium text-purple-100 group transition-all duration-300 hover:text-white no-underline"
               >
-                Main
+                {t("nav.main")}
+                <span className="absolute -bottom-2 left-0 w-full h-0.5 bg-gradient-to-r from-purple-400 to-blue-400 transform scale-x-0 transition-transform duration-300 group-hover:scale-x-100" />
+              </Link>
+              <Link
+                to="/library"
+                className="relative text-lg font-medium text-purple-100 group transition-all duration-300 hover:text-white no-underline"
+              >
+                {t("nav.library")}
                 <span className="absolute -bottom-2 left-0 w-full h-0.5 bg-gradient-to-r from-purple-400 to-blue-400 transform scale-x-0 transition-transform duration-300 group-hover:scale-x-100" />
               </Link>
+              <LanguageSwitcher />
             </div>
           </div>
         </nav>
@@ -77,16 +97,14 @@ export default function About(): JSX.Element {
           {/* Hero / Title Block */}
           <div className="text-center mb-16">
             <h1 className="text-5xl sm:text-6xl font-bold bg-gradient-to-r from-purple-600 via-blue-600 to-purple-600 bg-clip-text text-transparent mb-6">
-              About Our Platform
+              {t("about.title")}
             </h1>
             <div className="w-24 h-1 bg-gradient-to-r from-purple-400 to-blue-400 mx-auto mb-8" />
             <p className="text-2xl text-blue-600 max-w-2xl mx-auto leading-relaxed">
-              Precision. Speed. Insight.
+              {t("about.tagline")}
             </p>
             <p className="text-gray-600 leading-relaxed">
-              By combining 1000 fps high-speed cameras with state-of-the-art AI
-              models like SlowFast, we capture and classify the split-second
-              movements that ordinary cameras miss.
+              {t("about.intro")}
             </p>
           </div>
 
@@ -109,58 +127,25 @@ export default function About(): JSX.Element {
                     />
                   </svg>
                 </div>
-                <h2 className="text-3xl font-bold text-gray-800">Our Story</h2>
+                <h2 className="text-3xl font-bold text-gray-800">
+                  {t("about.story.title")}
+                </h2>
               </div>
 
               <div className="font-semibold text-gray-800 leading-relaxed space-y-6">
-                <p>
-                  It all started with a simple question —{" "}
-                  <span className="italic">
-                    how much of an athlete’s performance do we actually miss?
-                  </span>
-                </p>
-                <p>
-                  During training, even the most experienced coaches struggled
-                  to capture moments that happened in the blink of an eye, the
-                  flick of a wrist, the angle of a racket, or a split-second
-                  foot pivot that could decide the outcome of a rally.
-                </p>
-                <p>
-                  That question became the spark for{" "}
-                  <span className="text-blue-700">Team MDS06</span>: Bryan
-                  Leong, Phua Yee Yen, Lee Jian Jun Thomas, and Ting Shu Hui.
-                  With the support of{" "}
-                  <span className="text-blue-700">
-                    Monash University Malaysia
-                  </span>
-                  and guidance from{" "}
-                  <span className="text-blue-700">Dr. Vishnu Monn</span>, we set
-                  out to capture what traditional cameras could not.
-                </p>
-                <p>
-                  Armed with a{" "}
-                  <span className="italic">
-                    Chronos&nbsp;2.1 High-Speed Camera
-                  </span>{" "}
-                  capable of recording
-                  <span className="text-blue-700 font-bold">
-                    {" "}
-                    1000&nbsp;frames per second
-                  </span>
-                  , we transformed an ordinary badminton court into a high-speed
-                  research studio. Precise camera angles, carefully tuned
-                  lighting, and athletes performing rapid-fire strokes - these
-                  recordings became the heart of our dataset, revealing layers
-                  of movements invisible to the naked eye.
-                </p>
-                <p>
-                  From there, we built deep learning models that could recognise
-                  and classify each shot type, from smashes to drop shots, and
-                  everything in between. What began as curiosity evolved into a
-                  tool that helps athletes and coaches see performance in an
-                  entirely new way, turning every millisecond into meaningful
-                  insight.
-                </p>
+                {(
+                  [
+                    "about.story.p1",
+                    "about.story.p2",
+                    "about.story.p3",
+                    "about.story.p4",
+                    "about.story.p5",
+                  ] as const
+                ).map((key) => (
+                  <p key={key}>
+                    <RichText text={t(key)} tags={EMPHASIS} />
+                  </p>
+                ))}
               </div>
             </section>
 
@@ -183,37 +168,22 @@ export default function About(): JSX.Element {
                   </svg>
                 </div>
                 <h2 className="text-3xl font-bold text-gray-800">
-                  Our Mission
+                  {t("about.mission.title")}
                 </h2>
               </div>
 
               <div className="text-gray-800 leading-relaxed space-y-4">
-                <p className="font-semibold">
-                  At <span className="text-blue-700">Team MDS06</span>, our
-                  mission is simple yet ambitious — to{" "}
-                  <span className="italic">make the invisible, visible</span>.
-                  We strive to bridge the gap between cutting-edge technology
-                  and human performance by capturing and understanding the
-                  fastest movements in sports with precision and clarity.
-                </p>
-                <p className="font-semibold">
-                  Through the power of{" "}
-                  <span className="text-blue-700">high-speed imaging</span> and{" "}
-                  <span className="text-blue-700">deep learning</span>, we aim
-                  to revolutionise athletic analysis: providing athletes,
-                  coaches, and analysts with{" "}
-                  <span className="italic">
-                    real-time, data-driven insights
-                  </span>{" "}
-                  that enhance training, optimise performance, and prevent
-                  injury.
-                </p>
-                <p className="font-semibold">
-                  Our vision goes beyond badminton, we seek to set a new
-                  benchmark for motion analysis in all high-performance sports,
-                  where every frame, every millisecond, and every movement tells
-                  a story worth understanding.
-                </p>
+                {(
+                  [
+                    "about.mission.p1",
+                    "about.mission.p2",
+                    "about.mission.p3",
+                  ] as const
+                ).map((key) => (
+                  <p key={key} className="font-semibold">
+                    <RichText text={t(key)} tags={EMPHASIS} />
+                  </p>
+                ))}
               </div>
             </section>
 
@@ -235,61 +205,33 @@ export default function About(): JSX.Element {
                     />
                   </svg>
                 </div>
-                <h2 className="text-3xl font-bold text-gray-800">Use Cases</h2>
+                <h2 className="text-3xl font-bold text-gray-800">
+                  {t("about.useCases.title")}
+                </h2>
               </div>
 
               <p className="text-gray-600 leading-relaxed mb-6">
-                Our system is built to serve athletes and coaches who want
-                smarter, faster, and more meaningful ways to understand
-                performance. Below are two core use cases that show how our
-                technology can make every second of footage count.
+                {t("about.useCases.intro")}
               </p>
 
               <div className="space-y-8">
-                {/* Use Case 1 */}
-                <div>
-                  <h3 className="text-2xl font-bold text-blue-700 mb-2">
-                    1. Research My Opponent
-                  </h3>
-                  <p className="font-semibold text-gray-800 leading-relaxed">
-                    Before an important match, players often spend hours
-                    scrubbing through long YouTube videos. Our platform
-                    simplifies this by allowing users to upload or link match
-                    footage of their opponents. Using{" "}
-                    <span className="text-blue-700">deep learning</span> and{" "}
-                    <span className="text-blue-700">action recognition</span>,
-                    the system automatically detects shot types, summarizing key
-                    strengths, weaknesses, and play patterns.
-                  </p>
-                  <br />
-                  <p className="font-semibold text-gray-800 leading-relaxed">
-                    In minutes, players can identify how their opponents attack,
-                    defend, and react under pressure, turning hours of analysis
-                    into actionable match strategies.
-                  </p>
-                </div>
-
-                {/* Use Case 2 */}
-                <div>
-                  <h3 className="text-2xl font-bold text-blue-700 mb-2">
-                    2. Review My Own Practice Footage
-                  </h3>
-                  <p className="font-semibold text-gray-800 leading-relaxed">
-                    For athletes striving to perfect their technique, our system
-                    acts as a personal performance analyst. Upload high-speed
-                    training footage and let our models classify each stroke,
-                    from smashes to drop shots, while tracking motion, timing,
-                    and body alignment.
-                  </p>
-                  <br />
-                  <p className="font-semibold text-gray-800 leading-relaxed">
-                    The platform highlights inconsistencies, measures stroke
-                    accuracy, and provides data-driven feedback. Players can
-                    visualize progress over time, spot areas for improvement,
-                    and fine-tune their form with precision normally reserved
-                    for elite-level analysis.
-                  </p>
-                </div>
+                {(["opponent", "practice"] as const).map((useCase) => (
+                  <div key={useCase}>
+                    <h3 className="text-2xl font-bold text-blue-700 mb-2">
+                      {t(`about.useCases.${useCase}.title`)}
+                    </h3>
+                    <p className="font-semibold text-gray-800 leading-relaxed">
+                      <RichText
+                        text={t(`about.useCases.${useCase}.p1`)}
+                        tags={EMPHASIS}
+                      />
+                    </p>
+                    <br />
+                    <p className="font-semibold text-gray-800 leading-relaxed">
+                      {t(`about.useCases.${useCase}.p2`)}
+                    </p>
+                  </div>
+                ))}
               </div>
             </section>
 
@@ -312,7 +254,7 @@ export default function About(): JSX.Element {
                   </svg>
                 </div>
                 <h2 className="text-3xl font-bold text-gray-800">
-                  Special thanks to
+                  {t("about.thanks.title")}
                 </h2>
               </div>
               <div className="grid md:grid-cols-2 gap-6">
@@ -328,7 +270,7 @@ export default function About(): JSX.Element {
                     SNS Network (M) Sdn Bhd
                   </h3>
                   <p className="text-sm text-gray-600">
-                    for providing temporary access to 1x Nvidia H100 GPU
+                    {t("about.thanks.sns")}
                   </p>
                 </div>
 
@@ -344,8 +286,7 @@ export default function About(): JSX.Element {
                     The Chua Family
                   </h3>
                   <p className="text-sm text-gray-600">
-                    for providing an outdoor badminton court and a volunteer
-                    player to film footage.
+                    {t("about.thanks.chua")}
                   </p>
                 </div>
               </div>
@@ -369,7 +310,9 @@ export default function About(): JSX.Element {
                     />
                   </svg>
                 </div>
-                <h2 className="text-3xl font-bold text-gray-800">Our Team</h2>
+                <h2 className="text-3xl font-bold text-gray-800">
+                  {t("about.team.title")}
+                </h2>
               </div>
 
               <div className="grid md:grid-cols-4 gap-6">
@@ -1,5 +1,12 @@
-import { useState, DragEvent, ChangeEvent } from "react";
+import { useState, useEffect, useMemo } from "react";
+import type { DragEvent, ChangeEvent } from "react";
 import { useNavigate, Link } from "react-router-dom";
+import { useJobQueue } from "./hooks/useJobQueue";
+import ImportAnalysisDropZone from "./components/ImportAnalysisDropZone";
+import JobQueueList from "./components/JobQueueList";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import { listUploadSessions } from "./utils/uploadSessions";
+import { useI18n } from "./hooks/useI18n";
 
 type FileWithPreview = File & { preview?: string };
 
@@ -7,20 +14,41 @@ type FileWithPreview = File & { preview?: string };
  * HomePage Component
  * * The entry point for the application. It handles:
  * 1. File selection via Drag & Drop or System Dialog.
- * 2. Secure file upload to Google Cloud Storage (GCS).
- * 3. Triggering the backend ML pipeline.
- * 4. Redirecting to the Main analysis page upon success.
+ * 2. Queuing every selected video for upload to Google Cloud Storage (GCS),
+ *    the backend ML pipeline and AI analysis.
+ * 3. Showing per-file status, and redirecting to the Main analysis page when
+ *    a single video finishes.
  */
 export default function HomePage(): JSX.Element {
   // State Management
   const [uploadedFiles, setUploadedFiles] = useState<FileWithPreview[]>([]);
-  const [uploading, setUploading] = useState(false);
-  const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [uploadProgress, setUploadProgress] = useState<number>(0);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const { jobs, enqueue, retry, pause, resume, clearFinished, isBusy } =
+    useJobQueue();
+  const { t } = useI18n();
 
   const navigate = useNavigate();
 
+  // A lone video opens straight on the dashboard, as before the queue existed
+  useEffect(() => {
+    if (jobs.length === 1 && jobs[0].status === "done" && jobs[0].matchId) {
+      navigate(`/main/${jobs[0].matchId}`);
+    }
+  }, [jobs, navigate]);
+
+  // Uploads cut short by a reload; re-selecting the file resumes them
+  const interruptedUploads = useMemo(
+    () =>
+      listUploadSessions().filter(
+        (session) =>
+          !jobs.some(
+            (j) =>
+              j.file?.name === session.fileName &&
+              j.file.size === session.size,
+          ),
+      ),
+    [jobs],
+  );
+
   // --- Event Handlers --------------------------------------------------------
 
   const handleFileDrop = (e: DragEvent<HTMLDivElement>) => {
@@ -44,156 +72,13 @@ export default function HomePage(): JSX.Element {
       .map((f) => Object.assign(f, { preview: URL.createObjectURL(f) }));
 
     setUploadedFiles(files);
-    setStatusMessage(null);
   };
 
-  /**
-   * Core Upload Pipeline
-   * 1. Gets a Pre-Signed URL from the backend API.
-   * 2. Uploads the raw video file directly to GCS via PUT request.
-   * 3. Triggers the ML pipeline (`/api/run-model`).
-   * 4. Fetches AI analysis (`/api/analyze-table`).
-   * 5. Saves results to localStorage and navigates to Dashboard.
-   */
-  const uploadToGC = async () => {
+  // Moves the selected files into the analysis queue
+  const startAnalysis = () => {
     if (uploadedFiles.length === 0) return;
-
-    setUploading(true);
-    setStatusMessage("Initializing upload...");
-    setUploadProgress(0);
-
-    try {
-      const uploadedKeys: string[] = [];
-
-      // Step 1: Upload all files
-      for (let i = 0; i < uploadedFiles.length; i++) {
-        const file = uploadedFiles[i];
-
-        // Fetch Signed URL
-        const urlRes = await fetch(
-          `/api/upload-url?filename=${encodeURIComponent(file.name)}&filetype=${encodeURIComponent(file.type)}`,
-        );
-        const { uploadUrl, key } = await urlRes.json();
-
-        if (!urlRes.ok || !uploadUrl) {
-          throw new Error(`Failed to get pre-signed URL for ${file.name}`);
-        }
-
-        // Upload to GCS
-        await new Promise<void>((resolve, reject) => {
-          const xhr = new XMLHttpRequest();
-          xhr.open("PUT", uploadUrl);
-          xhr.setRequestHeader("Content-Type", file.type);
-
-          xhr.upload.onprogress = (event) => {
-            if (event.lengthComputable) {
-              const percent = Math.round(
-                ((i + event.loaded / event.total) / uploadedFiles.length) * 100,
-              );
-              setUploadProgress(percent);
-            }
-          };
-
-          xhr.onload = () =>
-            xhr.status === 200 || xhr.status === 201
-              ? resolve()
-              : reject(new Error(`Upload failed`));
-          xhr.onerror = () => reject(new Error(`Network error`));
-          xhr.send(file);
-        });
-
-        uploadedKeys.push(key);
-        setStatusMessage(`Uploaded: ${file.name}`);
-      }
-
-      // Step 2: Trigger ML Processing
-      setUploading(false);
-      setStatusMessage("Upload complete. Initializing AI models...");
-      setIsProcessing(true);
-
-      const firstKey = uploadedKeys[0]; // Currently processing single file
-
-      const modelRes = await fetch("/api/run-model", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ filename: firstKey }),
-      });
-
-      if (!modelRes.ok) throw new Error("Model pipeline execution failed");
-      const modelData = await modelRes.json();
-
-      // Step 3: Process Data for AI Analysis
-      const events = modelData.events || [];
-      const shotTypes = [
-        "Smash",
-        "Jump Smash",
-        "Block",
-        "Drop",
-        "Clear",
-        "Lift",
-        "Drive",
-        "Straight Net",
-        "Cross Net",
-        "Serve",
-        "Push",
-        "Tap",
-      ];
-
-      // Generate Stats Table locally for AI context
-      const uniqueIds = Array.from(new Set(events.map((e: any) => e.track_id)));
-      const normalizeLabel = (label: string) =>
-        label.toLowerCase().replace(/_/g, " ").trim();
-
-      const playerStats: { [key: string]: number[] } = {};
-      shotTypes.forEach(
-        (type) => (playerStats[type] = Array(uniqueIds.length).fill(0)),
-      );
-
-      events.forEach((e: any) => {
-        const key = shotTypes.find(
-          (t) => normalizeLabel(t) === normalizeLabel(e.label),
-        );
-        const idx = uniqueIds.indexOf(e.track_id);
-        if (key && idx !== -1) playerStats[key][idx] += 1;
-      });
-
-      const summaryTable = shotTypes.map((shot) => ({
-        shot,
-        ...Object.fromEntries(
-          uniqueIds.map((id, idx) => [
-            `player${id}`,
-            playerStats[shot][idx] || 0,
-          ]),
-        ),
-      }));
-
-      // Step 4: Get Generative AI Insights
-      setStatusMessage("Generating AI tactical analysis...");
-      const aiRes = await fetch("/api/analyze-table", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ summaryTable }),
-      });
-
-      if (!aiRes.ok) throw new Error("AI analysis service failed");
-      const aiData = await aiRes.json();
-
-      // Step 5: Finalize & Redirect
-      const finalResult = {
-        ...modelData,
-        aiSummary: aiData.aiSummary,
-        aiVerified: aiData.aiVerified,
-      };
-
-      localStorage.setItem("modelResult", JSON.stringify(finalResult));
-      setStatusMessage("Done! Redirecting...");
-      navigate(`/main`);
-    } catch (err: any) {
-      console.error("Pipeline Error:", err);
-      setStatusMessage(`Error: ${err.message}`);
-      setUploading(false);
-      setIsProcessing(false);
-    }
+    enqueue(uploadedFiles);
+    setUploadedFiles([]);
   };
 
   return (
@@ -206,20 +91,27 @@ export default function HomePage(): JSX.Element {
               to="/"
               className="text-lg font-medium text-purple-100 hover:text-white transition-colors"
             >
-              Home
+              {t("nav.home")}
             </Link>
             <Link
               to="/about"
               className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
             >
-              About
+              {t("nav.about")}
             </Link>
             <Link
               to="/main"
               className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
             >
-              Main
+              {t("nav.main")}
             </Link>
+            <Link
+              to="/library"
+              className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
+            >
+              {t("nav.library")}
+            </Link>
+            <LanguageSwitcher />
           </div>
         </nav>
       </header>
@@ -235,14 +127,14 @@ export default function HomePage(): JSX.Element {
           playsInline
         >
           <source src="/tutorial_fixed.mp4" type="video/mp4" />
-          Your browser does not support the video tag.
+          {t("home.videoUnsupported")}
         </video>
       </main>
 
       {/* File Upload Area */}
       <section className="flex flex-col items-center py-10 bg-gray-200 flex-grow">
         <h2 className="text-3xl sm:text-4xl font-semibold mb-6 text-center text-black">
-          Upload Your Videos
+          {t("home.uploadTitle")}
         </h2>
 
         <div
@@ -251,9 +143,7 @@ export default function HomePage(): JSX.Element {
           className="w-full max-w-2xl border-4 border-dashed border-blue-400 bg-white rounded-lg p-8 text-center text-gray-600 cursor-pointer hover:border-blue-500 hover:bg-blue-50 transition-colors"
           onClick={() => document.getElementById("fileInput")?.click()}
         >
-          <p className="mb-2 text-lg">
-            Drag & Drop your MP4 files here or click to select
-          </p>
+          <p className="mb-2 text-lg">{t("home.dropPrompt")}</p>
           <input
             id="fileInput"
             type="file"
@@ -264,11 +154,23 @@ export default function HomePage(): JSX.Element {
           />
         </div>
 
+        {interruptedUploads.length > 0 && (
+          <div className="mt-4 w-full max-w-2xl px-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            <p className="font-medium">{t("home.unfinishedUploads")}</p>
+            <ul className="list-disc list-inside">
+              {interruptedUploads.map((session) => (
+                <li key={session.uploadUrl}>{session.fileName}</li>
+              ))}
+            </ul>
+            <p className="mt-1">{t("home.resumeHint")}</p>
+          </div>
+        )}
+
         {/* File List & Controls */}
         {uploadedFiles.length > 0 && (
           <div className="mt-6 w-full max-w-2xl px-4">
             <h3 className="text-xl font-semibold mb-2 text-black">
-              Selected Files:
+              {t("home.selectedFiles")}
             </h3>
             <ul className="bg-white rounded-lg shadow p-4 space-y-2">
               {uploadedFiles.map((file, idx) => (
@@ -278,7 +180,9 @@ export default function HomePage(): JSX.Element {
                 >
                   <span className="truncate max-w-[80%]">{file.name}</span>
                   <span className="text-sm text-gray-500">
-                    {(file.size / (1024 * 1024)).toFixed(1)} MB
+                    {t("home.fileSize", {
+                      size: (file.size / (1024 * 1024)).toFixed(1),
+                    })}
                   </span>
                 </li>
               ))}
@@ -287,49 +191,39 @@ export default function HomePage(): JSX.Element {
             <div className="mt-6 flex flex-col items-center w-full">
               <div className="flex gap-4">
                 <button
-                  onClick={uploadToGC}
-                  disabled={uploading}
-                  className={`px-8 py-3 rounded-lg text-white font-medium shadow-lg transition-transform transform active:scale-95 ${
-                    uploading
-                      ? "bg-gray-400 cursor-not-allowed"
-                      : "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                  }`}
+                  onClick={startAnalysis}
+                  className="px-8 py-3 rounded-lg text-white font-medium shadow-lg transition-transform transform active:scale-95 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
                 >
-                  {uploading ? "Uploading..." : "Start Analysis"}
+                  {uploadedFiles.length > 1
+                    ? t("home.startAnalysisCount", {
+                        count: uploadedFiles.length,
+                      })
+                    : t("home.startAnalysis")}
                 </button>
 
                 <button
                   onClick={() => setUploadedFiles([])}
-                  disabled={uploading}
                   className="px-6 py-3 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
                 >
-                  Clear
+                  {t("home.clear")}
                 </button>
               </div>
-
-              {/* Progress Bar */}
-              {uploading && (
-                <div className="w-full mt-6">
-                  <div className="bg-gray-300 h-4 rounded-full overflow-hidden shadow-inner">
-                    <div
-                      className="bg-blue-600 h-4 rounded-full transition-all duration-300 ease-out"
-                      style={{ width: `${uploadProgress}%` }}
-                    />
-                  </div>
-                  <p className="text-center text-gray-700 mt-2 font-medium">
-                    {statusMessage}
-                  </p>
-                </div>
-              )}
             </div>
           </div>
         )}
-      </section>
 
-      {/* Processing Overlay */}
-      {isProcessing && (
-        <div className="fixed inset-0 bg-slate-900 bg-opacity-90 backdrop-blur-sm flex flex-col items-center justify-center z-50 transition-opacity duration-300">
-          <div className="relative w-[800px] max-w-[90%] aspect-video rounded-2xl overflow-hidden shadow-2xl border border-white/20">
+        {/* Per-file Pipeline Status */}
+        {jobs.length > 0 && (
+          <JobQueueList
+            jobs={jobs}
+            onRetry={retry}
+            onPause={pause}
+            onResume={resume}
+            onClearFinished={clearFinished}
+          />
+        )}
+        {isBusy && (
+          <div className="mt-6 relative w-[480px] max-w-[90%] aspect-video rounded-2xl overflow-hidden shadow-2xl">
             <video
               src="/loading_video.mp4"
               autoPlay
@@ -337,17 +231,26 @@ export default function HomePage(): JSX.Element {
               muted
               className="w-full h-full object-cover"
             />
-            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6 text-center">
-              <p className="text-white text-xl font-semibold tracking-wide animate-pulse">
-                Analysing Match Footage...
+            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 text-center">
+              <p className="text-white text-lg font-semibold tracking-wide animate-pulse">
+                {t("home.analysing")}
               </p>
               <p className="text-gray-300 text-sm mt-1">
-                This may take a few minutes depending on video length.
+                {t("home.analysingHint")}
               </p>
             </div>
           </div>
+        )}
+
+        {/* Import a previously exported analysis */}
+        <div className="mt-10 w-full flex flex-col items-center px-4">
+          <h3 className="text-xl font-semibold mb-3 text-black">
+            {t("home.alreadyAnalysed")}
+          </h3>
+          <ImportAnalysisDropZone />
         </div>
-      )}
+      </section>
+
     </div>
   );
 }
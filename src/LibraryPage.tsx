@@ -0,0 +1,211 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { listMatches, renameMatch, deleteMatch } from "./utils/matchLibrary";
+import ImportAnalysisDropZone from "./components/ImportAnalysisDropZone";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import { useI18n } from "./hooks/useI18n";
+import type { MatchRecord } from "./types";
+
+/**
+ * LibraryPage Component
+ * * Lists every analysis stored in the browser's match library.
+ * * Features: Reopen a match on the dashboard, rename and delete entries.
+ */
+export default function LibraryPage(): JSX.Element {
+  // --- State Management ---
+  const [matches, setMatches] = useState<MatchRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const { t } = useI18n();
+
+  // Load library contents on mount
+  useEffect(() => {
+    listMatches()
+      .then(setMatches)
+      .catch((err) => {
+        console.error("Failed to read match library", err);
+        setError("Failed to open the match library.");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // --- Action Handlers ---
+
+  const startRename = (match: MatchRecord) => {
+    setEditingId(match.id);
+    setDraftTitle(match.title);
+  };
+
+  const handleRename = async (id: string) => {
+    try {
+      const updated = await renameMatch(id, draftTitle);
+      setMatches((prev) => prev.map((m) => (m.id === id ? updated : m)));
+      setEditingId(null);
+    } catch (err: any) {
+      setError(`Rename failed: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (match: MatchRecord) => {
+    if (!window.confirm(`Delete "${match.title}" from the library?`)) return;
+    try {
+      await deleteMatch(match.id);
+      setMatches((prev) => prev.filter((m) => m.id !== match.id));
+    } catch (err: any) {
+      setError(`Delete failed: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-100">
+      {/* Header Navigation */}
+      <header className="bg-gradient-to-r from-slate-900 via-purple-900 to-slate-900 text-white">
+        <nav className="max-w-6xl mx-auto px-6 py-6 flex justify-center items-center space-x-12">
+          <Link
+            to="/"
+            className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
+          >
+            {t("nav.home")}
+          </Link>
+          <Link
+            to="/about"
+            className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
+          >
+            {t("nav.about")}
+          </Link>
+          <Link
+            to="/main"
+            className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
+          >
+            {t("nav.main")}
+          </Link>
+          <Link
+            to="/library"
+            className="text-lg font-medium text-purple-100 hover:text-white transition-colors"
+          >
+            {t("nav.library")}
+          </Link>
+          <LanguageSwitcher />
+        </nav>
+      </header>
+
+      <main className="flex-grow flex flex-col items-center p-6 bg-gray-100">
+        <div className="w-full max-w-5xl bg-white shadow-lg rounded-xl p-6 text-black">
+          <h2 className="font-semibold text-2xl text-center mb-4">
+            Match Library
+          </h2>
+
+          <div className="flex justify-center mb-6">
+            <ImportAnalysisDropZone />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 mb-4 text-center">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-center text-gray-500">Loading matches...</p>
+          ) : matches.length === 0 ? (
+            <p className="text-center text-gray-500 italic">
+              No analyses saved yet.{" "}
+              <Link to="/" className="text-purple-700 underline">
+                Upload a match
+              </Link>{" "}
+              to get started.
+            </p>
+          ) : (
+            <table className="w-full border border-gray-200 text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="border px-3 py-2 text-left">Title</th>
+                  <th className="border px-3 py-2 text-left">Source File</th>
+                  <th className="border px-3 py-2 text-left">Uploaded</th>
+                  <th className="border px-3 py-2">Events</th>
+                  <th className="border px-3 py-2">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {matches.map((match, idx) => (
+                  <tr
+                    key={match.id}
+                    className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                  >
+                    <td className="border px-3 py-2 font-medium">
+                      {editingId === match.id ? (
+                        <input
+                          autoFocus
+                          value={draftTitle}
+                          onChange={(e) => setDraftTitle(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleRename(match.id);
+                            if (e.key === "Escape") setEditingId(null);
+                          }}
+                          className="w-full border rounded p-1"
+                        />
+                      ) : (
+                        <Link
+                          to={`/main/${match.id}`}
+                          className="text-purple-700 hover:text-purple-900 underline"
+                        >
+                          {match.title}
+                        </Link>
+                      )}
+                    </td>
+                    <td className="border px-3 py-2 text-gray-600 break-all">
+                      {match.sourceFilename}
+                    </td>
+                    <td className="border px-3 py-2 text-gray-600">
+                      {new Date(match.uploadedAt).toLocaleString()}
+                    </td>
+                    <td className="border px-3 py-2 text-center">
+                      {match.result.events?.length ?? 0}
+                    </td>
+                    <td className="border px-3 py-2">
+                      <div className="flex justify-center gap-2">
+                        {editingId === match.id ? (
+                          <>
+                            <button
+                              className="bg-purple-500 text-white px-3 py-1 rounded hover:bg-purple-600 transition"
+                              onClick={() => handleRename(match.id)}
+                            >
+                              Save
+                            </button>
+                            <button
+                              className="bg-gray-400 text-white px-3 py-1 rounded hover:bg-gray-500 transition"
+                              onClick={() => setEditingId(null)}
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              className="bg-purple-500 text-white px-3 py-1 rounded hover:bg-purple-600 transition"
+                              onClick={() => startRename(match)}
+                            >
+                              Rename
+                            </button>
+                            <button
+                              className="bg-red-500 text-white px-3 py-1 rounded hover:bg-red-600 transition"
+                              onClick={() => handleDelete(match)}
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef, useMemo } from "react";
-import { Link } from "react-router-dom";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import {
   BarChart,
   Bar,
@@ -11,34 +11,168 @@ import {
 
 // Shared Utils & Types
 import { generateMatchReport } from "./utils/pdfGenerator";
-import { ModelResult, PlayerStats } from "./types";
-import { DEFAULT_FPS, SHOT_TYPES, CHART_COLORS } from "./constants";
+import { getMatch, listMatches, updateMatch } from "./utils/matchLibrary";
+import { downloadAnalysisBundle } from "./utils/analysisBundle";
+import {
+  loadModelResult,
+  toSeconds as eventTimeToSeconds,
+  fromSeconds as secondsToEventTime,
+  ModelResultValidationError,
+} from "./utils/modelResult";
+import {
+  segmentRallies,
+  rallyLengthDistribution,
+  rallyBucketLabel,
+} from "./utils/rallies";
+import { computeTransitions, topTransitions } from "./utils/transitions";
+import {
+  findShotType,
+  localizedShotName,
+  unknownLabels,
+} from "./utils/shots";
+import {
+  computePlayerStats,
+  computeCategoryStats,
+  statShotTypes,
+} from "./utils/stats";
+import type { ReelShot } from "./utils/highlights";
+import {
+  CSV_TYPE,
+  downloadFile,
+  toCSV,
+  shotCues,
+  toWebVTT,
+  toSRT,
+  toXLSX,
+} from "./utils/exports";
+import type { Cell } from "./utils/exports";
+import { isConfident, reviewQueue, formatScore } from "./utils/confidence";
+import {
+  analyseMatch,
+  getAnalysisMode,
+  setAnalysisMode,
+} from "./utils/aiAnalysis";
+import { askCoach } from "./utils/coachChat";
+import { fetchSharedMatch } from "./utils/shareLinks";
+import { getLocale, translate } from "./utils/i18n";
+import { overlayVideoUri, resolveVideoUrl } from "./utils/videoUrl";
+import {
+  EMPTY_ROSTER,
+  applyRoster,
+  playerName,
+  resolvePlayerId,
+} from "./utils/roster";
+import { useUndoable } from "./hooks/useUndoable";
+import { useVideoReview } from "./hooks/useVideoReview";
+import { useI18n } from "./hooks/useI18n";
+import type { ReviewShot } from "./hooks/useVideoReview";
+import RallyPanel from "./components/RallyPanel";
+import EventEditor from "./components/EventEditor";
+import PlayerRosterEditor from "./components/PlayerRosterEditor";
+import TransitionHeatmap from "./components/TransitionHeatmap";
+import CategoryBreakdown from "./components/CategoryBreakdown";
+import AIAnalysisPanel from "./components/AIAnalysisPanel";
+import ProMatchRecommendations from "./components/ProMatchRecommendations";
+import CoachChat from "./components/CoachChat";
+import ReportBuilderDialog from "./components/ReportBuilderDialog";
+import ShareDialog from "./components/ShareDialog";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import ReviewToolbar from "./components/ReviewToolbar";
+import MatchTimeline from "./components/MatchTimeline";
+import HighlightReel from "./components/HighlightReel";
+import ConfidenceReviewQueue from "./components/ConfidenceReviewQueue";
+import type { ReviewQueueEntry } from "./components/ConfidenceReviewQueue";
+import type {
+  AnalysisSource,
+  BadmintonEvent,
+  ChatMessage,
+  MatchRecord,
+  ModelResult,
+  PlayerRoster,
+  PlayerStats,
+  Rally,
+  ReportConfig,
+  TimeRange,
+} from "./types";
+import {
+  SHOT_TYPES,
+  CHART_COLORS,
+  DEFAULT_FPS,
+  DEFAULT_SHOT_SECONDS,
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  SHOT_CATEGORIES,
+  OTHER_SHOT_TYPE,
+} from "./constant";
+
+interface MainPageProps {
+  readOnly?: boolean;
+}
+
+// Pipeline events tagged with their index, minus invalid/negative detections
+const pipelineEvents = (result: ModelResult): BadmintonEvent[] =>
+  result.events
+    .map((e, i) => ({ ...e, sourceIndex: i }))
+    .filter((e) => e.label.toLowerCase() !== "negative");
 
 /**
  * MainPage Component
  * * Displays the analyzed match results dashboard.
  * * Features: Video playback, event logs, statistical charts, and AI insights.
+ * * With `readOnly` (share links) it shows a shared match without editing,
+ * * re-analysis or the match library.
  */
-export default function MainPage(): JSX.Element {
+export default function MainPage({
+  readOnly = false,
+}: MainPageProps): JSX.Element {
+  const { matchId, shareId } = useParams<{
+    matchId: string;
+    shareId: string;
+  }>();
+  const navigate = useNavigate();
+  const { locale, t } = useI18n();
+
   // --- State Management ---
+  const [match, setMatch] = useState<MatchRecord | null>(null);
+  const [libraryMatches, setLibraryMatches] = useState<MatchRecord[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadWarnings, setLoadWarnings] = useState<string[]>([]);
   const [selectedVideo, setSelectedVideo] = useState<string | null>(null);
   const [modelResult, setModelResult] = useState<ModelResult | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [currentEventIndex, setCurrentEventIndex] = useState(0);
   const [logFilter, setLogFilter] = useState<string>("All");
+  const [playerFilter, setPlayerFilter] = useState<number | "All">("All");
+  const [activeRally, setActiveRally] = useState<Rally | null>(null);
+  const [editMode, setEditMode] = useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [roster, setRoster] = useState<PlayerRoster>(EMPTY_ROSTER);
+  const [refreshingAI, setRefreshingAI] = useState(false);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [askingCoach, setAskingCoach] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [reportBuilderOpen, setReportBuilderOpen] = useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const [shareExpiresAt, setShareExpiresAt] = useState<string | null>(null);
+  const [analysisMode, setAnalysisModeState] =
+    useState<AnalysisSource>(getAnalysisMode);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(
+    DEFAULT_CONFIDENCE_THRESHOLD,
+  );
+
+  // Corrected event list with undo/redo; modelResult.events stays untouched
+  const corrections = useUndoable<BadmintonEvent[]>([]);
+  const events = corrections.value;
+  const { reset: resetCorrections } = corrections;
 
   // Refs for PDF Generation & Scrolling
   const logContainerRef = useRef<HTMLDivElement>(null);
-  const barChartRef = useRef<HTMLDivElement>(null);
 
   // --- Helpers ---
-  const normalizeLabel = (label: string) =>
-    label.toLowerCase().replace(/_/g, " ").trim();
-
   const formatLabel = (label: string) => {
-    const match = SHOT_TYPES.find(
-      (s) => normalizeLabel(s) === normalizeLabel(label),
-    );
+    const match = findShotType(label);
     return (
       match ||
       label
@@ -48,85 +182,217 @@ export default function MainPage(): JSX.Element {
     );
   };
 
+  // Shot name as shown on screen; exports keep the English names
+  const shotLabel = (label: string) =>
+    localizedShotName(formatLabel(label), locale);
+
   /**
    * Data Persistence
-   * Loads the analysis result from localStorage to persist state across refreshes.
+   * Loads the analysis from the IndexedDB match library, or from the server
+   * for a share link. `/main` without an id reopens the most recent match.
    */
   useEffect(() => {
-    const stored = localStorage.getItem("modelResult");
-    if (stored) {
+    let cancelled = false;
+
+    // A shared match is shown like a library record that is never saved
+    const loadShared = async (id: string): Promise<MatchRecord> => {
+      const shared = await fetchSharedMatch(id);
+      setShareExpiresAt(shared.expiresAt);
+      return {
+        id: `share-${shared.shareId}`,
+        title: shared.title || shared.sourceFilename,
+        uploadedAt: shared.uploadedAt,
+        sourceFilename: shared.sourceFilename,
+        result: shared.result,
+        correctedEvents: shared.correctedEvents,
+        roster: shared.roster,
+        confidenceThreshold: shared.confidenceThreshold,
+        chat: shared.chat,
+      };
+    };
+
+    const load = async () => {
       try {
-        const parsed: ModelResult = JSON.parse(stored);
+        const record = shareId
+          ? await loadShared(shareId)
+          : matchId
+            ? await getMatch(matchId)
+            : ((await listMatches())[0] ?? null);
+        if (cancelled) return;
 
-        // Filter out invalid/negative detections
-        if (parsed?.events) {
-          parsed.events = parsed.events.filter(
-            (e) => e.label?.toLowerCase() !== "negative",
+        if (!record) {
+          setMatch(null);
+          setModelResult(null);
+          setSelectedVideo(null);
+          setLoadError(
+            matchId ? translate(getLocale(), "main.notFound") : null,
           );
+          return;
+        }
+        if (!matchId && !shareId) {
+          navigate(`/main/${record.id}`, { replace: true });
+          return;
         }
+
+        // Validate and migrate stored results to the current schema
+        const { result: parsed, warnings } = loadModelResult(record.result);
+
+        setMatch(record);
         setModelResult(parsed);
+        resetCorrections(record.correctedEvents ?? pipelineEvents(parsed));
+        setRoster(record.roster ?? EMPTY_ROSTER);
+        setChat(record.chat ?? []);
+        setChatError(null);
+        setConfidenceThreshold(
+          record.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD,
+        );
+        setEditingIndex(null);
+        setTimeRange(null);
+        setPlayerFilter("All");
+        setLoadWarnings(warnings);
+        setLoadError(null);
 
-        // Resolve Google Cloud Storage URI to public URL if needed
-        const gcsUri =
-          parsed?.outputs?.overlay_mp4?.gcs_uri ||
-          parsed?.outputs?.overlay_video;
-        if (gcsUri) {
-          setSelectedVideo(
-            gcsUri.replace("gs://", "https://storage.googleapis.com/"),
-          );
+        // Resolve the stored video (GCS or local disk) to a playable URL.
+        // The dashboard still works without it.
+        setSelectedVideo(null);
+        const videoUri = overlayVideoUri(parsed);
+        if (videoUri) {
+          try {
+            const url = await resolveVideoUrl(videoUri);
+            if (!cancelled) setSelectedVideo(url);
+          } catch (err: any) {
+            if (!cancelled) setLoadWarnings([...warnings, err.message]);
+          }
         }
       } catch (error) {
-        console.error("Failed to parse model result from storage", error);
+        if (cancelled) return;
+        setModelResult(null);
+        setSelectedVideo(null);
+        setLoadError(
+          error instanceof ModelResultValidationError || shareId
+            ? (error as Error).message
+            : translate(getLocale(), "main.libraryFailed"),
+        );
       }
-    }
-  }, []);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [matchId, shareId, navigate, resetCorrections]);
+
+  // Other matches in the library, for the match switcher
+  useEffect(() => {
+    if (readOnly) return;
+    listMatches()
+      .then(setLibraryMatches)
+      .catch(() => setLibraryMatches([]));
+  }, [matchId, readOnly]);
 
   // --- Derived State (Memoized for Performance) ---
 
-  const timeUnit = useMemo(() => {
-    if (!modelResult?.events?.length) return "frames";
-    // Heuristic: if timestamps are large integers, they are likely frames
-    const avg =
-      modelResult.events.slice(0, 5).reduce((acc, e) => acc + (e.t0 || 0), 0) /
-      5;
-    return avg > 100 ? "frames" : "seconds";
-  }, [modelResult]);
-
-  const playerIds = useMemo(() => {
-    if (!modelResult?.events) return [];
-    return Array.from(
-      new Set(modelResult.events.map((e) => e.track_id)),
-    ).sort();
-  }, [modelResult]);
+  // Converts a raw t0/t1 value into seconds using the declared time base
+  const toSeconds = useCallback(
+    (t: number) => (modelResult ? eventTimeToSeconds(t, modelResult) : t),
+    [modelResult],
+  );
+
+  // Raw tracker IDs, as edited in the roster
+  const trackIds = useMemo(
+    () =>
+      Array.from(new Set(events.map((e) => e.track_id))).sort((a, b) => a - b),
+    [events],
+  );
+
+  const trackCounts = useMemo(() => {
+    const counts: Record<number, number> = {};
+    events.forEach((e) => (counts[e.track_id] = (counts[e.track_id] ?? 0) + 1));
+    return counts;
+  }, [events]);
+
+  // Events counted in the stats, with merged tracks collapsed onto their
+  // canonical player id. Low-confidence detections wait in the review queue.
+  const playerEvents = useMemo(
+    () =>
+      applyRoster(
+        events.filter((e) => isConfident(e, confidenceThreshold)),
+        roster,
+      ),
+    [events, roster, confidenceThreshold],
+  );
+
+  const playerIds = useMemo(
+    () =>
+      Array.from(new Set(playerEvents.map((e) => e.track_id))).sort(
+        (a, b) => a - b,
+      ),
+    [playerEvents],
+  );
+
+  const nameOf = useCallback(
+    (playerId: number) => playerName(roster, playerId),
+    [roster],
+  );
+
+  // Display name for a raw track_id
+  const trackName = (trackId: number) =>
+    nameOf(resolvePlayerId(roster, trackId));
+
+  // Differences between the corrected list and the pipeline output
+  const correctionSummary = useMemo(() => {
+    const kept = new Set(events.map((e) => e.sourceIndex));
+    const detected = modelResult ? pipelineEvents(modelResult) : [];
+    const deleted = detected.filter((e) => !kept.has(e.sourceIndex)).length;
+    const edited = events.filter(
+      (e) => e.corrected && e.sourceIndex !== undefined,
+    ).length;
+    const inserted = events.filter((e) => e.sourceIndex === undefined).length;
+    return {
+      edited,
+      inserted,
+      deleted,
+      detected: detected.length,
+      total: edited + inserted + deleted,
+    };
+  }, [events, modelResult]);
+
+  // Whether a raw event falls in the range selected on the timeline
+  const inTimeRange = useCallback(
+    (e: BadmintonEvent) => {
+      if (!timeRange) return true;
+      const t = toSeconds(e.t0);
+      return t >= timeRange.start && t <= timeRange.end;
+    },
+    [timeRange, toSeconds],
+  );
+
+  // Events the log, charts and CSVs are showing
+  const rangeEvents = useMemo(
+    () => playerEvents.filter(inTimeRange),
+    [playerEvents, inTimeRange],
+  );
 
   /**
    * Calculates shot counts per player for charts and tables.
    * Returns object: { "Smash": [player1Count, player2Count], ... }
    */
-  const playerStats: PlayerStats = useMemo(() => {
-    if (!modelResult?.events || playerIds.length === 0) return {};
-
-    const stats: PlayerStats = {};
-    SHOT_TYPES.forEach(
-      (type) => (stats[type] = Array(playerIds.length).fill(0)),
-    );
+  const playerStats: PlayerStats = useMemo(
+    () => computePlayerStats(rangeEvents, playerIds),
+    [rangeEvents, playerIds],
+  );
 
-    modelResult.events.forEach((e) => {
-      const key = SHOT_TYPES.find(
-        (t) => normalizeLabel(t) === normalizeLabel(e.label),
-      );
-      const playerIdx = playerIds.indexOf(e.track_id);
+  const categoryStats = useMemo(
+    () => computeCategoryStats(rangeEvents, playerIds),
+    [rangeEvents, playerIds],
+  );
 
-      if (key && playerIdx !== -1) {
-        stats[key][playerIdx] += 1;
-      }
-    });
-    return stats;
-  }, [modelResult, playerIds]);
+  // Labels outside the taxonomy, counted under "Other"
+  const otherLabels = useMemo(() => unknownLabels(events), [events]);
 
   const chartData = useMemo(() => {
     // Transform playerStats into Recharts-friendly format
-    return SHOT_TYPES.map((shot) => {
+    return statShotTypes(playerStats).map((shot) => {
       // Only return if at least one player has data for this shot (optional optimization)
       return {
         shot,
@@ -135,6 +401,145 @@ export default function MainPage(): JSX.Element {
     });
   }, [playerStats, playerIds]);
 
+  // Rallies are segmented on the whole match, then limited to the range
+  const rallies = useMemo(
+    () =>
+      segmentRallies(playerEvents, toSeconds).filter(
+        (r) =>
+          !timeRange || (r.end >= timeRange.start && r.start <= timeRange.end),
+      ),
+    [playerEvents, toSeconds, timeRange],
+  );
+
+  const transitions = useMemo(
+    () => computeTransitions(rallies, playerIds),
+    [rallies, playerIds],
+  );
+
+  const rallyDistribution = useMemo(
+    () => rallyLengthDistribution(rallies),
+    [rallies],
+  );
+
+  // Shot labels shown as subtitles on the dashboard video
+  const subtitleTrackUrl = useMemo(() => {
+    if (!modelResult || playerEvents.length === 0) return null;
+    const vtt = toWebVTT(
+      shotCues(playerEvents, modelResult, nameOf, (shot) =>
+        localizedShotName(shot, locale),
+      ),
+    );
+    return URL.createObjectURL(new Blob([vtt], { type: "text/vtt" }));
+  }, [playerEvents, modelResult, nameOf, locale]);
+
+  useEffect(
+    () => () => {
+      if (subtitleTrackUrl) URL.revokeObjectURL(subtitleTrackUrl);
+    },
+    [subtitleTrackUrl],
+  );
+
+  // Low-confidence detections awaiting review, least confident first
+  const reviewEntries = useMemo<ReviewQueueEntry[]>(
+    () =>
+      reviewQueue(events, confidenceThreshold).map(({ event, index }) => ({
+        index,
+        time: toSeconds(event.t0),
+        label: localizedShotName(
+          findShotType(event.label) ?? event.label,
+          locale,
+        ),
+        player: nameOf(resolvePlayerId(roster, event.track_id)),
+        score: event.score,
+      })),
+    [events, confidenceThreshold, toSeconds, nameOf, roster, locale],
+  );
+
+  const scoredCount = useMemo(
+    () => events.filter((e) => e.score !== undefined).length,
+    [events],
+  );
+
+  // Timeline length: the video's, or the last event's if it hasn't loaded
+  const timelineDuration = useMemo(
+    () =>
+      videoDuration ||
+      Math.max(
+        1,
+        ...events.map((e) => toSeconds(e.t1 ?? e.t0) + DEFAULT_SHOT_SECONDS),
+      ),
+    [videoDuration, events, toSeconds],
+  );
+
+  // Whether a raw event passes the log's range, shot and player filters
+  const inLogFilter = useCallback(
+    (e: BadmintonEvent) =>
+      inTimeRange(e) &&
+      (logFilter === "All" ||
+        (findShotType(e.label) ?? OTHER_SHOT_TYPE) === logFilter) &&
+      (playerFilter === "All" ||
+        resolvePlayerId(roster, e.track_id) === playerFilter),
+    [inTimeRange, logFilter, playerFilter, roster],
+  );
+
+  // Start/end of events[eventIndex] in seconds.
+  // Without a t1, a shot lasts until the next one.
+  const shotSpan = useCallback(
+    (eventIndex: number) => {
+      const e = events[eventIndex];
+      const next = events[eventIndex + 1];
+      const start = toSeconds(e.t0);
+      const end =
+        e.t1 !== undefined
+          ? toSeconds(e.t1)
+          : next
+            ? toSeconds(next.t0)
+            : start + DEFAULT_SHOT_SECONDS;
+      return { start, end: end > start ? end : start + DEFAULT_SHOT_SECONDS };
+    },
+    [events, toSeconds],
+  );
+
+  // Shots reachable in review mode: the ones the log shows
+  const reviewShots = useMemo<ReviewShot[]>(
+    () =>
+      events.flatMap((e, eventIndex) =>
+        inLogFilter(e) ? [{ eventIndex, ...shotSpan(eventIndex) }] : [],
+      ),
+    [events, inLogFilter, shotSpan],
+  );
+
+  // Shots the highlight reel would add: the ones the log shows
+  const reelCandidates = useMemo<ReelShot[]>(
+    () =>
+      events.flatMap((e, eventIndex) => {
+        if (!inLogFilter(e)) return [];
+        const { start, end } = shotSpan(eventIndex);
+        return [
+          {
+            id: `${e.sourceIndex ?? "added"}:${e.track_id}:${e.t0}:${e.label}`,
+            label: findShotType(e.label) ?? e.label,
+            playerName: nameOf(resolvePlayerId(roster, e.track_id)),
+            t0: start,
+            t1: end,
+          },
+        ];
+      }),
+    [events, inLogFilter, shotSpan, nameOf, roster],
+  );
+
+  const selectReviewShot = useCallback(
+    (shot: ReviewShot) => setCurrentEventIndex(shot.eventIndex),
+    [],
+  );
+
+  const review = useVideoReview({
+    enabled: reviewMode && !!selectedVideo,
+    fps: modelResult?.fps ?? DEFAULT_FPS,
+    shots: reviewShots,
+    onShotSelected: selectReviewShot,
+  });
+
   // --- Event Listeners & Effects ---
 
   // Sync Video Time
@@ -142,19 +547,64 @@ export default function MainPage(): JSX.Element {
     const vid = document.getElementById("video-player") as HTMLVideoElement;
     if (!vid) return;
     const updateTime = () => setCurrentTime(vid.currentTime);
+    const updateDuration = () => setVideoDuration(vid.duration || 0);
     vid.addEventListener("timeupdate", updateTime);
-    return () => vid.removeEventListener("timeupdate", updateTime);
+    vid.addEventListener("loadedmetadata", updateDuration);
+    return () => {
+      vid.removeEventListener("timeupdate", updateTime);
+      vid.removeEventListener("loadedmetadata", updateDuration);
+    };
   }, [selectedVideo]);
 
+  // Stop playback at the end of the rally being played
+  useEffect(() => {
+    if (!activeRally || currentTime < activeRally.end) return;
+    const vid = document.getElementById("video-player") as HTMLVideoElement;
+    vid?.pause();
+    setActiveRally(null);
+  }, [currentTime, activeRally]);
+
+  // Persist manual corrections with the match
+  const { canUndo, canRedo, undo, redo } = corrections;
+  useEffect(() => {
+    if (!match || !(canUndo || canRedo)) return;
+    updateMatch(match.id, { correctedEvents: events }).catch((err) =>
+      setLoadError(
+        translate(getLocale(), "main.saveCorrectionsFailed", {
+          error: err.message,
+        }),
+      ),
+    );
+  }, [events, match, canUndo, canRedo]);
+
+  // Undo / Redo shortcuts (ignored while typing in a form field)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === "y" || (key === "z" && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [undo, redo]);
+
   // Sync Current Event Log Highlight
   useEffect(() => {
-    if (!modelResult?.events) return;
-    const idx = modelResult.events
-      .map((e) => (timeUnit === "frames" ? e.t0 / DEFAULT_FPS : e.t0))
+    const idx = events
+      .map((e) => toSeconds(e.t0))
       .reduce((acc, t, i) => (t <= currentTime ? i : acc), -1);
 
     setCurrentEventIndex(idx === -1 ? 0 : idx);
-  }, [currentTime, modelResult, timeUnit]);
+  }, [currentTime, events, toSeconds]);
 
   // Auto-scroll Logs
   useEffect(() => {
@@ -176,98 +626,464 @@ export default function MainPage(): JSX.Element {
 
   // --- Action Handlers ---
 
-  const handleDownloadCSV = () => {
-    if (!modelResult?.events) return;
+  // The counts depend on the threshold, so it goes in the workbook's Match
+  // sheet and in CSV filenames (row 1 of a CSV stays the header)
+  const thresholdRow = [
+    "Confidence threshold",
+    confidenceThreshold.toFixed(2),
+  ];
+  const csvFilename = (name: string) =>
+    `${name}_threshold-${confidenceThreshold.toFixed(2)}.csv`;
+
+  const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+  const eventRows = (): Cell[][] => [
+    [
+      "Time (s)",
+      "End (s)",
+      "Shot Type",
+      "Player",
+      "Player ID",
+      "Track ID",
+      "Score",
+      "Below Threshold",
+      "Corrected",
+    ],
+    ...events.filter(inLogFilter).map((e) => [
+      round(toSeconds(e.t0)),
+      e.t1 !== undefined ? round(toSeconds(e.t1)) : "",
+      formatLabel(e.label),
+      trackName(e.track_id),
+      resolvePlayerId(roster, e.track_id),
+      e.track_id,
+      e.score !== undefined ? round(e.score, 3) : "",
+      isConfident(e, confidenceThreshold) ? "No" : "Yes",
+      e.corrected ? "Yes" : "No",
+    ]),
+  ];
+
+  const summaryRows = (): Cell[][] => [
+    ["Shot Type", ...playerIds.map(nameOf)],
+    ...statShotTypes(playerStats).map((shot) => [
+      shot,
+      ...playerIds.map((_, idx) => playerStats[shot]?.[idx] || 0),
+    ]),
+    [],
+    ["Category", ...playerIds.map(nameOf)],
+    ...SHOT_CATEGORIES.map((category) => [
+      category,
+      ...categoryStats.counts[category],
+    ]),
+    [
+      "Attack Ratio (%)",
+      ...categoryStats.attackRatio.map((r) => round(r * 100, 1)),
+    ],
+  ];
 
-    const filteredEvents = modelResult.events.filter(
-      (e) =>
-        logFilter === "All" ||
-        normalizeLabel(e.label) === normalizeLabel(logFilter),
+  const rallyRows = (): Cell[][] => [
+    ["Rally", "Start (s)", "End (s)", "Duration (s)", "Shots", "Players"],
+    ...rallies.map((r) => [
+      r.index,
+      round(r.start),
+      round(r.end),
+      round(r.duration),
+      r.shotCount,
+      r.hitters.map(nameOf).join(" / "),
+    ]),
+  ];
+
+  const handleDownloadCSV = () =>
+    downloadFile(
+      toCSV(eventRows()),
+      csvFilename("match_event_logs"),
+      CSV_TYPE,
     );
 
-    const csvRows = [
-      "Time (s),Shot Type,Player ID",
-      ...filteredEvents.map((e) => {
-        const t = timeUnit === "frames" ? e.t0 / DEFAULT_FPS : e.t0;
-        return `${t.toFixed(1)},${formatLabel(e.label)},Player ${e.track_id}`;
-      }),
-    ];
+  const handleDownloadSummaryCSV = () =>
+    downloadFile(
+      toCSV(summaryRows()),
+      csvFilename("shot_summary"),
+      CSV_TYPE,
+    );
 
-    const blob = new Blob([csvRows.join("\n")], {
-      type: "text/csv;charset=utf-8;",
-    });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.download = "match_event_logs.csv";
-    link.click();
+  const handleDownloadTransitionsCSV = () =>
+    downloadFile(
+      toCSV([
+        ["Player", "Received Shot", "Reply Shot", "Count", "Share (%)"],
+        ...playerIds.flatMap((id) =>
+          topTransitions(transitions, id, Infinity).map((t) => [
+            nameOf(id),
+            t.from,
+            t.to,
+            t.count,
+            round(t.share * 100, 1),
+          ]),
+        ),
+      ]),
+      csvFilename("shot_transitions"),
+      CSV_TYPE,
+    );
+
+  // Subtitle tracks of the shots the log is showing
+  const handleDownloadSubtitles = (format: "vtt" | "srt") => {
+    if (!modelResult) return;
+    const cues = shotCues(
+      playerEvents.filter(inLogFilter),
+      modelResult,
+      nameOf,
+    );
+    if (format === "vtt")
+      downloadFile(toWebVTT(cues), "match_shots.vtt", "text/vtt");
+    else downloadFile(toSRT(cues), "match_shots.srt", "application/x-subrip");
   };
 
-  const handleDownloadSummaryCSV = () => {
-    const csvRows = [
-      `Shot Type,${playerIds.map((id) => `Player ${id}`).join(",")}`,
-      ...SHOT_TYPES.map((shot) => {
-        const counts = playerIds.map((_, idx) => playerStats[shot]?.[idx] || 0);
-        return `${shot},${counts.join(",")}`;
-      }),
-    ];
+  const handleDownloadWorkbook = () =>
+    downloadFile(
+      toXLSX([
+        { name: "Events", rows: eventRows() },
+        { name: "Summary", rows: summaryRows() },
+        { name: "Rallies", rows: rallyRows() },
+        {
+          name: "Match",
+          rows: [
+            ["Field", "Value"],
+            ["Title", match?.title ?? ""],
+            ["Video", match?.sourceFilename ?? ""],
+            thresholdRow,
+            ["Filters", filterSummary ?? "None"],
+            ...playerIds.map((id) => [`Player ${id}`, nameOf(id)]),
+          ],
+        },
+      ]),
+      "match_export.xlsx",
+    );
 
-    const blob = new Blob([csvRows.join("\n")], {
-      type: "text/csv;charset=utf-8;",
-    });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.download = "shot_summary.csv";
-    link.click();
+  const handleSeek = (time: number) => {
+    const vid = document.getElementById("video-player") as HTMLVideoElement;
+    if (vid) vid.currentTime = time;
+    setCurrentTime(time);
   };
 
-  const handleGeneratePDF = () => {
+  const handlePlayRally = (rally: Rally) => {
+    const vid = document.getElementById("video-player") as HTMLVideoElement;
+    if (!vid) return;
+    setActiveRally(rally);
+    vid.currentTime = rally.start;
+    vid.play();
+  };
+
+  // --- Correction Handlers ---
+
+  // Records a new corrected list, keeping events in time order
+  const commitEvents = (next: BadmintonEvent[]) =>
+    corrections.set([...next].sort((a, b) => a.t0 - b.t0));
+
+  const handleSaveEvent = (idx: number, updated: BadmintonEvent) => {
+    commitEvents(events.map((e, i) => (i === idx ? updated : e)));
+    setEditingIndex(null);
+  };
+
+  const handleDeleteEvent = (idx: number) => {
+    commitEvents(events.filter((_, i) => i !== idx));
+    setEditingIndex(null);
+  };
+
+  const handleInsertEvent = () => {
     if (!modelResult) return;
-    generateMatchReport({
-      modelResult,
-      playerIds,
-      playerStats,
-      chartElement: barChartRef.current,
-      timeUnit,
-      fps: DEFAULT_FPS,
-    });
+    const inserted: BadmintonEvent = {
+      label: SHOT_TYPES[0],
+      track_id: playerIds[0] ?? 1,
+      t0: secondsToEventTime(currentTime, modelResult),
+      corrected: true,
+    };
+    const next = [...events, inserted].sort((a, b) => a.t0 - b.t0);
+    corrections.set(next);
+    setEditMode(true);
+    setEditingIndex(next.indexOf(inserted));
+  };
+
+  const handleRevertAll = () => {
+    if (!modelResult) return;
+    if (!window.confirm(t("main.confirmRevert"))) return;
+    corrections.set(pipelineEvents(modelResult));
+    setEditingIndex(null);
+  };
+
+  // --- Confidence Handlers ---
+
+  const handleThresholdChange = (threshold: number) => {
+    setConfidenceThreshold(threshold);
+    if (match) {
+      updateMatch(match.id, { confidenceThreshold: threshold }).catch((err) =>
+        setLoadError(t("main.saveThresholdFailed", { error: err.message })),
+      );
+    }
+  };
+
+  // Confirms a low-confidence detection so it counts in the stats
+  const handleAcceptReview = (entry: ReviewQueueEntry) =>
+    commitEvents(
+      events.map((e, i) => (i === entry.index ? { ...e, reviewed: true } : e)),
+    );
+
+  const handleSeekReview = (entry: ReviewQueueEntry) => {
+    setCurrentEventIndex(entry.index);
+    handleSeek(entry.time);
   };
 
-  // Pre-process AI text for display
-  const cleanAnalysisText = (text: string) =>
-    text
-      .replace(/^### (.*)$/gm, "<h4 class='font-semibold'>$1</h4>")
-      .replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
-      .replace(/\*/g, "")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim();
+  // --- Roster Handlers ---
+
+  const handleRosterChange = (next: PlayerRoster) => {
+    setRoster(next);
+    if (match) {
+      updateMatch(match.id, { roster: next }).catch((err) =>
+        setLoadError(t("main.saveRosterFailed", { error: err.message })),
+      );
+    }
+  };
+
+  const handleAnalysisModeChange = (mode: AnalysisSource) => {
+    setAnalysisMode(mode);
+    setAnalysisModeState(mode);
+  };
+
+  /**
+   * Re-runs the analysis with the current roster names and corrections.
+   * AI mode falls back to the rule-based analysis if the service fails.
+   */
+  const handleRefreshAI = async () => {
+    if (!match || !modelResult) return;
+    setRefreshingAI(true);
+    try {
+      const aiAnalysis = await analyseMatch({
+        events: playerEvents,
+        playerIds,
+        timeBase: modelResult,
+        nameOf,
+        mode: analysisMode,
+        language: locale,
+      });
+
+      const result: ModelResult = { ...modelResult, aiAnalysis };
+      const updated = await updateMatch(match.id, { result });
+      setMatch(updated);
+      setModelResult(result);
+    } catch (err: any) {
+      setLoadError(t("main.analysisFailed", { error: err.message }));
+    } finally {
+      setRefreshingAI(false);
+    }
+  };
+
+  // --- Coach Chat Handlers ---
+
+  const saveChat = (next: ChatMessage[]) => {
+    setChat(next);
+    if (match) {
+      updateMatch(match.id, { chat: next })
+        .then(setMatch)
+        .catch((err) =>
+          setChatError(t("main.saveChatFailed", { error: err.message })),
+        );
+    }
+  };
+
+  const handleAskCoach = async (question: string) => {
+    if (!modelResult) return;
+    const asked: ChatMessage[] = [
+      ...chat,
+      { role: "user", text: question, sentAt: new Date().toISOString() },
+    ];
+    setChat(asked);
+    setChatError(null);
+    setAskingCoach(true);
+    try {
+      const answer = await askCoach({
+        question,
+        history: chat,
+        events: playerEvents,
+        playerIds,
+        timeBase: modelResult,
+        nameOf,
+        analysis: modelResult.aiAnalysis,
+        language: locale,
+      });
+      saveChat([
+        ...asked,
+        { role: "coach", text: answer, sentAt: new Date().toISOString() },
+      ]);
+    } catch (err: any) {
+      // Drop the unanswered question so it can be asked again
+      setChat(chat);
+      setChatError(t("main.coachFailed", { error: err.message }));
+    } finally {
+      setAskingCoach(false);
+    }
+  };
+
+  // The log's active filters in words, for the report builder and PDF
+  const filterSummary = useMemo(() => {
+    const parts = [
+      logFilter !== "All"
+        ? t("main.filterShots", { shot: localizedShotName(logFilter, locale) })
+        : null,
+      playerFilter !== "All" ? nameOf(playerFilter) : null,
+      timeRange
+        ? `${timeRange.start.toFixed(1)}s–${timeRange.end.toFixed(1)}s`
+        : null,
+    ].filter((p): p is string => p !== null);
+    return parts.length > 0 ? parts.join(", ") : null;
+  }, [logFilter, playerFilter, timeRange, nameOf, t, locale]);
+
+  /**
+   * Builds the PDF from the report builder's choices. Without
+   * `applyFilters` the report covers the whole match, whatever is filtered
+   * on screen. Rallies are only cut to the time range, since filtering out
+   * shots would split them.
+   */
+  const handleGeneratePDF = async (config: ReportConfig) => {
+    if (!match || !modelResult) return;
+    const reportEvents = config.applyFilters
+      ? playerEvents.filter(inLogFilter)
+      : playerEvents;
+    const rallyEvents = config.applyFilters ? rangeEvents : playerEvents;
+
+    try {
+      await generateMatchReport({
+        match,
+        modelResult: { ...modelResult, events: reportEvents },
+        playerIds,
+        playerName: nameOf,
+        playerStats: computePlayerStats(reportEvents, playerIds),
+        rallyDistribution: rallyLengthDistribution(
+          segmentRallies(rallyEvents, toSeconds),
+        ),
+        confidenceThreshold,
+        excludedCount: events.length - playerEvents.length,
+        chat,
+        sections: config.sections,
+        foreword: config.foreword,
+        filterNote: (config.applyFilters && filterSummary) || undefined,
+        locale,
+      });
+    } catch (err: any) {
+      setLoadError(t("main.reportFailed", { error: err.message }));
+    }
+    setReportBuilderOpen(false);
+  };
 
   return (
     <div className="flex flex-col min-h-screen bg-gray-100">
       {/* Header Navigation */}
       <header className="bg-gradient-to-r from-slate-900 via-purple-900 to-slate-900 text-white">
-        <nav className="max-w-6xl mx-auto px-6 py-6 flex justify-center space-x-12">
+        <nav className="max-w-6xl mx-auto px-6 py-6 flex justify-center items-center space-x-12">
           <Link
             to="/"
             className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
           >
-            Home
+            {t("nav.home")}
           </Link>
           <Link
             to="/about"
             className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
           >
-            About
+            {t("nav.about")}
           </Link>
           <Link
             to="/main"
             className="text-lg font-medium text-purple-100 hover:text-white transition-colors"
           >
-            Main
+            {t("nav.main")}
+          </Link>
+          <Link
+            to="/library"
+            className="text-lg font-medium text-white hover:text-purple-200 transition-colors"
+          >
+            {t("nav.library")}
           </Link>
+          <LanguageSwitcher />
         </nav>
       </header>
 
       <main className="flex-grow flex flex-col items-center p-6 space-y-6 bg-gray-100">
+        {/* Match Title */}
+        {match && (
+          <div className="w-full max-w-7xl flex items-baseline justify-between text-black">
+            <div className="flex items-baseline gap-3 min-w-0">
+              <h2 className="text-2xl font-semibold truncate">{match.title}</h2>
+              {libraryMatches.length > 1 && (
+                <select
+                  value={match.id}
+                  onChange={(e) => navigate(`/main/${e.target.value}`)}
+                  className="bg-white border rounded p-1 text-sm"
+                  title={t("main.switchMatch")}
+                >
+                  {libraryMatches.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.title}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <span className="text-sm text-gray-500">
+              {match.sourceFilename} &middot;{" "}
+              {new Date(match.uploadedAt).toLocaleString(locale)}
+              {modelResult && (
+                <>
+                  {" "}
+                  &middot;{" "}
+                  {t("main.timeBase", {
+                    fps: modelResult.fps,
+                    unit: t(
+                      modelResult.timeUnit === "frames"
+                        ? "common.frames"
+                        : "common.seconds",
+                    ),
+                  })}
+                </>
+              )}
+            </span>
+          </div>
+        )}
+        {readOnly && match && (
+          <div className="w-full max-w-7xl bg-purple-50 border border-purple-200 text-purple-800 rounded-lg p-3 text-center text-sm">
+            {t("main.sharedView")}
+            {shareExpiresAt &&
+              ` · ${t("main.linkExpires", {
+                date: new Date(shareExpiresAt).toLocaleString(locale),
+              })}`}
+          </div>
+        )}
+        {otherLabels.length > 0 && (
+          <div className="w-full max-w-7xl bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-3 text-center text-sm">
+            {t("main.otherLabels", {
+              other: localizedShotName(OTHER_SHOT_TYPE, locale),
+              labels: otherLabels
+                .map((l) => `${l.label} (${l.count})`)
+                .join(", "),
+            })}
+          </div>
+        )}
+        {loadWarnings.map((warning) => (
+          <div
+            key={warning}
+            className="w-full max-w-7xl bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-3 text-center text-sm"
+          >
+            {warning}
+          </div>
+        ))}
+        {loadError && (
+          <div className="w-full max-w-7xl bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-center whitespace-pre-line">
+            {loadError}{" "}
+            {!readOnly && (
+              <Link to="/library" className="underline">
+                {t("main.backToLibrary")}
+              </Link>
+            )}
+          </div>
+        )}
+
         {/* --- Section 1: Video Player & Event Logs --- */}
         <div className="w-full max-w-7xl bg-white shadow-lg rounded-xl p-4">
           <div className="flex flex-col md:flex-row gap-6">
@@ -281,92 +1097,358 @@ export default function MainPage(): JSX.Element {
                   autoPlay
                   muted
                   className="w-full h-[450px] object-contain rounded-xl"
-                />
+                >
+                  {subtitleTrackUrl && (
+                    <track
+                      key={subtitleTrackUrl}
+                      kind="subtitles"
+                      label={t("main.subtitleLabel")}
+                      srcLang={locale}
+                      src={subtitleTrackUrl}
+                      default
+                    />
+                  )}
+                </video>
               ) : (
                 <div className="text-white p-8 text-center">
-                  No video loaded. Please upload a file on the Home page.
+                  {t("main.noVideo")}
                 </div>
               )}
             </div>
 
             {/* Event Logs Panel */}
-            {modelResult?.events && (
+            {modelResult && (
               <div className="w-full md:w-[400px] bg-white shadow-lg rounded-xl p-4 text-black flex flex-col h-[512px]">
                 <h3 className="font-semibold text-2xl text-center mb-2">
-                  Event Logs
+                  {t("main.eventLogs")}
                 </h3>
 
-                {/* Filter Dropdown */}
-                <div className="flex items-center gap-2 justify-end mb-2">
-                  <span className="font-medium">Filter:</span>
-                  <select
-                    value={logFilter}
-                    onChange={(e) => setLogFilter(e.target.value)}
-                    className="bg-white border rounded p-1 text-sm"
-                  >
-                    <option value="All">All</option>
-                    {SHOT_TYPES.map((shot) => (
-                      <option key={shot} value={shot}>
-                        {shot}
-                      </option>
-                    ))}
-                  </select>
+                {/* Filter Dropdown & Edit Toggle */}
+                <div className="flex flex-wrap items-center gap-2 justify-between mb-2">
+                  {!readOnly && (
+                    <button
+                      className={`px-3 py-1 rounded text-sm border transition ${
+                        editMode
+                          ? "bg-purple-500 text-white border-purple-500"
+                          : "bg-white text-purple-700 border-purple-300 hover:bg-purple-50"
+                      }`}
+                      onClick={() => {
+                        setEditMode((on) => !on);
+                        setEditingIndex(null);
+                      }}
+                    >
+                      {editMode ? t("main.doneEditing") : t("main.editEvents")}
+                    </button>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{t("main.filter")}</span>
+                    <select
+                      value={logFilter}
+                      onChange={(e) => setLogFilter(e.target.value)}
+                      className="bg-white border rounded p-1 text-sm"
+                    >
+                      <option value="All">{t("main.allShots")}</option>
+                      {(otherLabels.length > 0 || logFilter === OTHER_SHOT_TYPE
+                        ? [...SHOT_TYPES, OTHER_SHOT_TYPE]
+                        : SHOT_TYPES
+                      ).map((shot) => (
+                        <option key={shot} value={shot}>
+                          {localizedShotName(shot, locale)}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={playerFilter}
+                      onChange={(e) =>
+                        setPlayerFilter(
+                          e.target.value === "All"
+                            ? "All"
+                            : Number(e.target.value),
+                        )
+                      }
+                      className="bg-white border rounded p-1 text-sm"
+                      title={t("main.filterByPlayer")}
+                    >
+                      <option value="All">{t("main.allPlayers")}</option>
+                      {playerIds.map((id) => (
+                        <option key={id} value={id}>
+                          {nameOf(id)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
+                {/* Correction Toolbar */}
+                {editMode && (
+                  <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+                    <button
+                      className="bg-purple-500 text-white px-2 py-1 rounded hover:bg-purple-600 transition"
+                      onClick={handleInsertEvent}
+                    >
+                      {t("main.insertShot", { time: currentTime.toFixed(1) })}
+                    </button>
+                    <button
+                      className="bg-gray-200 px-2 py-1 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                      onClick={undo}
+                      disabled={!canUndo}
+                      title={t("main.undoHint")}
+                    >
+                      {t("main.undo")}
+                    </button>
+                    <button
+                      className="bg-gray-200 px-2 py-1 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                      onClick={redo}
+                      disabled={!canRedo}
+                      title={t("main.redoHint")}
+                    >
+                      {t("main.redo")}
+                    </button>
+                    <button
+                      className="bg-gray-200 px-2 py-1 rounded hover:bg-gray-300 transition disabled:opacity-50"
+                      onClick={handleRevertAll}
+                      disabled={correctionSummary.total === 0}
+                    >
+                      {t("main.revertAll")}
+                    </button>
+                  </div>
+                )}
+                {correctionSummary.total > 0 && (
+                  <p className="text-xs text-amber-700 mb-2">
+                    {t("main.correctionSummary", correctionSummary)}
+                  </p>
+                )}
+
                 {/* Log List */}
                 <div
                   ref={logContainerRef}
                   className="flex-1 overflow-y-auto border rounded-lg p-2 bg-gray-50 text-sm"
                 >
-                  {modelResult.events
-                    .filter(
-                      (e) =>
-                        logFilter === "All" ||
-                        normalizeLabel(e.label) === normalizeLabel(logFilter),
-                    )
-                    .map((e, idx) => {
-                      const t =
-                        timeUnit === "frames" ? e.t0 / DEFAULT_FPS : e.t0;
+                  {events
+                    .map((e, idx) => ({ e, idx }))
+                    .filter(({ e }) => inLogFilter(e))
+                    .map(({ e, idx }) => {
+                      const time = toSeconds(e.t0);
                       const isActive = idx === currentEventIndex;
+                      const isLowConfidence = !isConfident(
+                        e,
+                        confidenceThreshold,
+                      );
+                      const original =
+                        e.corrected && e.sourceIndex !== undefined
+                          ? modelResult.events[e.sourceIndex]
+                          : undefined;
+
+                      if (editingIndex === idx) {
+                        return (
+                          <EventEditor
+                            key={idx}
+                            event={e}
+                            timeUnit={modelResult.timeUnit}
+                            onSave={(updated) => handleSaveEvent(idx, updated)}
+                            onCancel={() => setEditingIndex(null)}
+                          />
+                        );
+                      }
+
                       return (
                         <div
                           key={idx}
-                          className={`p-1 rounded cursor-pointer transition-colors ${
+                          className={`p-1 rounded cursor-pointer transition-colors flex items-center gap-1 ${
                             isActive
                               ? "active-event bg-purple-200 font-semibold"
                               : "hover:bg-gray-200"
-                          }`}
+                          } ${isLowConfidence ? "border-l-4 border-amber-400 text-gray-500" : ""}`}
+                          title={
+                            isLowConfidence
+                              ? t("main.belowThreshold")
+                              : undefined
+                          }
                           onClick={() => {
                             setCurrentEventIndex(idx);
                             const vid = document.getElementById(
                               "video-player",
                             ) as HTMLVideoElement;
-                            if (vid) vid.currentTime = t;
+                            if (vid) vid.currentTime = time;
                           }}
                         >
-                          [{t.toFixed(1)}s]{" "}
-                          <span className="font-medium">
-                            {formatLabel(e.label)}
-                          </span>{" "}
-                          by Player {e.track_id}
+                          <span className="flex-1">
+                            [{time.toFixed(1)}s]{" "}
+                            <span className="font-medium">
+                              {shotLabel(e.label)}
+                            </span>{" "}
+                            {t("main.byPlayer", {
+                              player: trackName(e.track_id),
+                            })}
+                            {e.score !== undefined && (
+                              <span
+                                className={`ml-1 text-xs font-mono font-normal ${
+                                  isLowConfidence
+                                    ? "text-amber-700"
+                                    : "text-gray-400"
+                                }`}
+                              >
+                                {formatScore(e.score)}
+                              </span>
+                            )}
+                            {e.corrected && (
+                              <span
+                                className="ml-1 text-xs text-amber-700 font-normal"
+                                title={
+                                  original
+                                    ? t("main.originally", {
+                                        shot: shotLabel(original.label),
+                                        player: trackName(original.track_id),
+                                        time: toSeconds(original.t0).toFixed(1),
+                                      })
+                                    : t("main.addedManually")
+                                }
+                              >
+                                {t("main.corrected")}
+                              </span>
+                            )}
+                          </span>
+                          {editMode && (
+                            <>
+                              <button
+                                className="text-xs text-purple-700 hover:underline"
+                                onClick={(ev) => {
+                                  ev.stopPropagation();
+                                  setEditingIndex(idx);
+                                }}
+                              >
+                                {t("main.edit")}
+                              </button>
+                              <button
+                                className="text-xs text-red-600 hover:underline"
+                                onClick={(ev) => {
+                                  ev.stopPropagation();
+                                  handleDeleteEvent(idx);
+                                }}
+                              >
+                                {t("main.delete")}
+                              </button>
+                            </>
+                          )}
                         </div>
                       );
                     })}
                 </div>
 
-                <div className="flex justify-center mt-4">
+                <div className="flex flex-wrap justify-center gap-2 mt-4">
                   <button
                     className="bg-purple-500 text-white px-5 py-2 rounded text-sm hover:bg-purple-600 transition"
                     onClick={handleDownloadCSV}
                   >
-                    Download Logs CSV
+                    {t("main.downloadLogs")}
+                  </button>
+                  <button
+                    className="bg-purple-500 text-white px-5 py-2 rounded text-sm hover:bg-purple-600 transition"
+                    onClick={handleDownloadWorkbook}
+                    title={t("main.workbookHint")}
+                  >
+                    {t("main.workbook")}
+                  </button>
+                  <button
+                    className="bg-gray-200 px-3 py-2 rounded text-sm hover:bg-gray-300 transition"
+                    onClick={() => handleDownloadSubtitles("vtt")}
+                    title={t("main.vttHint")}
+                  >
+                    .vtt
+                  </button>
+                  <button
+                    className="bg-gray-200 px-3 py-2 rounded text-sm hover:bg-gray-300 transition"
+                    onClick={() => handleDownloadSubtitles("srt")}
+                    title={t("main.srtHint")}
+                  >
+                    .srt
                   </button>
                 </div>
               </div>
             )}
           </div>
+
+          {/* Match Timeline */}
+          {modelResult && playerIds.length > 0 && (
+            <MatchTimeline
+              events={playerEvents}
+              playerIds={playerIds}
+              nameOf={nameOf}
+              toSeconds={toSeconds}
+              duration={timelineDuration}
+              currentTime={currentTime}
+              range={timeRange}
+              onSeek={handleSeek}
+              onRangeChange={setTimeRange}
+            />
+          )}
+
+          {/* Review Mode */}
+          {selectedVideo && modelResult && (
+            <>
+              <div className="flex justify-center mt-3">
+                <button
+                  className={`px-4 py-1 rounded text-sm border transition ${
+                    reviewMode
+                      ? "bg-purple-500 text-white border-purple-500"
+                      : "bg-white text-purple-700 border-purple-300 hover:bg-purple-50"
+                  }`}
+                  onClick={() => setReviewMode((on) => !on)}
+                >
+                  {reviewMode ? t("main.exitReviewMode") : t("main.reviewMode")}
+                </button>
+              </div>
+              {reviewMode && (
+                <ReviewToolbar
+                  fps={modelResult.fps}
+                  speed={review.speed}
+                  loopShot={review.loopShot}
+                  onSpeedChange={review.setSpeed}
+                  onToggleLoop={review.toggleLoop}
+                  onStepFrame={review.stepFrame}
+                  onStepShot={review.stepShot}
+                />
+              )}
+            </>
+          )}
         </div>
 
+        {/* --- Confidence Review Queue --- */}
+        {modelResult && !readOnly && (
+          <ConfidenceReviewQueue
+            threshold={confidenceThreshold}
+            onThresholdChange={handleThresholdChange}
+            entries={reviewEntries}
+            scoredCount={scoredCount}
+            onSeek={handleSeekReview}
+            onAccept={handleAcceptReview}
+            onReject={(entry) => handleDeleteEvent(entry.index)}
+          />
+        )}
+
+        {/* --- Highlight Reel --- */}
+        {match && modelResult && selectedVideo && (
+          <HighlightReel
+            key={match.id}
+            candidates={reelCandidates}
+            title={match.title}
+            sourceName={match.sourceFilename}
+            fps={modelResult.fps}
+            duration={videoDuration}
+          />
+        )}
+
+        {/* --- Rally Breakdown --- */}
+        {rallies.length > 0 && (
+          <RallyPanel
+            rallies={rallies}
+            currentTime={currentTime}
+            activeRally={activeRally?.index ?? null}
+            nameOf={nameOf}
+            onPlayRally={handlePlayRally}
+          />
+        )}
+
         {/* --- Section 2: Statistics & Analysis --- */}
         {playerIds.length > 0 && (
           <div className="w-full max-w-7xl grid grid-cols-1 md:grid-cols-2 gap-6 items-stretch">
@@ -374,28 +1456,30 @@ export default function MainPage(): JSX.Element {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 col-span-2">
               <div className="bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black">
                 <h3 className="font-semibold text-2xl text-center mb-2">
-                  Shot Summary
+                  {t("stats.shotSummary")}
                 </h3>
                 <div className="overflow-x-auto">
                   <table className="w-full border border-gray-200 text-center text-sm">
                     <thead className="bg-gray-100">
                       <tr>
-                        <th className="border px-2 py-1">Shot Type</th>
+                        <th className="border px-2 py-1">
+                          {t("stats.shotType")}
+                        </th>
                         {playerIds.map((id) => (
                           <th key={id} className="border px-2 py-1">
-                            Player {id}
+                            {nameOf(id)}
                           </th>
                         ))}
                       </tr>
                     </thead>
                     <tbody>
-                      {SHOT_TYPES.map((shot, idx) => (
+                      {statShotTypes(playerStats).map((shot, idx) => (
                         <tr
                           key={shot}
                           className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
                         >
                           <td className="border px-2 py-1 font-medium">
-                            {shot}
+                            {localizedShotName(shot, locale)}
                           </td>
                           {playerIds.map((_, j) => (
                             <td key={j} className="border px-2 py-1">
@@ -407,12 +1491,57 @@ export default function MainPage(): JSX.Element {
                     </tbody>
                   </table>
                 </div>
+
+                {/* Rally Length Distribution */}
+                {rallies.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="font-semibold text-center mb-2">
+                      {t("stats.rallyDistribution")}
+                    </h4>
+                    <table className="w-full border border-gray-200 text-center text-sm">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="border px-2 py-1">
+                            {t("stats.rallyLength")}
+                          </th>
+                          <th className="border px-2 py-1">
+                            {t("stats.rallies")}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rallyDistribution.map((bucket, idx) => (
+                          <tr
+                            key={bucket.label}
+                            className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                          >
+                            <td className="border px-2 py-1 font-medium">
+                              {rallyBucketLabel(bucket, t)}
+                            </td>
+                            <td className="border px-2 py-1">{bucket.count}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-center text-xs text-gray-500 mt-2">
+                      {t("main.rallyStats", {
+                        count: rallies.length,
+                        average: (
+                          rallies.reduce((acc, r) => acc + r.shotCount, 0) /
+                          rallies.length
+                        ).toFixed(1),
+                        longest: Math.max(...rallies.map((r) => r.shotCount)),
+                      })}
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex justify-center mt-6">
                   <button
                     className="bg-purple-500 text-white px-5 py-2 rounded text-sm hover:bg-purple-600 transition"
                     onClick={handleDownloadSummaryCSV}
                   >
-                    Download Summary CSV
+                    {t("main.downloadSummary")}
                   </button>
                 </div>
               </div>
@@ -420,23 +1549,20 @@ export default function MainPage(): JSX.Element {
               {/* Bar Charts */}
               <div className="bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black">
                 <h3 className="font-semibold text-2xl text-center mb-2">
-                  Shot Distribution per Player
+                  {t("main.shotDistribution")}
                 </h3>
-                <div ref={barChartRef} className="flex flex-col gap-4">
-                  {[0, 1].map((idx) => {
-                    const id = playerIds[idx];
-                    if (id === undefined) return null;
-
+                <div className="flex flex-col gap-4">
+                  {playerIds.map((id, idx) => {
                     // Filter data for specific player chart
                     const playerChartData = chartData.map((d) => ({
-                      shot: d.shot,
+                      shot: localizedShotName(d.shot, locale),
                       count: d.counts[idx],
                     }));
 
                     return (
                       <div key={id} className="flex-1">
                         <h4 className="font-semibold text-center mb-2">
-                          Player {id}
+                          {nameOf(id)}
                         </h4>
                         <ResponsiveContainer width="100%" height={220}>
                           <BarChart
@@ -470,84 +1596,163 @@ export default function MainPage(): JSX.Element {
               </div>
             </div>
 
+            {/* Category Aggregates */}
+            <CategoryBreakdown
+              categoryStats={categoryStats}
+              playerIds={playerIds}
+              nameOf={nameOf}
+            />
+
+            {/* Player Roster */}
+            {!readOnly && (
+              <div className="col-span-2">
+                <PlayerRosterEditor
+                  trackIds={trackIds}
+                  trackCounts={trackCounts}
+                  roster={roster}
+                  onChange={handleRosterChange}
+                />
+              </div>
+            )}
+
+            {/* Shot Transitions */}
+            <div className="col-span-2">
+              <TransitionHeatmap
+                matrix={transitions}
+                playerIds={playerIds}
+                nameOf={nameOf}
+                onDownloadCSV={handleDownloadTransitionsCSV}
+              />
+            </div>
+
             {/* AI Insights & References */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 col-span-2">
               {/* AI Analysis Text */}
               <div className="bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black">
                 <h3 className="font-semibold text-2xl text-center mb-3">
-                  AI Analysis
+                  {t("main.aiAnalysis")}
                 </h3>
+                {!readOnly && (
+                  <div className="flex justify-end items-center gap-3 mb-2 text-sm">
+                    <select
+                      value={analysisMode}
+                      onChange={(e) =>
+                        handleAnalysisModeChange(
+                          e.target.value as AnalysisSource,
+                        )
+                      }
+                      className="border rounded p-1"
+                      title={t("main.analysisModeHint")}
+                    >
+                      <option value="ai">{t("main.modeAi")}</option>
+                      <option value="rules">{t("main.modeRules")}</option>
+                    </select>
+                    <button
+                      className="text-sm text-purple-700 hover:text-purple-900 underline disabled:opacity-50"
+                      onClick={handleRefreshAI}
+                      disabled={refreshingAI}
+                      title={t("main.refreshHint")}
+                    >
+                      {refreshingAI ? t("main.analysing") : t("main.refresh")}
+                    </button>
+                  </div>
+                )}
                 <div
-                  className="flex-1 bg-gray-50 border border-gray-200 rounded-lg p-4 text-base text-gray-800 leading-relaxed whitespace-pre-wrap overflow-y-auto scrollbar-thin"
+                  className="flex-1 bg-gray-50 border border-gray-200 rounded-lg p-4 text-base text-gray-800 leading-relaxed overflow-y-auto scrollbar-thin"
                   style={{ height: "400px", maxHeight: "400px" }}
-                  dangerouslySetInnerHTML={{
-                    __html: modelResult?.aiSummary
-                      ? cleanAnalysisText(modelResult.aiSummary)
-                      : "AI summary will appear here.",
-                  }}
-                />
+                >
+                  <AIAnalysisPanel analysis={modelResult?.aiAnalysis} />
+                </div>
               </div>
 
               {/* Professional Matches */}
               <div className="bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black">
                 <h3 className="font-semibold text-2xl text-center mb-3">
-                  Recommended Professional Matches
+                  {t("main.proMatches")}
                 </h3>
                 <div
                   className="flex-1 bg-gray-50 border border-gray-200 rounded-lg p-4 text-base text-gray-800 leading-relaxed overflow-y-auto scrollbar-thin"
                   style={{ height: "400px", maxHeight: "400px" }}
                 >
-                  {modelResult?.aiVerified ? (
-                    modelResult.aiVerified
-                      .trim()
-                      .split("\n")
-                      .filter((line) => line.trim() !== "")
-                      .map((line, idx) => {
-                        const [name, link] = line.split(" - ");
-                        return (
-                          <div key={idx} className="mb-3">
-                            <span className="text-black font-medium">
-                              {name?.trim()}
-                            </span>
-                            {link && (
-                              <>
-                                <span className="text-gray-600"> - </span>
-                                <a
-                                  href={link.trim()}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="text-purple-700 hover:text-purple-900 underline break-all"
-                                >
-                                  {link.trim()}
-                                </a>
-                              </>
-                            )}
-                          </div>
-                        );
-                      })
-                  ) : (
-                    <span className="text-gray-500 italic">
-                      AI recommended matches will appear here.
-                    </span>
-                  )}
+                  <ProMatchRecommendations
+                    recommendations={modelResult?.aiAnalysis?.recommendations}
+                  />
                 </div>
               </div>
             </div>
+
+            {/* Follow-up Questions */}
+            {!readOnly && (
+              <CoachChat
+                messages={chat}
+                busy={askingCoach}
+                error={chatError}
+                onAsk={handleAskCoach}
+                onClear={() => saveChat([])}
+                onSeek={handleSeek}
+              />
+            )}
           </div>
         )}
       </main>
 
-      {/* PDF Generation Action */}
-      {modelResult?.aiSummary && (
-        <div className="flex justify-center py-6 bg-gray-100">
+      {/* Report & Export Actions */}
+      {match && (
+        <div className="flex justify-center items-center gap-4 py-6 bg-gray-100">
           <button
-            className="bg-purple-600 text-white px-8 py-3 rounded-lg hover:bg-purple-700 transition shadow-lg transform active:scale-95 font-medium"
-            onClick={handleGeneratePDF}
+            className="bg-white text-purple-700 border border-purple-600 px-8 py-3 rounded-lg hover:bg-purple-50 transition shadow-lg transform active:scale-95 font-medium"
+            onClick={() =>
+              downloadAnalysisBundle({
+                ...match,
+                correctedEvents:
+                  correctionSummary.total > 0 ? events : undefined,
+                roster,
+                confidenceThreshold,
+                chat,
+              })
+            }
           >
-            Generate Final Report
+            {t("main.exportAnalysis")}
           </button>
+          {!readOnly && (
+            <button
+              className="bg-white text-purple-700 border border-purple-600 px-8 py-3 rounded-lg hover:bg-purple-50 transition shadow-lg transform active:scale-95 font-medium"
+              onClick={() => setShareDialogOpen(true)}
+            >
+              {t("main.share")}
+            </button>
+          )}
+          {modelResult?.aiAnalysis && (
+            <button
+              className="bg-purple-600 text-white px-8 py-3 rounded-lg hover:bg-purple-700 transition shadow-lg transform active:scale-95 font-medium"
+              onClick={() => setReportBuilderOpen(true)}
+            >
+              {t("main.generateReport")}
+            </button>
+          )}
         </div>
       )}
+
+      {reportBuilderOpen && (
+        <ReportBuilderDialog
+          filterSummary={filterSummary}
+          onGenerate={handleGeneratePDF}
+          onClose={() => setReportBuilderOpen(false)}
+        />
+      )}
+
+      {shareDialogOpen && match && (
+        <ShareDialog
+          match={{
+            ...match,
+            correctedEvents: correctionSummary.total > 0 ? events : undefined,
+            roster,
+            confidenceThreshold,
+            chat,
+          }}
+          onClose={() => setShareDialogOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,106 @@
+import type { AIAnalysis, PlayerAnalysis } from "../types";
+import { useI18n } from "../hooks/useI18n";
+import { localizedShotName } from "../utils/shots";
+
+interface AIAnalysisPanelProps {
+  analysis?: AIAnalysis;
+}
+
+const PointList = ({
+  title,
+  points,
+  className,
+}: {
+  title: string;
+  points: string[];
+  className: string;
+}) =>
+  points.length > 0 ? (
+    <div>
+      <h5 className={`font-semibold text-sm ${className}`}>{title}</h5>
+      <ul className="list-disc list-inside text-sm space-y-0.5">
+        {points.map((point, idx) => (
+          <li key={idx}>{point}</li>
+        ))}
+      </ul>
+    </div>
+  ) : null;
+
+const PlayerCard = ({ player }: { player: PlayerAnalysis }) => {
+  const { locale, t } = useI18n();
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 bg-white space-y-2">
+      <div className="flex flex-wrap items-baseline gap-2">
+        <h4 className="font-semibold text-lg">{player.player}</h4>
+        <span className="text-xs bg-purple-100 text-purple-800 rounded-full px-2 py-0.5">
+          {player.style}
+        </span>
+      </div>
+      <p className="text-sm">{player.summary}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <PointList
+          title={t("analysis.strengths")}
+          points={player.strengths}
+          className="text-green-700"
+        />
+        <PointList
+          title={t("analysis.weaknesses")}
+          points={player.weaknesses}
+          className="text-red-700"
+        />
+      </div>
+      {player.evidence.length > 0 && (
+        <div>
+          <h5 className="font-semibold text-sm text-gray-600">
+            {t("analysis.evidence")}
+          </h5>
+          <ul className="text-sm space-y-0.5">
+            {player.evidence.map((e, idx) => (
+              <li key={idx}>
+                <span className="font-mono bg-gray-100 rounded px-1">
+                  {localizedShotName(e.shot, locale)} × {e.count}
+                </span>{" "}
+                {e.note}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * AIAnalysisPanel Component
+ * * Renders the structured AI coach analysis: one card per player (style,
+ * * strengths, weaknesses and the shot counts behind them) and the overall
+ * * head-to-head dynamic. Rule-based analyses are labelled as such.
+ */
+export default function AIAnalysisPanel({
+  analysis,
+}: AIAnalysisPanelProps): JSX.Element {
+  const { t } = useI18n();
+
+  if (!analysis) {
+    return (
+      <span className="text-gray-500 italic">{t("analysis.placeholder")}</span>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {analysis.source === "rules" && (
+        <div className="text-sm bg-amber-50 border border-amber-200 text-amber-800 rounded p-2">
+          {t("analysis.rulesNotice")}
+        </div>
+      )}
+      {analysis.players.map((player) => (
+        <PlayerCard key={player.player} player={player} />
+      ))}
+      <div>
+        <h4 className="font-semibold">{t("analysis.overall")}</h4>
+        <p className="text-sm">{analysis.overall}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { SHOT_CATEGORIES, SHOT_TAXONOMY } from "../constant";
+import type { CategoryStats } from "../utils/stats";
+import { useI18n } from "../hooks/useI18n";
+import { localizedCategoryName, localizedShotName } from "../utils/shots";
+
+interface CategoryBreakdownProps {
+  categoryStats: CategoryStats;
+  playerIds: number[];
+  nameOf: (playerId: number) => string;
+}
+
+/**
+ * CategoryBreakdown Component
+ * * Shot counts per taxonomy category (offensive, defensive/neutral, net
+ * * play) for each player, with the share of attacking shots.
+ */
+export default function CategoryBreakdown({
+  categoryStats,
+  playerIds,
+  nameOf,
+}: CategoryBreakdownProps): JSX.Element {
+  const { counts, attackRatio } = categoryStats;
+  const { locale, t } = useI18n();
+
+  return (
+    <div className="bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black col-span-2">
+      <h3 className="font-semibold text-2xl text-center mb-2">
+        {t("categories.title")}
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full border border-gray-200 text-center text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="border px-2 py-1">
+                {t("categories.category")}
+              </th>
+              {playerIds.map((id) => (
+                <th key={id} className="border px-2 py-1">
+                  {nameOf(id)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SHOT_CATEGORIES.map((category, idx) => (
+              <tr
+                key={category}
+                className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
+              >
+                <td
+                  className="border px-2 py-1 font-medium"
+                  title={SHOT_TAXONOMY.filter((s) => s.category === category)
+                    .map((s) => localizedShotName(s.name, locale))
+                    .join(", ")}
+                >
+                  {localizedCategoryName(category, locale)}
+                </td>
+                {playerIds.map((_, j) => (
+                  <td key={j} className="border px-2 py-1">
+                    {counts[category][j]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="bg-purple-50 font-semibold">
+              <td className="border px-2 py-1">
+                {t("categories.attackRatio")}
+              </td>
+              {playerIds.map((_, j) => (
+                <td key={j} className="border px-2 py-1">
+                  {Math.round(attackRatio[j] * 100)}%
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-center text-xs text-gray-500 mt-2">
+        {t("categories.attackRatioHint")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect, useRef } from "react";
+import type { ChatMessage } from "../types";
+import { splitCitations } from "../utils/coachChat";
+import { useI18n } from "../hooks/useI18n";
+
+interface CoachChatProps {
+  messages: ChatMessage[];
+  busy: boolean;
+  error: string | null;
+  onAsk: (question: string) => void;
+  onClear: () => void;
+  onSeek: (seconds: number) => void;
+}
+
+const EXAMPLE_QUESTIONS = [
+  "coach.example.lifting",
+  "coach.example.longestRallies",
+  "coach.example.practise",
+] as const;
+
+/**
+ * CoachChat Component
+ * * Follow-up questions about the match, answered from its events, stats
+ * * and analysis. Video times cited in answers seek the player.
+ */
+export default function CoachChat({
+  messages,
+  busy,
+  error,
+  onAsk,
+  onClear,
+  onSeek,
+}: CoachChatProps): JSX.Element {
+  const { t } = useI18n();
+  const [question, setQuestion] = useState("");
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages.length, busy]);
+
+  const submit = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || busy) return;
+    onAsk(trimmed);
+    setQuestion("");
+  };
+
+  return (
+    <div className="bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black col-span-2">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-2xl">{t("coach.title")}</h3>
+        {messages.length > 0 && (
+          <button
+            className="text-sm text-gray-600 hover:text-gray-800 underline disabled:opacity-50"
+            onClick={onClear}
+            disabled={busy}
+          >
+            {t("coach.clear")}
+          </button>
+        )}
+      </div>
+
+      {/* Conversation */}
+      <div
+        ref={listRef}
+        className="bg-gray-50 border border-gray-200 rounded-lg p-4 overflow-y-auto scrollbar-thin space-y-3"
+        style={{ height: "320px" }}
+      >
+        {messages.length === 0 && !busy && (
+          <div className="text-gray-500 text-sm">
+            <p className="italic mb-2">{t("coach.examplesIntro")}</p>
+            {EXAMPLE_QUESTIONS.map((key) => (
+              <button
+                key={key}
+                className="block text-left text-purple-700 hover:underline mb-1"
+                onClick={() => submit(t(key))}
+              >
+                “{t(key)}”
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, idx) => (
+          <div
+            key={idx}
+            className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+          >
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                message.role === "user"
+                  ? "bg-purple-600 text-white"
+                  : "bg-white border border-gray-200 text-gray-800"
+              }`}
+            >
+              {message.role === "user"
+                ? message.text
+                : splitCitations(message.text).map((segment, i) =>
+                    segment.kind === "text" ? (
+                      <span key={i}>{segment.text}</span>
+                    ) : (
+                      <button
+                        key={i}
+                        className="text-purple-700 font-mono hover:underline"
+                        onClick={() => onSeek(segment.seconds)}
+                        title={t("coach.jumpTo")}
+                      >
+                        [{segment.seconds.toFixed(1)}s]
+                      </button>
+                    ),
+                  )}
+            </div>
+          </div>
+        ))}
+        {busy && (
+          <div className="text-sm text-gray-500 italic">
+            {t("coach.thinking")}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      {/* Question Input */}
+      <form
+        className="flex gap-2 mt-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit(question);
+        }}
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={t("coach.placeholder")}
+          className="flex-1 border rounded-lg p-2 text-sm"
+          maxLength={500}
+        />
+        <button
+          type="submit"
+          className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition disabled:opacity-50"
+          disabled={busy || !question.trim()}
+        >
+          {t("coach.ask")}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { formatScore } from "../utils/confidence";
+import { useI18n } from "../hooks/useI18n";
+
+export interface ReviewQueueEntry {
+  index: number; // Position in the corrected event list
+  time: number; // Seconds
+  label: string; // Shot name in the current locale
+  player: string;
+  score?: number;
+}
+
+interface ConfidenceReviewQueueProps {
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  entries: ReviewQueueEntry[]; // Least confident first
+  scoredCount: number;
+  onSeek: (entry: ReviewQueueEntry) => void;
+  onAccept: (entry: ReviewQueueEntry) => void;
+  onReject: (entry: ReviewQueueEntry) => void;
+}
+
+/**
+ * ConfidenceReviewQueue Component
+ * * A threshold slider for detection confidence and the queue of detections
+ * * it excludes, least confident first. Accepting a detection brings it back
+ * * into the stats; rejecting deletes it.
+ */
+export default function ConfidenceReviewQueue({
+  threshold,
+  onThresholdChange,
+  entries,
+  scoredCount,
+  onSeek,
+  onAccept,
+  onReject,
+}: ConfidenceReviewQueueProps): JSX.Element {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full max-w-7xl bg-white shadow-lg rounded-xl p-6 text-black">
+      <h3 className="font-semibold text-2xl text-center mb-2">
+        {t("review.title")}
+      </h3>
+
+      {/* Threshold Slider */}
+      <div className="flex flex-wrap items-center justify-center gap-3 mb-2 text-sm">
+        <label htmlFor="confidence-threshold" className="font-medium">
+          {t("review.threshold")}
+        </label>
+        <input
+          id="confidence-threshold"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={threshold}
+          onChange={(e) => onThresholdChange(Number(e.target.value))}
+          className="w-48 accent-purple-600"
+        />
+        <span className="font-mono w-10">{threshold.toFixed(2)}</span>
+      </div>
+      <p className="text-center text-sm text-gray-500 mb-4">
+        {scoredCount > 0
+          ? t("review.summary", {
+              count: entries.length,
+              scored: scoredCount,
+            })
+          : t("review.noScores")}
+      </p>
+
+      {entries.length > 0 && (
+        <div className="max-h-[280px] overflow-y-auto border rounded-lg">
+          <table className="w-full text-center text-sm">
+            <thead className="bg-gray-100 sticky top-0">
+              <tr>
+                <th className="border px-2 py-1">{t("review.score")}</th>
+                <th className="border px-2 py-1">{t("review.time")}</th>
+                <th className="border px-2 py-1">{t("review.shot")}</th>
+                <th className="border px-2 py-1">{t("review.player")}</th>
+                <th className="border px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.index} className="hover:bg-gray-50">
+                  <td className="border px-2 py-1 font-mono text-amber-700">
+                    {formatScore(entry.score)}
+                  </td>
+                  <td className="border px-2 py-1">
+                    <button
+                      className="text-purple-700 hover:underline"
+                      onClick={() => onSeek(entry)}
+                    >
+                      {entry.time.toFixed(1)}s
+                    </button>
+                  </td>
+                  <td className="border px-2 py-1">{entry.label}</td>
+                  <td className="border px-2 py-1">{entry.player}</td>
+                  <td className="border px-2 py-1 whitespace-nowrap">
+                    <button
+                      className="px-1 text-green-700 hover:underline"
+                      onClick={() => onAccept(entry)}
+                    >
+                      {t("review.accept")}
+                    </button>
+                    <button
+                      className="px-1 text-red-600 hover:underline"
+                      onClick={() => onReject(entry)}
+                    >
+                      {t("review.reject")}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { SHOT_TYPES } from "../constant";
+import {
+  findShotType,
+  localizedShotName,
+  normalizeLabel,
+} from "../utils/shots";
+import { useI18n } from "../hooks/useI18n";
+import type { BadmintonEvent, TimeUnit } from "../types";
+
+interface EventEditorProps {
+  event: BadmintonEvent;
+  timeUnit: TimeUnit;
+  onSave: (updated: BadmintonEvent) => void;
+  onCancel: () => void;
+}
+
+/**
+ * EventEditor Component
+ * * Inline form for correcting one detected event: label, player, t0 and t1.
+ * * Times are edited in the match's own time base (frames or seconds).
+ */
+export default function EventEditor({
+  event,
+  timeUnit,
+  onSave,
+  onCancel,
+}: EventEditorProps): JSX.Element {
+  const { locale, t } = useI18n();
+  const [label, setLabel] = useState(findShotType(event.label) ?? event.label);
+  const [trackId, setTrackId] = useState(String(event.track_id));
+  const [t0, setT0] = useState(String(event.t0));
+  const [t1, setT1] = useState(event.t1 === undefined ? "" : String(event.t1));
+  const [error, setError] = useState<string | null>(null);
+
+  const unit =
+    timeUnit === "frames" ? t("editor.unitFrame") : t("editor.unitSeconds");
+
+  // Keep labels the model emitted that are not in SHOT_TYPES selectable
+  const labelOptions = SHOT_TYPES.includes(label)
+    ? SHOT_TYPES
+    : [label, ...SHOT_TYPES];
+
+  const handleSave = () => {
+    const parsedTrack = Number(trackId);
+    const parsedT0 = Number(t0);
+    const parsedT1 = t1.trim() === "" ? undefined : Number(t1);
+
+    if (!Number.isInteger(parsedTrack))
+      return setError(t("editor.trackInvalid"));
+    if (t0.trim() === "" || !Number.isFinite(parsedT0) || parsedT0 < 0)
+      return setError(t("editor.startInvalid"));
+    if (
+      parsedT1 !== undefined &&
+      (!Number.isFinite(parsedT1) || parsedT1 < parsedT0)
+    )
+      return setError(t("editor.endInvalid"));
+
+    const unchanged =
+      normalizeLabel(label) === normalizeLabel(event.label) &&
+      parsedTrack === event.track_id &&
+      parsedT0 === event.t0 &&
+      parsedT1 === event.t1;
+    if (unchanged) return onCancel();
+
+    onSave({
+      ...event,
+      label,
+      track_id: parsedTrack,
+      t0: parsedT0,
+      t1: parsedT1,
+      corrected: true,
+    });
+  };
+
+  return (
+    <div
+      className="p-2 my-1 rounded border border-purple-300 bg-white space-y-2"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col text-xs font-medium">
+          {t("editor.shot")}
+          <select
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="border rounded p-1 text-sm font-normal"
+          >
+            {labelOptions.map((shot) => (
+              <option key={shot} value={shot}>
+                {localizedShotName(shot, locale)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs font-medium">
+          {t("editor.trackId")}
+          <input
+            type="number"
+            step={1}
+            value={trackId}
+            onChange={(e) => setTrackId(e.target.value)}
+            className="border rounded p-1 text-sm font-normal"
+          />
+        </label>
+        <label className="flex flex-col text-xs font-medium">
+          {t("editor.start", { unit })}
+          <input
+            type="number"
+            min={0}
+            step={timeUnit === "frames" ? 1 : 0.01}
+            value={t0}
+            onChange={(e) => setT0(e.target.value)}
+            className="border rounded p-1 text-sm font-normal"
+          />
+        </label>
+        <label className="flex flex-col text-xs font-medium">
+          {t("editor.end", { unit })}
+          <input
+            type="number"
+            min={0}
+            step={timeUnit === "frames" ? 1 : 0.01}
+            value={t1}
+            placeholder={t("editor.optional")}
+            onChange={(e) => setT1(e.target.value)}
+            className="border rounded p-1 text-sm font-normal"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-700">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          className="bg-gray-400 text-white px-3 py-1 rounded text-xs hover:bg-gray-500 transition"
+          onClick={onCancel}
+        >
+          {t("editor.cancel")}
+        </button>
+        <button
+          className="bg-purple-500 text-white px-3 py-1 rounded text-xs hover:bg-purple-600 transition"
+          onClick={handleSave}
+        >
+          {t("editor.save")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  DEFAULT_PRE_ROLL_SECONDS,
+  DEFAULT_POST_ROLL_SECONDS,
+} from "../constant";
+import {
+  clipWindows,
+  toFfmpegConcat,
+  toEDL,
+  toHighlightsJSON,
+} from "../utils/highlights";
+import type { ReelShot } from "../utils/highlights";
+import { downloadFile } from "../utils/exports";
+import { localizedShotName } from "../utils/shots";
+import { useI18n } from "../hooks/useI18n";
+
+interface HighlightReelProps {
+  candidates: ReelShot[]; // Shots passing the log filters, English labels
+  title: string;
+  sourceName: string;
+  fps: number;
+  duration: number;
+}
+
+const getVideo = () =>
+  document.getElementById("video-player") as HTMLVideoElement | null;
+
+/**
+ * HighlightReel Component
+ * * Builds a playlist from the filtered shots, plays the clips back to back
+ * * in the dashboard player and exports the clip list as an FFmpeg concat
+ * * script, a CMX 3600 EDL or JSON. Exports keep the English shot names.
+ */
+export default function HighlightReel({
+  candidates,
+  title,
+  sourceName,
+  fps,
+  duration,
+}: HighlightReelProps): JSX.Element {
+  const { locale, t } = useI18n();
+  const [shots, setShots] = useState<ReelShot[]>([]);
+  const [preRoll, setPreRoll] = useState(DEFAULT_PRE_ROLL_SECONDS);
+  const [postRoll, setPostRoll] = useState(DEFAULT_POST_ROLL_SECONDS);
+  const [playing, setPlaying] = useState<number | null>(null);
+
+  const windows = useMemo(
+    () => clipWindows(shots, { preRoll, postRoll }, duration),
+    [shots, preRoll, postRoll, duration],
+  );
+  const totalSeconds = windows.reduce((sum, w) => sum + w.end - w.start, 0);
+  const current = playing !== null ? windows[playing] : undefined;
+
+  // Play the current clip, moving on to the next once it passes its end
+  useEffect(() => {
+    const vid = getVideo();
+    if (!vid || !current) return;
+
+    vid.currentTime = current.start;
+    vid.play();
+    const handleTime = () => {
+      if (vid.currentTime < current.end) return;
+      if (playing !== null && playing + 1 < windows.length) {
+        setPlaying(playing + 1);
+      } else {
+        vid.pause();
+        setPlaying(null);
+      }
+    };
+    vid.addEventListener("timeupdate", handleTime);
+    return () => vid.removeEventListener("timeupdate", handleTime);
+  }, [playing, current, windows.length]);
+
+  const addCandidates = () => {
+    const inReel = new Set(shots.map((s) => s.id));
+    setShots([...shots, ...candidates.filter((c) => !inReel.has(c.id))]);
+  };
+
+  const moveShot = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= shots.length) return;
+    const next = [...shots];
+    [next[index], next[target]] = [next[target], next[index]];
+    setShots(next);
+    setPlaying(null);
+  };
+
+  const removeShot = (index: number) => {
+    setShots(shots.filter((_, i) => i !== index));
+    setPlaying(null);
+  };
+
+  const exportName = title.replace(/[^\w-]+/g, "_") || "highlights";
+  const exportOptions = { title, sourceName, fps, preRoll, postRoll };
+
+  return (
+    <div className="w-full max-w-7xl bg-white shadow-lg rounded-xl p-6 text-black">
+      <h3 className="font-semibold text-2xl text-center mb-2">
+        {t("reel.title")}
+      </h3>
+      <p className="text-center text-sm text-gray-500 mb-4">
+        {t("reel.hint")}
+      </p>
+
+      {/* Reel Settings */}
+      <div className="flex flex-wrap items-center justify-center gap-4 mb-4 text-sm">
+        <button
+          className="bg-purple-500 text-white px-4 py-1 rounded hover:bg-purple-600 transition disabled:opacity-50"
+          onClick={addCandidates}
+          disabled={candidates.length === 0}
+        >
+          {t(candidates.length === 1 ? "reel.addOne" : "reel.addMany", {
+            count: candidates.length,
+          })}
+        </button>
+        <label className="flex items-center gap-1">
+          {t("reel.preRoll")}
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={preRoll}
+            onChange={(e) => setPreRoll(Math.max(0, Number(e.target.value)))}
+            className="w-16 border rounded p-1"
+          />
+          {t("reel.seconds")}
+        </label>
+        <label className="flex items-center gap-1">
+          {t("reel.postRoll")}
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={postRoll}
+            onChange={(e) => setPostRoll(Math.max(0, Number(e.target.value)))}
+            className="w-16 border rounded p-1"
+          />
+          {t("reel.seconds")}
+        </label>
+        {shots.length > 0 && (
+          <button
+            className="text-gray-600 hover:text-gray-800 underline"
+            onClick={() => {
+              setShots([]);
+              setPlaying(null);
+            }}
+          >
+            {t("reel.clear")}
+          </button>
+        )}
+      </div>
+
+      {/* Clip List */}
+      {shots.length > 0 ? (
+        <div className="max-h-[280px] overflow-y-auto border rounded-lg">
+          <table className="w-full text-center text-sm">
+            <thead className="bg-gray-100 sticky top-0">
+              <tr>
+                <th className="border px-2 py-1">#</th>
+                <th className="border px-2 py-1">{t("reel.shot")}</th>
+                <th className="border px-2 py-1">{t("reel.clip")}</th>
+                <th className="border px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {windows.map((w, i) => (
+                <tr
+                  key={w.shot.id}
+                  className={
+                    playing === i ? "bg-purple-200 font-semibold" : undefined
+                  }
+                >
+                  <td className="border px-2 py-1">{i + 1}</td>
+                  <td className="border px-2 py-1">
+                    {t("reel.shotBy", {
+                      shot: localizedShotName(w.shot.label, locale),
+                      player: w.shot.playerName,
+                    })}
+                  </td>
+                  <td className="border px-2 py-1">
+                    {w.start.toFixed(1)}s – {w.end.toFixed(1)}s
+                  </td>
+                  <td className="border px-2 py-1 whitespace-nowrap">
+                    <button
+                      className="px-1 text-purple-700 hover:underline"
+                      onClick={() => setPlaying(i)}
+                    >
+                      {t("reel.play")}
+                    </button>
+                    <button
+                      className="px-1 disabled:opacity-30"
+                      onClick={() => moveShot(i, -1)}
+                      disabled={i === 0}
+                      title={t("reel.moveUp")}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="px-1 disabled:opacity-30"
+                      onClick={() => moveShot(i, 1)}
+                      disabled={i === shots.length - 1}
+                      title={t("reel.moveDown")}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="px-1 text-red-600 hover:underline"
+                      onClick={() => removeShot(i)}
+                    >
+                      {t("reel.remove")}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-center text-gray-500 italic text-sm">
+          {t("reel.empty")}
+        </p>
+      )}
+
+      {/* Playback & Export */}
+      {shots.length > 0 && (
+        <div className="flex flex-wrap justify-center items-center gap-3 mt-4 text-sm">
+          <span className="text-gray-600">
+            {t("reel.totals", {
+              count: shots.length,
+              seconds: totalSeconds.toFixed(1),
+            })}
+          </span>
+          {playing === null ? (
+            <button
+              className="bg-purple-500 text-white px-4 py-1 rounded hover:bg-purple-600 transition"
+              onClick={() => setPlaying(0)}
+            >
+              {t("reel.playReel")}
+            </button>
+          ) : (
+            <button
+              className="bg-gray-500 text-white px-4 py-1 rounded hover:bg-gray-600 transition"
+              onClick={() => {
+                getVideo()?.pause();
+                setPlaying(null);
+              }}
+            >
+              {t("reel.stop")}
+            </button>
+          )}
+          <button
+            className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300 transition"
+            onClick={() =>
+              downloadFile(
+                toFfmpegConcat(windows, sourceName),
+                `${exportName}.ffconcat`,
+                "text/plain;charset=utf-8;",
+              )
+            }
+          >
+            {t("reel.ffmpeg")}
+          </button>
+          <button
+            className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300 transition"
+            onClick={() =>
+              downloadFile(
+                toEDL(windows, exportOptions),
+                `${exportName}.edl`,
+                "text/plain;charset=utf-8;",
+              )
+            }
+          >
+            EDL
+          </button>
+          <button
+            className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300 transition"
+            onClick={() =>
+              downloadFile(
+                toHighlightsJSON(windows, exportOptions),
+                `${exportName}.json`,
+                "application/json",
+              )
+            }
+          >
+            JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
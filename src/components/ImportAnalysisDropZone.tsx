@@ -0,0 +1,71 @@
+import { useState } from "react";
+import type { DragEvent, ChangeEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { parseAnalysisBundle } from "../utils/analysisBundle";
+import { saveMatch } from "../utils/matchLibrary";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * ImportAnalysisDropZone Component
+ * * Accepts a file written by "Export analysis", saves it to the match
+ * * library and opens it on the dashboard. No pipeline or AI calls are made.
+ */
+export default function ImportAnalysisDropZone(): JSX.Element {
+  const { t } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const navigate = useNavigate();
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setImporting(true);
+
+    try {
+      const imported = parseAnalysisBundle(await file.text());
+      const record = await saveMatch(imported);
+      navigate(`/main/${record.id}`);
+    } catch (err: any) {
+      setError(t("import.failed", { error: err.message }));
+      setImporting(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    importFile(e.dataTransfer.files[0]);
+  };
+
+  const handleSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    importFile(e.target.files?.[0]);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="w-full max-w-2xl">
+      <div
+        onDrop={handleDrop}
+        onDragOver={(e) => e.preventDefault()}
+        onClick={() => document.getElementById("analysisImportInput")?.click()}
+        className="border-2 border-dashed border-purple-300 bg-white rounded-lg p-6 text-center text-gray-600 cursor-pointer hover:border-purple-500 hover:bg-purple-50 transition-colors"
+      >
+        <p className="text-base">
+          {importing ? t("import.importing") : t("import.prompt")}
+        </p>
+        <input
+          id="analysisImportInput"
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleSelect}
+        />
+      </div>
+      {error && (
+        <p className="text-center text-red-700 mt-2 text-sm whitespace-pre-line">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { Link } from "react-router-dom";
+import type { AnalysisJob, JobStatus } from "../hooks/useJobQueue";
+import { useI18n } from "../hooks/useI18n";
+import type { MessageKey } from "../utils/i18n";
+
+interface JobQueueListProps {
+  jobs: AnalysisJob[];
+  onRetry: (id: string) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, MessageKey> = {
+  queued: "jobs.status.queued",
+  uploading: "jobs.status.uploading",
+  processing: "jobs.status.processing",
+  analysing: "jobs.status.analysing",
+  paused: "jobs.status.paused",
+  done: "jobs.status.done",
+  failed: "jobs.status.failed",
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "bg-gray-200 text-gray-700",
+  uploading: "bg-blue-100 text-blue-800",
+  processing: "bg-purple-100 text-purple-800 animate-pulse",
+  analysing: "bg-purple-100 text-purple-800 animate-pulse",
+  paused: "bg-yellow-100 text-yellow-800",
+  done: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+/**
+ * JobQueueList Component
+ * * Shows the status of every video in the analysis queue, with a link to
+ * * each finished match, pause/resume for uploads and a retry button for
+ * * failures. Pipeline progress
+ * * is the server's time-based estimate.
+ */
+export default function JobQueueList({
+  jobs,
+  onRetry,
+  onPause,
+  onResume,
+  onClearFinished,
+}: JobQueueListProps): JSX.Element {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-6 w-full max-w-2xl px-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-semibold text-black">
+          {t("jobs.title")}
+        </h3>
+        {jobs.some((j) => j.status === "done") && (
+          <button
+            onClick={onClearFinished}
+            className="text-sm text-gray-600 hover:text-gray-800 underline"
+          >
+            {t("jobs.clearFinished")}
+          </button>
+        )}
+      </div>
+      <ul className="bg-white rounded-lg shadow p-4 space-y-3">
+        {jobs.map((job) => (
+          <li
+            key={job.id}
+            className="text-gray-800 border-b last:border-0 pb-3 last:pb-0"
+          >
+            <div className="flex justify-between items-center gap-4">
+              <span className="truncate">{job.fileName}</span>
+              <div className="flex items-center gap-3 shrink-0">
+                <span
+                  className={`text-xs font-medium px-2 py-1 rounded ${STATUS_STYLES[job.status]}`}
+                >
+                  {t(STATUS_LABELS[job.status])}
+                  {(job.status === "uploading" || job.status === "paused") &&
+                    ` ${job.uploadProgress}%`}
+                  {job.status === "processing" &&
+                    job.pipelineJobId &&
+                    ` ~${job.processingPercent}%`}
+                </span>
+                {job.status === "done" && job.matchId && (
+                  <Link
+                    to={`/main/${job.matchId}`}
+                    className="text-sm text-purple-700 hover:text-purple-900 underline"
+                  >
+                    {t("jobs.open")}
+                  </Link>
+                )}
+                {(job.status === "uploading" ||
+                  (job.status === "queued" && !job.uploadedKey)) && (
+                  <button
+                    onClick={() => onPause(job.id)}
+                    className="text-sm text-gray-600 hover:text-gray-800 underline"
+                  >
+                    {t("jobs.pause")}
+                  </button>
+                )}
+                {job.status === "paused" && (
+                  <button
+                    onClick={() => onResume(job.id)}
+                    className="text-sm bg-purple-500 text-white px-3 py-1 rounded hover:bg-purple-600 transition"
+                  >
+                    {t("jobs.resume")}
+                  </button>
+                )}
+                {job.status === "failed" && (
+                  <button
+                    onClick={() => onRetry(job.id)}
+                    className="text-sm bg-purple-500 text-white px-3 py-1 rounded hover:bg-purple-600 transition"
+                  >
+                    {t("jobs.retry")}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {(job.status === "uploading" || job.status === "paused") && (
+              <div className="bg-gray-300 h-2 rounded-full overflow-hidden shadow-inner mt-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
+                  style={{ width: `${job.uploadProgress}%` }}
+                />
+              </div>
+            )}
+            {job.status === "processing" && job.pipelineJobId && (
+              <div className="bg-gray-300 h-2 rounded-full overflow-hidden shadow-inner mt-2">
+                <div
+                  className="bg-purple-600 h-2 rounded-full transition-all duration-300 ease-out"
+                  style={{ width: `${job.processingPercent}%` }}
+                />
+              </div>
+            )}
+            {job.error && (
+              <p className="text-sm text-red-700 mt-1 whitespace-pre-line">
+                {job.error}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { LOCALES } from "../constant";
+import { useI18n } from "../hooks/useI18n";
+import type { Locale } from "../types";
+
+/**
+ * LanguageSwitcher Component
+ * * Picks the language of the UI, the AI analysis and the PDF report.
+ * * The choice is remembered in this browser.
+ */
+export default function LanguageSwitcher(): JSX.Element {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t("nav.language")}
+      title={t("nav.language")}
+      className="bg-transparent border border-purple-300 rounded px-2 py-1 text-sm text-white"
+    >
+      {LOCALES.map((l) => (
+        <option key={l.code} value={l.code} className="text-black">
+          {l.label}
+        </option>
+      ))}
+    </select>
+  );
+}
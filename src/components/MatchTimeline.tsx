@@ -0,0 +1,284 @@
+import { useState, useRef, useEffect, useMemo } from "react";
+import type { PointerEvent } from "react";
+import { SHOT_TYPES, OTHER_SHOT_TYPE } from "../constant";
+import { findShotType, localizedShotName, shotColor } from "../utils/shots";
+import { useI18n } from "../hooks/useI18n";
+import type { BadmintonEvent, TimeRange } from "../types";
+
+interface MatchTimelineProps {
+  events: BadmintonEvent[]; // Roster already applied
+  playerIds: number[];
+  nameOf: (playerId: number) => string;
+  toSeconds: (t: number) => number;
+  duration: number;
+  currentTime: number;
+  range: TimeRange | null;
+  onSeek: (time: number) => void;
+  onRangeChange: (range: TimeRange | null) => void;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16];
+const TICK_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800];
+const MAX_TICKS = 12;
+// Pointer travel (px) below which a press counts as a click, not a drag
+const DRAG_THRESHOLD = 4;
+
+const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, "0")}`;
+};
+
+/**
+ * MatchTimeline Component
+ * * A zoomable timeline with one lane per player. Each shot is a marker at
+ * * its t0 (spanning to t1), coloured by shot type. Click to seek; drag to
+ * * select a time range.
+ */
+export default function MatchTimeline({
+  events,
+  playerIds,
+  nameOf,
+  toSeconds,
+  duration,
+  currentTime,
+  range,
+  onSeek,
+  onRangeChange,
+}: MatchTimelineProps): JSX.Element {
+  const { locale, t } = useI18n();
+  const [zoom, setZoom] = useState(1);
+  const [drag, setDrag] = useState<{ startX: number; x: number } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const zoomBy = (step: 1 | -1) => {
+    const i = ZOOM_LEVELS.indexOf(zoom) + step;
+    setZoom(ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, Math.max(0, i))]);
+  };
+
+  const percent = (time: number) => `${(time / duration) * 100}%`;
+
+  // Pixel offset inside the (zoomed) track → video seconds
+  const timeAtX = (x: number) => {
+    const width = trackRef.current?.offsetWidth || 1;
+    return Math.min(duration, Math.max(0, (x / width) * duration));
+  };
+
+  const ticks = useMemo(() => {
+    const visibleSpan = duration / zoom;
+    const step =
+      TICK_STEPS.find((s) => visibleSpan / s <= MAX_TICKS) ??
+      TICK_STEPS[TICK_STEPS.length - 1];
+    return Array.from(
+      { length: Math.floor(duration / step) + 1 },
+      (_, i) => i * step,
+    );
+  }, [duration, zoom]);
+
+  const shotTypesShown = useMemo(() => {
+    const shown = SHOT_TYPES.filter((shot) =>
+      events.some((e) => findShotType(e.label) === shot),
+    );
+    return events.some((e) => !findShotType(e.label))
+      ? [...shown, OTHER_SHOT_TYPE]
+      : shown;
+  }, [events]);
+
+  // Keep the playhead in view while zoomed in
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || zoom === 1 || drag) return;
+    const x = (currentTime / duration) * container.scrollWidth;
+    if (
+      x < container.scrollLeft ||
+      x > container.scrollLeft + container.clientWidth
+    ) {
+      container.scrollLeft = x - container.clientWidth / 2;
+    }
+  }, [currentTime, duration, zoom, drag]);
+
+  // --- Pointer Handlers ---
+
+  const localX = (e: PointerEvent<HTMLDivElement>) =>
+    e.clientX - (trackRef.current?.getBoundingClientRect().left ?? 0);
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const x = localX(e);
+    setDrag({ startX: x, x });
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (drag) setDrag({ ...drag, x: localX(e) });
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const x = localX(e);
+    setDrag(null);
+
+    if (Math.abs(x - drag.startX) < DRAG_THRESHOLD) {
+      onSeek(timeAtX(x));
+      return;
+    }
+    const [a, b] = [timeAtX(drag.startX), timeAtX(x)].sort((p, q) => p - q);
+    onRangeChange({ start: a, end: b });
+  };
+
+  // Range shown while dragging, else the committed one
+  const shownRange: TimeRange | null =
+    drag && Math.abs(drag.x - drag.startX) >= DRAG_THRESHOLD
+      ? {
+          start: timeAtX(Math.min(drag.startX, drag.x)),
+          end: timeAtX(Math.max(drag.startX, drag.x)),
+        }
+      : range;
+
+  return (
+    <div className="w-full mt-3 text-black text-sm">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold">{t("timeline.title")}</span>
+          {range ? (
+            <>
+              <span className="text-purple-700">
+                {t("timeline.showing", {
+                  start: formatClock(range.start),
+                  end: formatClock(range.end),
+                })}
+              </span>
+              <button
+                className="text-xs underline text-gray-600 hover:text-gray-800"
+                onClick={() => onRangeChange(null)}
+              >
+                {t("timeline.clearRange")}
+              </button>
+            </>
+          ) : (
+            <span className="text-xs text-gray-500">
+              {t("timeline.hint")}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            className="bg-gray-200 px-2 rounded hover:bg-gray-300 disabled:opacity-50"
+            onClick={() => zoomBy(-1)}
+            disabled={zoom === ZOOM_LEVELS[0]}
+            title={t("timeline.zoomOut")}
+          >
+            −
+          </button>
+          <span className="w-8 text-center">{zoom}x</span>
+          <button
+            className="bg-gray-200 px-2 rounded hover:bg-gray-300 disabled:opacity-50"
+            onClick={() => zoomBy(1)}
+            disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+            title={t("timeline.zoomIn")}
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div className="flex border rounded-lg bg-gray-50">
+        {/* Lane Labels */}
+        <div className="shrink-0 w-28 border-r">
+          <div className="h-5" />
+          {playerIds.map((id) => (
+            <div key={id} className="h-7 px-2 flex items-center truncate">
+              {nameOf(id)}
+            </div>
+          ))}
+        </div>
+
+        {/* Zoomable Track */}
+        <div ref={scrollRef} className="flex-1 overflow-x-auto">
+          <div
+            ref={trackRef}
+            className="relative select-none cursor-crosshair touch-none"
+            style={{ width: `${zoom * 100}%` }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {/* Time Axis */}
+            <div className="relative h-5 border-b text-[10px] text-gray-500">
+              {ticks.map((tick) => (
+                <span
+                  key={tick}
+                  className="absolute top-0 pl-0.5 border-l border-gray-300 h-full"
+                  style={{ left: percent(tick) }}
+                >
+                  {formatClock(tick)}
+                </span>
+              ))}
+            </div>
+
+            {/* Player Lanes */}
+            {playerIds.map((id) => (
+              <div key={id} className="relative h-7 border-b last:border-0">
+                {events
+                  .filter((e) => e.track_id === id)
+                  .map((e, i) => {
+                    const start = toSeconds(e.t0);
+                    const end = e.t1 !== undefined ? toSeconds(e.t1) : start;
+                    return (
+                      <div
+                        key={i}
+                        className="absolute top-1 bottom-1 rounded-sm opacity-90"
+                        title={t("timeline.marker", {
+                          shot: localizedShotName(
+                            findShotType(e.label) ?? e.label,
+                            locale,
+                          ),
+                          time: start.toFixed(1),
+                        })}
+                        style={{
+                          left: percent(start),
+                          width: `max(3px, ${((end - start) / duration) * 100}%)`,
+                          backgroundColor: shotColor(e.label),
+                        }}
+                      />
+                    );
+                  })}
+              </div>
+            ))}
+
+            {/* Selected Range */}
+            {shownRange && (
+              <div
+                className="absolute top-0 bottom-0 bg-purple-400/20 border-x border-purple-500 pointer-events-none"
+                style={{
+                  left: percent(shownRange.start),
+                  width: percent(shownRange.end - shownRange.start),
+                }}
+              />
+            )}
+
+            {/* Playhead */}
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-red-600 pointer-events-none"
+              style={{ left: percent(currentTime) }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Shot Colour Legend */}
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-xs">
+        {shotTypesShown.map((shot) => (
+          <span key={shot} className="flex items-center gap-1">
+            <span
+              className="inline-block w-3 h-3 rounded-sm"
+              style={{ backgroundColor: shotColor(shot) }}
+            />
+            {localizedShotName(shot, locale)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import {
+  mergeTrack,
+  playerName,
+  playerNameIssue,
+  renamePlayer,
+  resolvePlayerId,
+} from "../utils/roster";
+import type { PlayerNameIssue } from "../utils/roster";
+import type { MessageKey } from "../utils/i18n";
+import type { PlayerRoster } from "../types";
+
+const NAME_ISSUES: Record<PlayerNameIssue, MessageKey> = {
+  duplicate: "roster.issue.duplicate",
+  reserved: "roster.issue.reserved",
+};
+
+interface PlayerRosterEditorProps {
+  trackIds: number[];
+  trackCounts: Record<number, number>; // Shots detected per raw track_id
+  roster: PlayerRoster;
+  onChange: (roster: PlayerRoster) => void;
+}
+
+/**
+ * PlayerRosterEditor Component
+ * * Assigns real names to tracker IDs and merges swapped or re-spawned tracks
+ * * into a single player. Names clashing with another player are kept as a
+ * * draft and not saved.
+ */
+export default function PlayerRosterEditor({
+  trackIds,
+  trackCounts,
+  roster,
+  onChange,
+}: PlayerRosterEditorProps): JSX.Element {
+  const { t } = useI18n();
+  // Tracks that are players in their own right (not merged elsewhere)
+  const canonicalIds = trackIds.filter(
+    (id) => resolvePlayerId(roster, id) === id,
+  );
+  // Names being typed that cannot be saved yet, with the reason
+  const [drafts, setDrafts] = useState<
+    Record<number, { name: string; issue: PlayerNameIssue }>
+  >({});
+
+  const handleRename = (playerId: number, name: string) => {
+    const issue = playerNameIssue(roster, trackIds, playerId, name);
+    setDrafts((prev) => {
+      const { [playerId]: _, ...rest } = prev;
+      return issue ? { ...rest, [playerId]: { name, issue } } : rest;
+    });
+    if (!issue) onChange(renamePlayer(roster, playerId, name));
+  };
+
+  return (
+    <div className="w-full max-w-7xl bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black">
+      <h3 className="font-semibold text-2xl text-center mb-2">
+        {t("roster.title")}
+      </h3>
+      <p className="text-center text-sm text-gray-500 mb-4">
+        {t("roster.description")}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border border-gray-200 text-center text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="border px-2 py-1">{t("roster.trackId")}</th>
+              <th className="border px-2 py-1">{t("roster.shots")}</th>
+              <th className="border px-2 py-1">{t("roster.belongsTo")}</th>
+              <th className="border px-2 py-1">{t("roster.playerName")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trackIds.map((trackId, idx) => {
+              const playerId = resolvePlayerId(roster, trackId);
+              const isCanonical = playerId === trackId;
+              const draft = drafts[trackId];
+              return (
+                <tr
+                  key={trackId}
+                  className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                >
+                  <td className="border px-2 py-1 font-medium">{trackId}</td>
+                  <td className="border px-2 py-1">
+                    {trackCounts[trackId] ?? 0}
+                  </td>
+                  <td className="border px-2 py-1">
+                    <select
+                      value={playerId}
+                      onChange={(e) =>
+                        onChange(
+                          mergeTrack(roster, trackId, Number(e.target.value)),
+                        )
+                      }
+                      className="bg-white border rounded p-1"
+                    >
+                      <option value={trackId}>{t("roster.separate")}</option>
+                      {canonicalIds
+                        .filter((id) => id !== trackId)
+                        .map((id) => (
+                          <option key={id} value={id}>
+                            {playerName(roster, id)}
+                          </option>
+                        ))}
+                    </select>
+                  </td>
+                  <td className="border px-2 py-1">
+                    {isCanonical ? (
+                      <>
+                        <input
+                          value={draft?.name ?? roster.names[trackId] ?? ""}
+                          placeholder={playerName(roster, trackId)}
+                          onChange={(e) =>
+                            handleRename(trackId, e.target.value)
+                          }
+                          aria-invalid={!!draft}
+                          className={`w-full border rounded p-1 ${
+                            draft ? "border-red-500" : ""
+                          }`}
+                        />
+                        {draft && (
+                          <p className="text-xs text-red-600 mt-1">
+                            {t(NAME_ISSUES[draft.issue])}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-gray-500 italic">
+                        {t("roster.mergedInto", {
+                          player: playerName(roster, playerId),
+                        })}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
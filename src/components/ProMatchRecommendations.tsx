@@ -0,0 +1,54 @@
+import type { ProMatchRecommendation } from "../types";
+import { useI18n } from "../hooks/useI18n";
+
+interface ProMatchRecommendationsProps {
+  recommendations?: ProMatchRecommendation[];
+}
+
+/**
+ * ProMatchRecommendations Component
+ * * Professionals with a similar playing style to each analysed player, with
+ * * a YouTube match to study where one was found.
+ */
+export default function ProMatchRecommendations({
+  recommendations,
+}: ProMatchRecommendationsProps): JSX.Element {
+  const { t } = useI18n();
+
+  if (!recommendations || recommendations.length === 0) {
+    return (
+      <span className="text-gray-500 italic">{t("pro.placeholder")}</span>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {recommendations.map((rec, idx) => (
+        <div key={idx}>
+          <div className="text-sm text-gray-600">
+            {t("pro.forPlayer", { player: rec.player, style: rec.style })}
+          </div>
+          <span className="text-black font-medium">{rec.proName}</span>
+          {rec.link ? (
+            <>
+              <span className="text-gray-600"> - </span>
+              <a
+                href={rec.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-purple-700 hover:text-purple-900 underline break-all"
+              >
+                {rec.link}
+              </a>
+            </>
+          ) : (
+            <span className="text-gray-500 italic">
+              {" "}
+              - {t("pro.noVideo")}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
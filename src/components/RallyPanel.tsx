@@ -0,0 +1,82 @@
+import type { Rally } from "../types";
+import { useI18n } from "../hooks/useI18n";
+
+interface RallyPanelProps {
+  rallies: Rally[];
+  currentTime: number;
+  activeRally: number | null;
+  nameOf: (playerId: number) => string;
+  onPlayRally: (rally: Rally) => void;
+}
+
+/**
+ * RallyPanel Component
+ * * Lists every rally with its duration, shot count and hitters.
+ * * Clicking a row plays just that rally in the dashboard video.
+ */
+export default function RallyPanel({
+  rallies,
+  currentTime,
+  activeRally,
+  nameOf,
+  onPlayRally,
+}: RallyPanelProps): JSX.Element {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full max-w-7xl bg-white shadow-lg rounded-xl p-6 text-black">
+      <h3 className="font-semibold text-2xl text-center mb-2">
+        {t("rallies.title")}
+      </h3>
+      <p className="text-center text-sm text-gray-500 mb-4">
+        {t("rallies.hint", { count: rallies.length })}
+      </p>
+
+      <div className="max-h-[320px] overflow-y-auto border rounded-lg">
+        <table className="w-full text-center text-sm">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              <th className="border px-2 py-1">#</th>
+              <th className="border px-2 py-1">{t("rallies.start")}</th>
+              <th className="border px-2 py-1">{t("rallies.duration")}</th>
+              <th className="border px-2 py-1">{t("rallies.shots")}</th>
+              <th className="border px-2 py-1">{t("rallies.hitters")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rallies.map((rally) => {
+              const isPlaying = activeRally === rally.index;
+              const isCurrent =
+                currentTime >= rally.start && currentTime <= rally.end;
+              return (
+                <tr
+                  key={rally.index}
+                  onClick={() => onPlayRally(rally)}
+                  className={`cursor-pointer transition-colors ${
+                    isPlaying
+                      ? "bg-purple-200 font-semibold"
+                      : isCurrent
+                        ? "bg-purple-50"
+                        : "hover:bg-gray-100"
+                  }`}
+                >
+                  <td className="border px-2 py-1">{rally.index}</td>
+                  <td className="border px-2 py-1">
+                    {rally.start.toFixed(1)}s
+                  </td>
+                  <td className="border px-2 py-1">
+                    {rally.duration.toFixed(1)}s
+                  </td>
+                  <td className="border px-2 py-1">{rally.shotCount}</td>
+                  <td className="border px-2 py-1">
+                    {rally.hitters.map(nameOf).join(", ")}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
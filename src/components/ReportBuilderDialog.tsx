@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { REPORT_SECTIONS } from "../constant";
+import { useI18n } from "../hooks/useI18n";
+import {
+  listReportPresets,
+  saveReportPreset,
+  deleteReportPreset,
+} from "../utils/reportPresets";
+import type { ReportConfig, ReportSectionId } from "../types";
+import type { MessageKey } from "../utils/i18n";
+
+interface ReportBuilderDialogProps {
+  filterSummary: string | null; // Active dashboard filters, null when none
+  onGenerate: (config: ReportConfig) => void;
+  onClose: () => void;
+}
+
+const sectionLabel = (id: ReportSectionId) =>
+  REPORT_SECTIONS.find((s) => s.id === id)!.label;
+
+/**
+ * ReportBuilderDialog Component
+ * * Picks and orders the PDF report's sections, adds a coach's foreword and
+ * * optionally limits the data to the dashboard filters. Configurations can
+ * * be saved as presets for one-click reports.
+ */
+export default function ReportBuilderDialog({
+  filterSummary,
+  onGenerate,
+  onClose,
+}: ReportBuilderDialogProps): JSX.Element {
+  const { t } = useI18n();
+  const [presets, setPresets] = useState(listReportPresets);
+  const [presetId, setPresetId] = useState(presets[0].id);
+  const [config, setConfig] = useState<ReportConfig>(presets[0].config);
+  const [presetName, setPresetName] = useState("");
+
+  const selectedPreset = presets.find((p) => p.id === presetId);
+
+  // Included sections in report order, then the excluded ones
+  const excluded = REPORT_SECTIONS.map((s) => s.id).filter(
+    (id) => !config.sections.includes(id),
+  );
+
+  const updateConfig = (changes: Partial<ReportConfig>) => {
+    setConfig({ ...config, ...changes });
+    setPresetId("");
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (!preset) return;
+    setPresetId(id);
+    setConfig(preset.config);
+  };
+
+  const toggleSection = (id: ReportSectionId) =>
+    updateConfig({
+      sections: config.sections.includes(id)
+        ? config.sections.filter((s) => s !== id)
+        : [...config.sections, id],
+    });
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= config.sections.length) return;
+    const sections = [...config.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    updateConfig({ sections });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset = saveReportPreset(name, config);
+    setPresets(listReportPresets());
+    setPresetId(preset.id);
+    setPresetName("");
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    deleteReportPreset(selectedPreset.id);
+    setPresets(listReportPresets());
+    setPresetId("");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 text-black">
+        <h3 className="font-semibold text-2xl text-center mb-4">
+          {t("builder.title")}
+        </h3>
+
+        {/* Presets */}
+        <div className="flex items-center gap-2 mb-4 text-sm">
+          <label htmlFor="report-preset" className="font-medium">
+            {t("builder.preset")}
+          </label>
+          <select
+            id="report-preset"
+            value={presetId}
+            onChange={(e) => applyPreset(e.target.value)}
+            className="flex-1 border rounded p-1"
+          >
+            {presetId === "" && (
+              <option value="">{t("builder.custom")}</option>
+            )}
+            {presets.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.builtIn ? t(p.name as MessageKey) : p.name}
+              </option>
+            ))}
+          </select>
+          {selectedPreset && !selectedPreset.builtIn && (
+            <button
+              className="text-red-600 hover:underline"
+              onClick={handleDeletePreset}
+            >
+              {t("builder.delete")}
+            </button>
+          )}
+        </div>
+
+        {/* Sections */}
+        <h4 className="font-semibold mb-1">{t("builder.sections")}</h4>
+        <ul className="border rounded-lg divide-y mb-4 text-sm">
+          {config.sections.map((id, idx) => (
+            <li key={id} className="flex items-center gap-2 px-3 py-1.5">
+              <input
+                type="checkbox"
+                checked
+                onChange={() => toggleSection(id)}
+              />
+              <span className="flex-1">{t(sectionLabel(id))}</span>
+              <button
+                className="px-1 disabled:opacity-30"
+                onClick={() => moveSection(idx, -1)}
+                disabled={idx === 0}
+                title={t("builder.moveUp")}
+              >
+                ↑
+              </button>
+              <button
+                className="px-1 disabled:opacity-30"
+                onClick={() => moveSection(idx, 1)}
+                disabled={idx === config.sections.length - 1}
+                title={t("builder.moveDown")}
+              >
+                ↓
+              </button>
+            </li>
+          ))}
+          {excluded.map((id) => (
+            <li
+              key={id}
+              className="flex items-center gap-2 px-3 py-1.5 text-gray-400"
+            >
+              <input
+                type="checkbox"
+                checked={false}
+                onChange={() => toggleSection(id)}
+              />
+              <span className="flex-1">{t(sectionLabel(id))}</span>
+            </li>
+          ))}
+        </ul>
+
+        {/* Foreword */}
+        <label htmlFor="report-foreword" className="font-semibold block mb-1">
+          {t("builder.foreword")}
+        </label>
+        <textarea
+          id="report-foreword"
+          value={config.foreword}
+          onChange={(e) => updateConfig({ foreword: e.target.value })}
+          placeholder={t("builder.forewordPlaceholder")}
+          rows={4}
+          className="w-full border rounded-lg p-2 text-sm mb-4"
+        />
+
+        {/* Filters */}
+        <label className="flex items-start gap-2 text-sm mb-4">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={config.applyFilters}
+            onChange={(e) => updateConfig({ applyFilters: e.target.checked })}
+          />
+          <span>
+            {t("builder.applyFilters")}
+            <span className="block text-gray-500">
+              {filterSummary
+                ? t("builder.filtersActive", { filter: filterSummary })
+                : t("builder.noFilters")}
+            </span>
+          </span>
+        </label>
+
+        {/* Save Preset */}
+        <div className="flex gap-2 mb-6 text-sm">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder={t("builder.presetNamePlaceholder")}
+            className="flex-1 border rounded p-1"
+          />
+          <button
+            className="bg-gray-200 px-3 py-1 rounded hover:bg-gray-300 transition disabled:opacity-50"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+          >
+            {t("builder.savePreset")}
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            className="px-4 py-2 rounded-lg border hover:bg-gray-50 transition"
+            onClick={onClose}
+          >
+            {t("builder.cancel")}
+          </button>
+          <button
+            className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition disabled:opacity-50"
+            onClick={() => onGenerate(config)}
+            disabled={config.sections.length === 0 && !config.foreword.trim()}
+          >
+            {t("builder.generate")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import { PLAYBACK_SPEEDS } from "../constant";
+import { frameAt } from "../hooks/useVideoReview";
+import type { ReviewShot } from "../hooks/useVideoReview";
+import { useI18n } from "../hooks/useI18n";
+import type { MessageKey } from "../utils/i18n";
+
+interface ReviewToolbarProps {
+  fps: number;
+  speed: number;
+  loopShot: ReviewShot | null;
+  onSpeedChange: (speed: number) => void;
+  onToggleLoop: () => void;
+  onStepFrame: (direction: 1 | -1) => void;
+  onStepShot: (direction: 1 | -1) => void;
+}
+
+const SHORTCUTS: [string, MessageKey][] = [
+  ["Space", "toolbar.shortcut.play"],
+  ["← →", "toolbar.shortcut.frame"],
+  ["↑ ↓", "toolbar.shortcut.shot"],
+  ["[ ]", "toolbar.shortcut.speed"],
+  ["L", "toolbar.shortcut.loop"],
+];
+
+/**
+ * ReviewToolbar Component
+ * * Controls for review mode: a live frame counter at the match fps, frame
+ * * and shot stepping, playback speed and shot looping, with a shortcut key.
+ */
+export default function ReviewToolbar({
+  fps,
+  speed,
+  loopShot,
+  onSpeedChange,
+  onToggleLoop,
+  onStepFrame,
+  onStepShot,
+}: ReviewToolbarProps): JSX.Element {
+  const { t } = useI18n();
+  const [time, setTime] = useState(0);
+
+  // `timeupdate` fires only a few times a second; poll every animation frame
+  useEffect(() => {
+    let frameId = 0;
+    const tick = () => {
+      const vid = document.getElementById("video-player") as HTMLVideoElement;
+      if (vid) setTime(vid.currentTime);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  const buttonClass =
+    "bg-gray-200 px-2 py-1 rounded hover:bg-gray-300 transition";
+
+  return (
+    <div className="w-full bg-gray-50 border rounded-lg p-3 mt-3 text-black text-sm">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <span className="font-mono bg-black text-white px-2 py-1 rounded">
+          {t("toolbar.frameCounter", {
+            frame: frameAt(time, fps),
+            time: time.toFixed(3),
+            fps,
+          })}
+        </span>
+
+        <div className="flex gap-1">
+          <button className={buttonClass} onClick={() => onStepShot(-1)}>
+            {t("toolbar.prevShot")}
+          </button>
+          <button className={buttonClass} onClick={() => onStepFrame(-1)}>
+            {t("toolbar.prevFrame")}
+          </button>
+          <button className={buttonClass} onClick={() => onStepFrame(1)}>
+            {t("toolbar.nextFrame")}
+          </button>
+          <button className={buttonClass} onClick={() => onStepShot(1)}>
+            {t("toolbar.nextShot")}
+          </button>
+        </div>
+
+        <label className="flex items-center gap-1">
+          <span className="font-medium">{t("toolbar.speed")}</span>
+          <select
+            value={speed}
+            onChange={(e) => onSpeedChange(Number(e.target.value))}
+            className="bg-white border rounded p-1"
+          >
+            {PLAYBACK_SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}x
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          className={`px-2 py-1 rounded border transition ${
+            loopShot
+              ? "bg-purple-500 text-white border-purple-500"
+              : "bg-white text-purple-700 border-purple-300 hover:bg-purple-50"
+          }`}
+          onClick={onToggleLoop}
+        >
+          {loopShot
+            ? t("toolbar.looping", {
+                start: loopShot.start.toFixed(2),
+                end: loopShot.end.toFixed(2),
+              })
+            : t("toolbar.loopShot")}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+        {SHORTCUTS.map(([key, action]) => (
+          <span key={key}>
+            <kbd className="font-mono bg-white border rounded px-1">{key}</kbd>{" "}
+            {t(action)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+
+interface RichTextProps {
+  text: string; // Translated message with <tag>...</tag> spans
+  tags: Record<string, string>; // Tag name → class name of its span
+}
+
+const TAG_PATTERN = /<(\w+)>(.*?)<\/\1>/g;
+
+/**
+ * RichText Component
+ * * Renders a translated message whose `<tag>...</tag>` spans are styled,
+ * * so each language can place the emphasis where its word order needs it.
+ */
+export default function RichText({ text, tags }: RichTextProps): JSX.Element {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const at = match.index ?? 0;
+    nodes.push(text.slice(last, at));
+    nodes.push(
+      <span key={at} className={tags[match[1]]}>
+        {match[2]}
+      </span>,
+    );
+    last = at + match[0].length;
+  }
+  nodes.push(text.slice(last));
+  return <>{nodes}</>;
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import {
+  listShareLinks,
+  createShareLink,
+  revokeShareLink,
+  shareUrl,
+} from "../utils/shareLinks";
+import type { ShareLink } from "../utils/shareLinks";
+import type { MatchRecord } from "../types";
+
+interface ShareDialogProps {
+  match: MatchRecord; // Snapshot to publish, with current corrections
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: (number | null)[] = [null, 1, 7, 30];
+
+/**
+ * ShareDialog Component
+ * * Creates read-only links to the current match, lists the links created
+ * * from this browser and revokes them.
+ */
+export default function ShareDialog({
+  match,
+  onClose,
+}: ShareDialogProps): JSX.Element {
+  const { locale, t } = useI18n();
+  const [links, setLinks] = useState(() => listShareLinks(match.id));
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [busy, setBusy] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await createShareLink(match, expiryDays);
+      setLinks(listShareLinks(match.id));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm(t("share.confirmRevoke"))) return;
+    setError(null);
+    try {
+      await revokeShareLink(link);
+      setLinks(listShareLinks(match.id));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.id));
+      setCopiedId(link.id);
+    } catch {
+      setError(t("share.copyFailed"));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 text-black">
+        <h3 className="font-semibold text-2xl text-center mb-2">
+          {t("share.title")}
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {t("share.description")}
+        </p>
+
+        {/* New Link */}
+        <div className="flex items-center gap-2 mb-4 text-sm">
+          <label htmlFor="share-expiry" className="font-medium">
+            {t("share.expires")}
+          </label>
+          <select
+            id="share-expiry"
+            value={expiryDays ?? ""}
+            onChange={(e) =>
+              setExpiryDays(
+                e.target.value === "" ? null : Number(e.target.value),
+              )
+            }
+            className="flex-1 border rounded p-1"
+          >
+            {EXPIRY_OPTIONS.map((days) => (
+              <option key={days ?? "never"} value={days ?? ""}>
+                {days === null
+                  ? t("share.expiry.never")
+                  : t("share.expiry.days", { count: days })}
+              </option>
+            ))}
+          </select>
+          <button
+            className="bg-purple-600 text-white px-4 py-1 rounded hover:bg-purple-700 transition disabled:opacity-50"
+            onClick={handleCreate}
+            disabled={busy}
+          >
+            {busy ? t("share.creating") : t("share.create")}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        {/* Existing Links */}
+        <h4 className="font-semibold mb-1">{t("share.activeLinks")}</h4>
+        {links.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-6">
+            {t("share.noLinks")}
+          </p>
+        ) : (
+          <ul className="border rounded-lg divide-y mb-6 text-sm">
+            {links.map((link) => (
+              <li key={link.id} className="px-3 py-2">
+                <input
+                  readOnly
+                  value={shareUrl(link.id)}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full border rounded p-1 font-mono text-xs mb-1"
+                />
+                <div className="flex items-center gap-3 text-gray-600">
+                  <span className="flex-1">
+                    {link.expiresAt
+                      ? t("share.expiresAt", {
+                          date: new Date(link.expiresAt).toLocaleString(locale),
+                        })
+                      : t("share.neverExpires")}
+                  </span>
+                  <button
+                    className="text-purple-700 hover:underline"
+                    onClick={() => handleCopy(link)}
+                  >
+                    {copiedId === link.id ? t("share.copied") : t("share.copy")}
+                  </button>
+                  <button
+                    className="text-red-600 hover:underline"
+                    onClick={() => handleRevoke(link)}
+                  >
+                    {t("share.revoke")}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            className="px-4 py-2 rounded-lg border hover:bg-gray-50 transition"
+            onClick={onClose}
+          >
+            {t("share.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useMemo } from "react";
+import { SHOT_TYPES } from "../constant";
+import { useI18n } from "../hooks/useI18n";
+import { localizedShotName } from "../utils/shots";
+import { topTransitions } from "../utils/transitions";
+import type { TransitionMatrix } from "../utils/transitions";
+
+interface TransitionHeatmapProps {
+  matrix: TransitionMatrix;
+  playerIds: number[];
+  nameOf: (playerId: number) => string;
+  onDownloadCSV: () => void;
+}
+
+/**
+ * TransitionHeatmap Component
+ * * Shows what a player plays in reply to each opponent shot as a heatmap,
+ * * plus the player's most frequent reply patterns.
+ */
+export default function TransitionHeatmap({
+  matrix,
+  playerIds,
+  nameOf,
+  onDownloadCSV,
+}: TransitionHeatmapProps): JSX.Element {
+  const { locale, t } = useI18n();
+  const [player, setPlayer] = useState<number>(playerIds[0]);
+
+  // Fall back to the first player if the selected one disappears
+  const activePlayer = playerIds.includes(player) ? player : playerIds[0];
+  const counts = matrix[activePlayer];
+
+  const maxCount = useMemo(() => {
+    if (!counts) return 0;
+    return Math.max(
+      0,
+      ...SHOT_TYPES.flatMap((from) => SHOT_TYPES.map((to) => counts[from][to])),
+    );
+  }, [counts]);
+
+  const topPatterns = useMemo(
+    () => topTransitions(matrix, activePlayer),
+    [matrix, activePlayer],
+  );
+
+  const shotName = (shot: string) => localizedShotName(shot, locale);
+
+  return (
+    <div className="w-full max-w-7xl bg-white shadow-md hover:shadow-lg transition-shadow duration-300 rounded-xl p-6 flex flex-col text-black">
+      <h3 className="font-semibold text-2xl text-center mb-2">
+        {t("transitions.title")}
+      </h3>
+      <div className="flex items-center gap-2 justify-center mb-4 text-sm">
+        <span className="font-medium">{t("transitions.repliesBy")}</span>
+        <select
+          value={activePlayer}
+          onChange={(e) => setPlayer(Number(e.target.value))}
+          className="bg-white border rounded p-1"
+        >
+          {playerIds.map((id) => (
+            <option key={id} value={id}>
+              {nameOf(id)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Heatmap Grid */}
+        <div className="flex-1 overflow-x-auto">
+          <table className="border-collapse text-xs mx-auto">
+            <thead>
+              <tr>
+                <th className="p-1 text-right text-gray-500 font-normal">
+                  {t("transitions.axes")}
+                </th>
+                {SHOT_TYPES.map((to) => (
+                  <th
+                    key={to}
+                    className="p-1 font-medium align-bottom [writing-mode:vertical-rl] rotate-180"
+                  >
+                    {shotName(to)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {SHOT_TYPES.map((from) => (
+                <tr key={from}>
+                  <th className="p-1 pr-2 text-right font-medium whitespace-nowrap">
+                    {shotName(from)}
+                  </th>
+                  {SHOT_TYPES.map((to) => {
+                    const count = counts?.[from][to] ?? 0;
+                    const intensity = maxCount ? count / maxCount : 0;
+                    return (
+                      <td
+                        key={to}
+                        title={`${shotName(from)} → ${shotName(to)}: ${count}`}
+                        className="w-8 h-8 border border-gray-200 text-center"
+                        style={{
+                          backgroundColor: `rgba(124, 58, 237, ${intensity})`,
+                          color: intensity > 0.5 ? "white" : "black",
+                        }}
+                      >
+                        {count || ""}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Top Patterns */}
+        <div className="w-full lg:w-[280px]">
+          <h4 className="font-semibold text-center mb-2">
+            {t("transitions.topPatterns", { player: nameOf(activePlayer) })}
+          </h4>
+          {topPatterns.length > 0 ? (
+            <ol className="list-decimal list-inside space-y-1 text-sm">
+              {topPatterns.map((p) => (
+                <li key={`${p.from}-${p.to}`}>
+                  <span className="font-medium">{shotName(p.from)}</span> →{" "}
+                  <span className="font-medium">{shotName(p.to)}</span>{" "}
+                  <span className="text-gray-500">
+                    ({p.count}×, {Math.round(p.share * 100)}%)
+                  </span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-center text-gray-500 italic text-sm">
+              {t("transitions.none")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-center mt-6">
+        <button
+          className="bg-purple-500 text-white px-5 py-2 rounded text-sm hover:bg-purple-600 transition"
+          onClick={onDownloadCSV}
+        >
+          {t("transitions.download")}
+        </button>
+      </div>
+    </div>
+  );
+}
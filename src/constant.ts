@@ -1,19 +1,16 @@
+import type {
+  Locale,
+  ReportPreset,
+  ReportSectionId,
+  ShotCategory,
+  ShotTypeDefinition,
+} from "./types";
+import type { MessageKey } from "./utils/i18n";
+
 export const DEFAULT_FPS = 30;
 
-export const SHOT_TYPES = [
-  "Smash",
-  "Jump Smash",
-  "Block",
-  "Drop",
-  "Clear",
-  "Lift",
-  "Drive",
-  "Straight Net",
-  "Cross Net",
-  "Serve",
-  "Push",
-  "Tap",
-];
+// Bump when the persisted ModelResult shape changes and add a migration
+export const MODEL_RESULT_SCHEMA_VERSION = 2;
 
 export const CHART_COLORS = [
   "#8884d8",
@@ -30,3 +27,201 @@ export const CHART_COLORS = [
   "#ca82d1",
   "#84d888",
 ];
+
+export const SHOT_CATEGORIES: ShotCategory[] = [
+  "Offensive",
+  "Defensive/Neutral",
+  "Net Play",
+];
+
+// Category names in the other locales, like the taxonomy's `translations`
+export const SHOT_CATEGORY_TRANSLATIONS: Record<
+  ShotCategory,
+  Partial<Record<Locale, string>>
+> = {
+  Offensive: { ms: "Menyerang", zh: "进攻" },
+  "Defensive/Neutral": { ms: "Bertahan/Neutral", zh: "防守/过渡" },
+  "Net Play": { ms: "Permainan Jaring", zh: "网前" },
+};
+
+/**
+ * The shot taxonomy: the single place to add, rename or regroup shots.
+ * `aliases` are extra model labels mapped onto the shot (matching ignores
+ * case and underscores); labels matching nothing count as OTHER_SHOT_TYPE.
+ * `translations` give the shot's name in the other locales; `name` is the
+ * English one and stays the key everywhere else.
+ */
+export const SHOT_TAXONOMY: ShotTypeDefinition[] = [
+  {
+    name: "Smash",
+    category: "Offensive",
+    aliases: [],
+    color: CHART_COLORS[0],
+    translations: { ms: "Rejaman", zh: "杀球" },
+  },
+  {
+    name: "Jump Smash",
+    category: "Offensive",
+    aliases: ["jumpsmash"],
+    color: CHART_COLORS[1],
+    translations: { ms: "Rejaman Lompat", zh: "跳杀" },
+  },
+  {
+    name: "Block",
+    category: "Defensive/Neutral",
+    aliases: ["smash defence", "smash defense"],
+    color: CHART_COLORS[2],
+    translations: { ms: "Sekatan", zh: "接杀" },
+  },
+  {
+    name: "Drop",
+    category: "Net Play",
+    aliases: ["drop shot", "dropshot"],
+    color: CHART_COLORS[3],
+    translations: { ms: "Pukulan Jatuh", zh: "吊球" },
+  },
+  {
+    name: "Clear",
+    category: "Defensive/Neutral",
+    aliases: ["high clear"],
+    color: CHART_COLORS[4],
+    translations: { ms: "Pukulan Tinggi", zh: "高远球" },
+  },
+  {
+    name: "Lift",
+    category: "Defensive/Neutral",
+    aliases: ["lob"],
+    color: CHART_COLORS[5],
+    translations: { ms: "Pukulan Angkat", zh: "挑球" },
+  },
+  {
+    name: "Drive",
+    category: "Offensive",
+    aliases: [],
+    color: CHART_COLORS[6],
+    translations: { ms: "Pukulan Pandu", zh: "平抽" },
+  },
+  {
+    name: "Straight Net",
+    category: "Net Play",
+    aliases: ["net shot"],
+    color: CHART_COLORS[7],
+    translations: { ms: "Jaring Lurus", zh: "放网" },
+  },
+  {
+    name: "Cross Net",
+    category: "Net Play",
+    aliases: ["cross court net", "crossnet"],
+    color: CHART_COLORS[8],
+    translations: { ms: "Jaring Silang", zh: "勾对角" },
+  },
+  {
+    name: "Serve",
+    category: "Defensive/Neutral",
+    aliases: ["short serve", "long serve", "service"],
+    color: CHART_COLORS[9],
+    translations: { ms: "Servis", zh: "发球" },
+  },
+  {
+    name: "Push",
+    category: "Offensive",
+    aliases: ["net push"],
+    color: CHART_COLORS[10],
+    translations: { ms: "Tolakan", zh: "推球" },
+  },
+  {
+    name: "Tap",
+    category: "Net Play",
+    aliases: ["net kill", "kill"],
+    color: CHART_COLORS[11],
+    translations: { ms: "Ketukan Jaring", zh: "扑球" },
+  },
+];
+
+export const SHOT_TYPES = SHOT_TAXONOMY.map((t) => t.name);
+
+// Bucket for labels outside the taxonomy
+export const OTHER_SHOT_TYPE = "Other";
+export const OTHER_SHOT_TRANSLATIONS: Partial<Record<Locale, string>> = {
+  ms: "Lain-lain",
+  zh: "其他",
+};
+export const OTHER_SHOT_COLOR = "#9ca3af";
+
+// A silence longer than this between shots (in seconds) ends a rally
+export const RALLY_GAP_SECONDS = 4;
+
+// Shot-count buckets used for the rally length distribution
+export const RALLY_LENGTH_BUCKETS = [
+  { label: "1-3 shots", min: 1, max: 3 },
+  { label: "4-6 shots", min: 4, max: 6 },
+  { label: "7-10 shots", min: 7, max: 10 },
+  { label: "11-20 shots", min: 11, max: 20 },
+  { label: "21+ shots", min: 21, max: Infinity },
+];
+
+// Identifies files written by "Export analysis"
+export const ANALYSIS_BUNDLE_FORMAT = "mds06-analysis";
+export const ANALYSIS_BUNDLE_VERSION = 1;
+
+// Playback rates offered in review mode, slowest first
+export const PLAYBACK_SPEEDS = [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2];
+
+// Loop length (in seconds) for shots the model gave no end time
+export const DEFAULT_SHOT_SECONDS = 1;
+
+// Seconds of video kept before/after each shot in a highlight reel
+export const DEFAULT_PRE_ROLL_SECONDS = 2;
+export const DEFAULT_POST_ROLL_SECONDS = 2;
+
+// Identifies highlight clip lists exported as JSON
+export const HIGHLIGHTS_FORMAT = "mds06-highlights";
+export const HIGHLIGHTS_VERSION = 1;
+
+// Detections scoring below this are left out of the stats until reviewed
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+// Earlier chat messages sent along with each ask-the-coach question
+export const COACH_CHAT_HISTORY_LIMIT = 12;
+
+// Languages offered by the language switcher, labelled in their own language
+export const LOCALES: { code: Locale; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "ms", label: "Bahasa Melayu" },
+  { code: "zh", label: "中文" },
+];
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Sections offered by the report builder, in their default order
+export const REPORT_SECTIONS: { id: ReportSectionId; label: MessageKey }[] = [
+  { id: "analysis", label: "builder.section.analysis" },
+  { id: "recommendations", label: "builder.section.recommendations" },
+  { id: "charts", label: "builder.section.charts" },
+  { id: "summaryTable", label: "builder.section.summaryTable" },
+  { id: "rallies", label: "builder.section.rallies" },
+  { id: "eventLog", label: "builder.section.eventLog" },
+  { id: "coachNotes", label: "builder.section.coachNotes" },
+];
+
+export const BUILT_IN_REPORT_PRESETS: ReportPreset[] = [
+  {
+    id: "coach-full-report",
+    name: "builder.presetName.coach-full-report",
+    builtIn: true,
+    config: {
+      sections: REPORT_SECTIONS.map((s) => s.id),
+      foreword: "",
+      applyFilters: false,
+    },
+  },
+  {
+    id: "player-handout",
+    name: "builder.presetName.player-handout",
+    builtIn: true,
+    config: {
+      sections: ["analysis", "charts", "summaryTable", "recommendations"],
+      foreword: "",
+      applyFilters: true,
+    },
+  },
+];
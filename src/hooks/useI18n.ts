@@ -0,0 +1,17 @@
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  getLocale,
+  setLocale,
+  subscribeLocale,
+  translator,
+} from "../utils/i18n";
+
+/**
+ * The current locale and a `t` function translating message keys into it.
+ * Every component using the hook re-renders when the language is switched.
+ */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  const t = useMemo(() => translator(locale), [locale]);
+  return { locale, setLocale, t };
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { processVideo, PipelineJobFailedError } from "../utils/analysisPipeline";
+import type { JobStage } from "../utils/analysisPipeline";
+import { listPendingJobs } from "../utils/pendingJobs";
+import { UploadPausedError } from "../utils/resumableUpload";
+
+export type JobStatus = "queued" | JobStage | "paused" | "done" | "failed";
+
+export interface AnalysisJob {
+  id: string;
+  fileName: string;
+  file?: File; // Missing for jobs resumed after a reload
+  status: JobStatus;
+  uploadProgress: number; // 0-100
+  processingPercent: number; // 0-100, estimated by the server
+  uploadedKey?: string;
+  pipelineJobId?: string; // Server-side pipeline job being tracked
+  matchId?: string; // Library id once done
+  error?: string;
+}
+
+// Pipeline jobs submitted before the last reload pick up where they left off
+const resumePendingJobs = (): AnalysisJob[] =>
+  listPendingJobs().map((pending) => ({
+    id: crypto.randomUUID(),
+    fileName: pending.sourceFilename,
+    status: "queued",
+    uploadProgress: 100,
+    processingPercent: 0,
+    uploadedKey: pending.uploadedKey,
+    pipelineJobId: pending.jobId,
+  }));
+
+/**
+ * useJobQueue Hook
+ * * Runs the upload → pipeline → AI analysis flow for each queued video,
+ * * one at a time, and tracks per-file status. Failed jobs can be retried
+ * * individually; a retry skips the upload if it already succeeded.
+ * * Uploads can be paused and resumed from the last confirmed byte. Jobs
+ * * still running on the server are resumed on mount.
+ */
+export function useJobQueue() {
+  const [jobs, setJobs] = useState<AnalysisJob[]>(resumePendingJobs);
+  const running = useRef(false);
+  const current = useRef<{ id: string; controller: AbortController } | null>(
+    null,
+  );
+
+  const updateJob = useCallback(
+    (id: string, changes: Partial<AnalysisJob>) =>
+      setJobs((prev) => prev.map((j) => (j.id === id ? { ...j, ...changes } : j))),
+    [],
+  );
+
+  const enqueue = useCallback((files: File[]) => {
+    setJobs((prev) => [
+      ...prev,
+      ...files.map((file) => ({
+        id: crypto.randomUUID(),
+        fileName: file.name,
+        file,
+        status: "queued" as const,
+        uploadProgress: 0,
+        processingPercent: 0,
+      })),
+    ]);
+  }, []);
+
+  const retry = useCallback(
+    (id: string) => updateJob(id, { status: "queued", error: undefined }),
+    [updateJob],
+  );
+
+  // Aborts the running upload, or holds a queued job back
+  const pause = useCallback((id: string) => {
+    if (current.current?.id === id) {
+      current.current.controller.abort();
+      return;
+    }
+    setJobs((prev) =>
+      prev.map((j) =>
+        j.id === id && j.status === "queued" ? { ...j, status: "paused" } : j,
+      ),
+    );
+  }, []);
+
+  const resume = useCallback(
+    (id: string) => updateJob(id, { status: "queued" }),
+    [updateJob],
+  );
+
+  const clearFinished = useCallback(
+    () => setJobs((prev) => prev.filter((j) => j.status !== "done")),
+    [],
+  );
+
+  // Start the next queued job whenever the queue is idle
+  useEffect(() => {
+    if (running.current) return;
+    const next = jobs.find((j) => j.status === "queued");
+    if (!next) return;
+
+    running.current = true;
+    const controller = new AbortController();
+    current.current = { id: next.id, controller };
+
+    processVideo({
+      sourceFilename: next.fileName,
+      file: next.file,
+      uploadedKey: next.uploadedKey,
+      pipelineJobId: next.pipelineJobId,
+      signal: controller.signal,
+      onStage: (status) => updateJob(next.id, { status }),
+      onUploadProgress: (uploadProgress) =>
+        updateJob(next.id, { uploadProgress }),
+      onUploaded: (uploadedKey) =>
+        updateJob(next.id, { uploadedKey, uploadProgress: 100 }),
+      onSubmitted: (pipelineJobId) =>
+        updateJob(next.id, { pipelineJobId, processingPercent: 0 }),
+      onPipelineStatus: ({ percent }) =>
+        updateJob(next.id, { processingPercent: percent }),
+    })
+      .then((record) => {
+        running.current = false;
+        current.current = null;
+        updateJob(next.id, { status: "done", matchId: record.id });
+      })
+      .catch((err) => {
+        running.current = false;
+        current.current = null;
+        if (err instanceof UploadPausedError) {
+          updateJob(next.id, { status: "paused" });
+          return;
+        }
+
+        console.error(`Pipeline Error (${next.fileName}):`, err);
+        updateJob(next.id, {
+          status: "failed",
+          error: err.message,
+          // A failed pipeline job is resubmitted on retry; otherwise keep tracking it
+          ...(err instanceof PipelineJobFailedError && {
+            pipelineJobId: undefined,
+          }),
+        });
+      });
+  }, [jobs, updateJob]);
+
+  const isBusy = jobs.some(
+    (j) => j.status !== "done" && j.status !== "failed" && j.status !== "paused",
+  );
+
+  return { jobs, enqueue, retry, pause, resume, clearFinished, isBusy };
+}
@@ -0,0 +1,78 @@
+import { useReducer, useCallback } from "react";
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+type Action<T> =
+  | { type: "set"; value: T }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "reset"; value: T };
+
+// Caps memory use on long editing sessions
+const MAX_HISTORY = 200;
+
+function reducer<T>(state: History<T>, action: Action<T>): History<T> {
+  switch (action.type) {
+    case "set":
+      if (action.value === state.present) return state;
+      return {
+        past: [...state.past, state.present].slice(-MAX_HISTORY),
+        present: action.value,
+        future: [],
+      };
+    case "undo": {
+      if (state.past.length === 0) return state;
+      const previous = state.past[state.past.length - 1];
+      return {
+        past: state.past.slice(0, -1),
+        present: previous,
+        future: [state.present, ...state.future],
+      };
+    }
+    case "redo": {
+      if (state.future.length === 0) return state;
+      const [next, ...rest] = state.future;
+      return {
+        past: [...state.past, state.present],
+        present: next,
+        future: rest,
+      };
+    }
+    case "reset":
+      return { past: [], present: action.value, future: [] };
+  }
+}
+
+/**
+ * useUndoable Hook
+ * * Holds a value with a full undo/redo history.
+ * * `set` records a new entry, `reset` replaces the value and clears history.
+ */
+export function useUndoable<T>(initial: T) {
+  const [state, dispatch] = useReducer(
+    reducer as (s: History<T>, a: Action<T>) => History<T>,
+    { past: [], present: initial, future: [] },
+  );
+
+  const set = useCallback((value: T) => dispatch({ type: "set", value }), []);
+  const undo = useCallback(() => dispatch({ type: "undo" }), []);
+  const redo = useCallback(() => dispatch({ type: "redo" }), []);
+  const reset = useCallback(
+    (value: T) => dispatch({ type: "reset", value }),
+    [],
+  );
+
+  return {
+    value: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from "react";
+import { PLAYBACK_SPEEDS } from "../constant";
+
+/** A shot that review mode can jump to and loop, in video seconds. */
+export interface ReviewShot {
+  eventIndex: number;
+  start: number;
+  end: number;
+}
+
+interface VideoReviewOptions {
+  enabled: boolean;
+  fps: number;
+  shots: ReviewShot[]; // In time order
+  onShotSelected: (shot: ReviewShot) => void;
+}
+
+const getVideo = () =>
+  document.getElementById("video-player") as HTMLVideoElement | null;
+
+/** Zero-based frame shown at `time`; the epsilon absorbs float error. */
+export const frameAt = (time: number, fps: number) =>
+  Math.floor(time * fps + 1e-6);
+
+// Index of the shot playing at `time` (the last one started), or -1
+const shotAt = (shots: ReviewShot[], time: number) =>
+  shots.reduce((acc, s, i) => (s.start <= time ? i : acc), -1);
+
+/**
+ * useVideoReview Hook
+ * * Keyboard-driven review of the `video-player` element: Space plays/pauses,
+ * * ←/→ step one frame, ↑/↓ jump to the previous/next shot, [ and ] change
+ * * the playback speed and L loops the current shot's t0–t1 window.
+ * * Shortcuts are only active while `enabled`, and never while typing.
+ */
+export function useVideoReview({
+  enabled,
+  fps,
+  shots,
+  onShotSelected,
+}: VideoReviewOptions) {
+  const [speed, setSpeed] = useState(1);
+  const [loopShot, setLoopShot] = useState<ReviewShot | null>(null);
+
+  // Half a frame absorbs float error when comparing seek targets
+  const tolerance = 0.5 / fps;
+
+  const seekShot = useCallback(
+    (shot: ReviewShot) => {
+      const vid = getVideo();
+      if (!vid) return;
+      vid.currentTime = shot.start;
+      onShotSelected(shot);
+      setLoopShot((looped) => (looped ? shot : null));
+    },
+    [onShotSelected],
+  );
+
+  const stepShot = useCallback(
+    (direction: 1 | -1) => {
+      const vid = getVideo();
+      if (!vid || shots.length === 0) return;
+      const time = vid.currentTime;
+
+      const target =
+        direction === 1
+          ? shots.find((s) => s.start > time + tolerance)
+          : [...shots].reverse().find((s) => s.start < time - tolerance);
+      if (target) seekShot(target);
+    },
+    [shots, tolerance, seekShot],
+  );
+
+  // Lands mid-frame so the decoder shows the intended frame
+  const stepFrame = useCallback(
+    (direction: 1 | -1) => {
+      const vid = getVideo();
+      if (!vid) return;
+      vid.pause();
+      const target = Math.max(0, frameAt(vid.currentTime, fps) + direction);
+      vid.currentTime = Math.min(
+        vid.duration || Infinity,
+        (target + 0.5) / fps,
+      );
+    },
+    [fps],
+  );
+
+  const changeSpeed = useCallback((direction: 1 | -1) => {
+    setSpeed((current) => {
+      const i = PLAYBACK_SPEEDS.indexOf(current);
+      const next = Math.min(
+        PLAYBACK_SPEEDS.length - 1,
+        Math.max(0, (i === -1 ? PLAYBACK_SPEEDS.indexOf(1) : i) + direction),
+      );
+      return PLAYBACK_SPEEDS[next];
+    });
+  }, []);
+
+  const toggleLoop = useCallback(() => {
+    setLoopShot((looped) => {
+      if (looped) return null;
+      const vid = getVideo();
+      const i = vid ? shotAt(shots, vid.currentTime) : -1;
+      return i === -1 ? null : shots[i];
+    });
+  }, [shots]);
+
+  // Keep the element's rate in step with the selected speed
+  useEffect(() => {
+    const vid = getVideo();
+    if (vid) vid.playbackRate = enabled ? speed : 1;
+  }, [enabled, speed]);
+
+  // Leaving review mode ends any loop
+  useEffect(() => {
+    if (!enabled) setLoopShot(null);
+  }, [enabled]);
+
+  // Jump back to the shot start whenever playback passes its end
+  useEffect(() => {
+    if (!loopShot) return;
+    let frameId = 0;
+    const check = () => {
+      const vid = getVideo();
+      if (
+        vid &&
+        (vid.currentTime >= loopShot.end ||
+          vid.currentTime < loopShot.start - tolerance)
+      ) {
+        vid.currentTime = loopShot.start;
+      }
+      frameId = requestAnimationFrame(check);
+    };
+    frameId = requestAnimationFrame(check);
+    return () => cancelAnimationFrame(frameId);
+  }, [loopShot, tolerance]);
+
+  // Shortcuts (ignored while typing in a form field or with modifiers held)
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const actions: Record<string, () => void> = {
+        " ": () => {
+          const vid = getVideo();
+          if (vid?.paused) vid.play();
+          else vid?.pause();
+        },
+        ArrowRight: () => stepFrame(1),
+        ArrowLeft: () => stepFrame(-1),
+        ArrowDown: () => stepShot(1),
+        ArrowUp: () => stepShot(-1),
+        "]": () => changeSpeed(1),
+        "[": () => changeSpeed(-1),
+        l: toggleLoop,
+        L: toggleLoop,
+      };
+
+      const action = actions[e.key];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [enabled, stepFrame, stepShot, changeSpeed, toggleLoop]);
+
+  return {
+    speed,
+    setSpeed,
+    loopShot,
+    toggleLoop,
+    stepFrame,
+    stepShot,
+  };
+}
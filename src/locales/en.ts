@@ -0,0 +1,442 @@
+// English messages, the reference locale: the other locale files must define
+// exactly these keys. `{name}` placeholders are filled in by `translate`;
+// `<tag>...</tag>` spans are styled by the RichText component.
+const en = {
+  // --- Navigation ---
+  "nav.home": "Home",
+  "nav.about": "About",
+  "nav.main": "Main",
+  "nav.library": "Library",
+  "nav.language": "Language",
+
+  // --- Shared ---
+  "common.seconds": "seconds",
+  "common.frames": "frames",
+  "stats.shotSummary": "Shot Summary",
+  "stats.shotType": "Shot Type",
+  "stats.total": "Total",
+  "stats.rallyDistribution": "Rally Length Distribution",
+  "stats.rallyLength": "Rally Length",
+  "stats.rallies": "Rallies",
+  "rally.bucket": "{min}-{max} shots",
+  "rally.bucketOpen": "{min}+ shots",
+
+  // --- Home Page ---
+  "home.videoUnsupported": "Your browser does not support the video tag.",
+  "home.uploadTitle": "Upload Your Videos",
+  "home.dropPrompt": "Drag & Drop your MP4 files here or click to select",
+  "home.unfinishedUploads": "Unfinished uploads:",
+  "home.resumeHint": "Select the same file again to continue where it stopped.",
+  "home.selectedFiles": "Selected Files:",
+  "home.fileSize": "{size} MB",
+  "home.startAnalysis": "Start Analysis",
+  "home.startAnalysisCount": "Start Analysis ({count} videos)",
+  "home.clear": "Clear",
+  "home.analysing": "Analysing Match Footage...",
+  "home.analysingHint": "This may take a few minutes per video.",
+  "home.alreadyAnalysed": "Already analysed?",
+
+  // --- About Page ---
+  "about.title": "About Our Platform",
+  "about.tagline": "Precision. Speed. Insight.",
+  "about.intro":
+    "By combining 1000 fps high-speed cameras with state-of-the-art AI models like SlowFast, we capture and classify the split-second movements that ordinary cameras miss.",
+  "about.story.title": "Our Story",
+  "about.story.p1":
+    "It all started with a simple question — <em>how much of an athlete’s performance do we actually miss?</em>",
+  "about.story.p2":
+    "During training, even the most experienced coaches struggled to capture moments that happened in the blink of an eye, the flick of a wrist, the angle of a racket, or a split-second foot pivot that could decide the outcome of a rally.",
+  "about.story.p3":
+    "That question became the spark for <hl>Team MDS06</hl>: Bryan Leong, Phua Yee Yen, Lee Jian Jun Thomas, and Ting Shu Hui. With the support of <hl>Monash University Malaysia</hl> and guidance from <hl>Dr. Vishnu Monn</hl>, we set out to capture what traditional cameras could not.",
+  "about.story.p4":
+    "Armed with a <em>Chronos 2.1 High-Speed Camera</em> capable of recording <strong>1000 frames per second</strong>, we transformed an ordinary badminton court into a high-speed research studio. Precise camera angles, carefully tuned lighting, and athletes performing rapid-fire strokes - these recordings became the heart of our dataset, revealing layers of movements invisible to the naked eye.",
+  "about.story.p5":
+    "From there, we built deep learning models that could recognise and classify each shot type, from smashes to drop shots, and everything in between. What began as curiosity evolved into a tool that helps athletes and coaches see performance in an entirely new way, turning every millisecond into meaningful insight.",
+  "about.mission.title": "Our Mission",
+  "about.mission.p1":
+    "At <hl>Team MDS06</hl>, our mission is simple yet ambitious — to <em>make the invisible, visible</em>. We strive to bridge the gap between cutting-edge technology and human performance by capturing and understanding the fastest movements in sports with precision and clarity.",
+  "about.mission.p2":
+    "Through the power of <hl>high-speed imaging</hl> and <hl>deep learning</hl>, we aim to revolutionise athletic analysis: providing athletes, coaches, and analysts with <em>real-time, data-driven insights</em> that enhance training, optimise performance, and prevent injury.",
+  "about.mission.p3":
+    "Our vision goes beyond badminton, we seek to set a new benchmark for motion analysis in all high-performance sports, where every frame, every millisecond, and every movement tells a story worth understanding.",
+  "about.useCases.title": "Use Cases",
+  "about.useCases.intro":
+    "Our system is built to serve athletes and coaches who want smarter, faster, and more meaningful ways to understand performance. Below are two core use cases that show how our technology can make every second of footage count.",
+  "about.useCases.opponent.title": "1. Research My Opponent",
+  "about.useCases.opponent.p1":
+    "Before an important match, players often spend hours scrubbing through long YouTube videos. Our platform simplifies this by allowing users to upload or link match footage of their opponents. Using <hl>deep learning</hl> and <hl>action recognition</hl>, the system automatically detects shot types, summarizing key strengths, weaknesses, and play patterns.",
+  "about.useCases.opponent.p2":
+    "In minutes, players can identify how their opponents attack, defend, and react under pressure, turning hours of analysis into actionable match strategies.",
+  "about.useCases.practice.title": "2. Review My Own Practice Footage",
+  "about.useCases.practice.p1":
+    "For athletes striving to perfect their technique, our system acts as a personal performance analyst. Upload high-speed training footage and let our models classify each stroke, from smashes to drop shots, while tracking motion, timing, and body alignment.",
+  "about.useCases.practice.p2":
+    "The platform highlights inconsistencies, measures stroke accuracy, and provides data-driven feedback. Players can visualize progress over time, spot areas for improvement, and fine-tune their form with precision normally reserved for elite-level analysis.",
+  "about.thanks.title": "Special thanks to",
+  "about.thanks.sns": "for providing temporary access to 1x Nvidia H100 GPU",
+  "about.thanks.chua":
+    "for providing an outdoor badminton court and a volunteer player to film footage.",
+  "about.team.title": "Our Team",
+
+  // --- Main Page ---
+  "main.switchMatch": "Switch match",
+  "main.notFound": "This match could not be found.",
+  "main.libraryFailed": "Failed to open the match library.",
+  "main.saveCorrectionsFailed": "Failed to save corrections: {error}",
+  "main.saveThresholdFailed": "Failed to save threshold: {error}",
+  "main.saveRosterFailed": "Failed to save roster: {error}",
+  "main.saveChatFailed": "Failed to save chat: {error}",
+  "main.analysisFailed": "AI analysis failed: {error}",
+  "main.coachFailed": "The coach could not answer: {error}",
+  "main.reportFailed": "Report generation failed: {error}",
+  "main.confirmRevert":
+    "Discard all corrections and restore the pipeline output?",
+  "main.timeBase": "{fps} fps ({unit})",
+  "main.sharedView": "Shared read-only view",
+  "main.linkExpires": "link expires {date}",
+  "main.otherLabels":
+    'Labels outside the shot taxonomy are counted as "{other}": {labels}',
+  "main.backToLibrary": "Back to the library",
+  "main.subtitleLabel": "Shots",
+  "main.noVideo":
+    "No video loaded. Upload a file on the Home page or open a match from the Library.",
+  "main.eventLogs": "Event Logs",
+  "main.editEvents": "Edit Events",
+  "main.doneEditing": "Done Editing",
+  "main.filter": "Filter:",
+  "main.allShots": "All",
+  "main.filterByPlayer": "Filter by player",
+  "main.allPlayers": "All players",
+  "main.filterShots": "{shot} shots",
+  "main.insertShot": "+ Insert Shot at {time}s",
+  "main.undo": "Undo",
+  "main.undoHint": "Undo (Ctrl+Z)",
+  "main.redo": "Redo",
+  "main.redoHint": "Redo (Ctrl+Shift+Z)",
+  "main.revertAll": "Revert All",
+  "main.correctionSummary":
+    "Corrected: {edited} edited, {inserted} added, {deleted} removed (of {detected} detected)",
+  "main.belowThreshold":
+    "Below the confidence threshold: not counted in the stats",
+  "main.byPlayer": "by {player}",
+  "main.originally": "Originally {shot} by {player} at {time}s",
+  "main.addedManually": "Added manually",
+  "main.corrected": "(corrected)",
+  "main.edit": "Edit",
+  "main.delete": "Delete",
+  "main.downloadLogs": "Download Logs CSV",
+  "main.workbook": "Excel Workbook",
+  "main.workbookHint":
+    "Events, per-player summary and rallies as an Excel workbook",
+  "main.vttHint": "Shot labels as WebVTT subtitles",
+  "main.srtHint": "Shot labels as SRT subtitles",
+  "main.reviewMode": "Review Mode",
+  "main.exitReviewMode": "Exit Review Mode",
+  "main.rallyStats":
+    "{count} rallies · average {average} shots · longest {longest} shots",
+  "main.downloadSummary": "Download Summary CSV",
+  "main.shotDistribution": "Shot Distribution per Player",
+  "main.aiAnalysis": "AI Analysis",
+  "main.analysisModeHint":
+    "Rule-based analysis works offline, without the AI service",
+  "main.modeAi": "AI coach",
+  "main.modeRules": "Rule-based (offline)",
+  "main.refreshHint":
+    "Re-run the analysis with the current player names and corrections",
+  "main.analysing": "Analysing...",
+  "main.refresh": "Refresh Analysis",
+  "main.proMatches": "Recommended Professional Matches",
+  "main.exportAnalysis": "Export Analysis",
+  "main.share": "Share",
+  "main.generateReport": "Generate Final Report",
+
+  // --- AI Analysis Panel ---
+  "analysis.strengths": "Strengths",
+  "analysis.weaknesses": "Weaknesses",
+  "analysis.evidence": "Evidence",
+  "analysis.placeholder": "AI summary will appear here.",
+  "analysis.rulesNotice":
+    "Rule-based analysis: generated from shot counts without the AI service, so it is formulaic and has no pro match recommendations.",
+  "analysis.overall": "Overall Analysis",
+
+  // --- Shot Categories ---
+  "categories.title": "Shot Categories",
+  "categories.category": "Category",
+  "categories.attackRatio": "Attack Ratio",
+  "categories.attackRatioHint":
+    "Attack ratio: offensive shots as a share of all categorised shots.",
+
+  // --- Ask the Coach ---
+  "coach.title": "Ask the Coach",
+  "coach.clear": "Clear chat",
+  "coach.examplesIntro":
+    "Ask a follow-up question about this match, for example:",
+  "coach.example.lifting": "When did each player start lifting more?",
+  "coach.example.longestRallies": "Which shots ended the longest rallies?",
+  "coach.example.practise": "What should each player practise next?",
+  "coach.jumpTo": "Jump to this moment",
+  "coach.thinking": "The coach is thinking...",
+  "coach.placeholder": "Ask about this match...",
+  "coach.ask": "Ask",
+
+  // --- Needs Review ---
+  "review.title": "Needs Review",
+  "review.threshold": "Confidence threshold:",
+  "review.summary":
+    "{count} of {scored} scored detections fall below the threshold and are left out of the stats until accepted.",
+  "review.noScores": "This match has no confidence scores.",
+  "review.score": "Score",
+  "review.time": "Time",
+  "review.shot": "Shot",
+  "review.player": "Player",
+  "review.accept": "Accept",
+  "review.reject": "Reject",
+
+  // --- Event Editor ---
+  "editor.shot": "Shot",
+  "editor.trackId": "Track ID",
+  "editor.start": "Start ({unit})",
+  "editor.end": "End ({unit})",
+  "editor.unitFrame": "frame",
+  "editor.unitSeconds": "s",
+  "editor.optional": "optional",
+  "editor.trackInvalid": "Track ID must be a whole number.",
+  "editor.startInvalid": "Start must be a non-negative number.",
+  "editor.endInvalid": "End must be a number after the start.",
+  "editor.cancel": "Cancel",
+  "editor.save": "Save",
+
+  // --- Highlight Reel ---
+  "reel.title": "Highlight Reel",
+  "reel.hint":
+    "Filter the event log (shot, player, timeline range), then add the matching shots to the reel.",
+  "reel.addOne": "+ Add {count} filtered shot",
+  "reel.addMany": "+ Add {count} filtered shots",
+  "reel.preRoll": "Pre-roll",
+  "reel.postRoll": "Post-roll",
+  "reel.seconds": "s",
+  "reel.clear": "Clear reel",
+  "reel.shot": "Shot",
+  "reel.clip": "Clip",
+  "reel.shotBy": "{shot} by {player}",
+  "reel.play": "Play",
+  "reel.moveUp": "Move up",
+  "reel.moveDown": "Move down",
+  "reel.remove": "Remove",
+  "reel.empty": "The reel is empty.",
+  "reel.totals": "{count} clips · {seconds}s",
+  "reel.playReel": "▶ Play Reel",
+  "reel.stop": "■ Stop",
+  "reel.ffmpeg": "FFmpeg Script",
+
+  // --- Import Analysis ---
+  "import.failed": "Import failed: {error}",
+  "import.importing": "Importing analysis...",
+  "import.prompt":
+    "Import analysis: drop an exported .json file here or click to select",
+
+  // --- Analysis Queue ---
+  "jobs.title": "Analysis Queue:",
+  "jobs.clearFinished": "Clear finished",
+  "jobs.status.queued": "Queued",
+  "jobs.status.uploading": "Uploading",
+  "jobs.status.processing": "Processing",
+  "jobs.status.analysing": "Analysing",
+  "jobs.status.paused": "Paused",
+  "jobs.status.done": "Done",
+  "jobs.status.failed": "Failed",
+  "jobs.open": "Open",
+  "jobs.pause": "Pause",
+  "jobs.resume": "Resume",
+  "jobs.retry": "Retry",
+
+  // --- Match Timeline ---
+  "timeline.title": "Timeline",
+  "timeline.showing": "Showing {start}–{end}",
+  "timeline.clearRange": "Clear range",
+  "timeline.hint": "Click to seek, drag to select a range",
+  "timeline.zoomOut": "Zoom out",
+  "timeline.zoomIn": "Zoom in",
+  "timeline.marker": "{shot} at {time}s",
+
+  // --- Pro Match Recommendations ---
+  "pro.placeholder": "AI recommended matches will appear here.",
+  "pro.forPlayer": "For {player} ({style})",
+  "pro.noVideo": "no video found",
+
+  // --- Rallies ---
+  "rallies.title": "Rallies",
+  "rallies.hint": "{count} rallies detected. Click a rally to play it.",
+  "rallies.start": "Start",
+  "rallies.duration": "Duration",
+  "rallies.shots": "Shots",
+  "rallies.hitters": "Hitters",
+
+  // --- Report Builder ---
+  "builder.title": "Build Report",
+  "builder.preset": "Preset:",
+  "builder.custom": "Custom",
+  "builder.delete": "Delete",
+  "builder.sections": "Sections",
+  "builder.moveUp": "Move up",
+  "builder.moveDown": "Move down",
+  "builder.section.analysis": "AI summary",
+  "builder.section.recommendations": "Pro match recommendations",
+  "builder.section.charts": "Shot distribution chart",
+  "builder.section.summaryTable": "Shot summary table",
+  "builder.section.rallies": "Rally lengths",
+  "builder.section.eventLog": "Event log",
+  "builder.section.coachNotes": "Coach chat",
+  "builder.presetName.coach-full-report": "Coach full report",
+  "builder.presetName.player-handout": "Player handout",
+  "builder.foreword": "Coach's foreword",
+  "builder.forewordPlaceholder":
+    "Optional note printed before the first section",
+  "builder.applyFilters": "Apply the dashboard filters",
+  "builder.filtersActive":
+    "Charts, tables and the event log will only cover: {filter}.",
+  "builder.noFilters": "No filters are active, so the whole match is covered.",
+  "builder.presetNamePlaceholder": "Preset name",
+  "builder.savePreset": "Save as preset",
+  "builder.cancel": "Cancel",
+  "builder.generate": "Generate PDF",
+
+  // --- Review Toolbar ---
+  "toolbar.frameCounter": "Frame {frame} · {time}s @ {fps} fps",
+  "toolbar.prevShot": "⏮ Shot",
+  "toolbar.prevFrame": "◀ Frame",
+  "toolbar.nextFrame": "Frame ▶",
+  "toolbar.nextShot": "Shot ⏭",
+  "toolbar.speed": "Speed:",
+  "toolbar.looping": "Looping {start}–{end}s",
+  "toolbar.loopShot": "Loop Shot",
+  "toolbar.shortcut.play": "Play / pause",
+  "toolbar.shortcut.frame": "Previous / next frame",
+  "toolbar.shortcut.shot": "Previous / next shot",
+  "toolbar.shortcut.speed": "Slower / faster",
+  "toolbar.shortcut.loop": "Loop current shot",
+
+  // --- Shot Transitions ---
+  "transitions.title": "Shot Transitions",
+  "transitions.repliesBy": "Replies by:",
+  "transitions.axes": "Received ↓ / Reply →",
+  "transitions.topPatterns": "Top Patterns for {player}",
+  "transitions.none": "No transitions detected.",
+  "transitions.download": "Download Transitions CSV",
+
+  // --- Share Dialog ---
+  "share.title": "Share Match",
+  "share.description":
+    "Anyone with the link can view this match read-only: video, event log, charts and AI insights. The link shows the match as it is now; later edits are not included.",
+  "share.expires": "Expires:",
+  "share.expiry.never": "Never",
+  "share.expiry.days": "{count} day(s)",
+  "share.creating": "Creating...",
+  "share.create": "Create link",
+  "share.activeLinks": "Active links",
+  "share.noLinks": "No links created from this browser.",
+  "share.expiresAt": "Expires {date}",
+  "share.neverExpires": "Never expires",
+  "share.copied": "Copied",
+  "share.copy": "Copy",
+  "share.revoke": "Revoke",
+  "share.confirmRevoke": "Revoke this link? Anyone using it loses access.",
+  "share.copyFailed": "Could not copy; select the link and copy it manually.",
+  "share.close": "Close",
+
+  // --- Player Roster ---
+  "roster.title": "Player Roster",
+  "roster.description":
+    "Name each player and merge tracker IDs that belong to the same person.",
+  "roster.trackId": "Track ID",
+  "roster.shots": "Shots",
+  "roster.belongsTo": "Belongs To",
+  "roster.playerName": "Player Name",
+  "roster.separate": "Separate player",
+  "roster.mergedInto": "merged into {player}",
+  "roster.issue.duplicate": "Another player already has this name.",
+  "roster.issue.reserved": "This name is reserved.",
+
+  // --- Rule-based Analysis ---
+  "rules.style.unclassified": "Not enough shots to classify",
+  "rules.style.allCourtAttacker": "Attacking all-court player",
+  "rules.style.baselineAttacker": "Aggressive baseline attacker",
+  "rules.style.netPlayer": "Strategic net player",
+  "rules.style.retriever": "Defensive retriever",
+  "rules.style.balanced": "Balanced all-court player",
+  "rules.attacks":
+    "Takes the initiative: {share} of categorised shots are offensive.",
+  "rules.rarelyAttacks":
+    "Rarely attacks: only {share} of categorised shots are offensive.",
+  "rules.frontCourt": "Contests the front court ({share} net play).",
+  "rules.seldomNet": "Seldom plays at the net ({share} net play).",
+  "rules.varied": "Varied shot selection across {count} shot types.",
+  "rules.predictable": "Predictable: {share} of shots are the {shot}.",
+  "rules.evidenceNote": "{share} of {player}'s {total} shots",
+  "rules.court.front": "leans on the front court",
+  "rules.court.back": "stays mostly in the mid and rear court",
+  "rules.court.split": "splits play between the net and the back",
+  "rules.noShots": "{player} has no classified shots in this match.",
+  "rules.summary":
+    "{player} played {total} shots, most often the {shot} ({count}), and {court}. {share} of categorised shots were offensive.",
+  "rules.similarAttack":
+    "{a} and {b} attacked at a similar rate ({shareA} vs {shareB}).",
+  "rules.moreAggressive":
+    "{attacker} was the more aggressive player ({high} vs {low} offensive shots), leaving {defender} to defend.",
+  "rules.netControl":
+    "{player} controlled more of the net ({high} vs {low} net play).",
+  "rules.asymmetry":
+    "{player} played the {shot} far more often than {other} ({high} vs {low}).",
+  "rules.pattern":
+    "Across {rallies} rallies, the most repeated exchange was {player} answering a {from} with a {to} ({count} times).",
+
+  // --- PDF Report ---
+  "report.title": "Match Analysis Report",
+  "report.player": "Player {id}",
+  "report.versus": "vs",
+  "report.players": "Players",
+  "report.uploaded": "Uploaded",
+  "report.sourceVideo": "Source video",
+  "report.shotsAnalysed": "Shots analysed",
+  "report.timeBase": "Time base",
+  "report.timeBaseValue": "{unit} at {fps} fps",
+  "report.timeBaseInferred": "{unit} at {fps} fps (inferred)",
+  "report.threshold": "Confidence threshold",
+  "report.thresholdValue": "{threshold} ({count} detection(s) excluded)",
+  "report.filteredTo": "Filtered to",
+  "report.generated": "Generated",
+  "report.foreword": "Coach's Foreword",
+  "report.analysis": "Match Analysis",
+  "report.rulesNote":
+    "Rule-based analysis: generated from shot counts without the AI service.",
+  "report.strengths": "Strengths",
+  "report.weaknesses": "Weaknesses",
+  "report.evidence": "Evidence",
+  "report.overall": "Overall Analysis",
+  "report.recommendations": "Recommended Professional Matches",
+  "report.shotDistribution": "Shot Distribution",
+  "report.eventLog": "Event Log",
+  "report.timesNote": "Times in seconds (source: {unit} at {fps} fps).",
+  "report.thresholdNote":
+    "Confidence threshold {threshold}: {count} low-confidence detection(s) excluded.",
+  "report.filterNote": "Filtered to {filter}.",
+  "report.noMatchingEvents": "No events match the filters.",
+  "report.noEvents": "No events were detected.",
+  "report.time": "Time",
+  "report.shot": "Shot",
+  "report.playerColumn": "Player",
+  "report.score": "Score",
+  "report.coachChat": "Ask the Coach",
+  "report.question": "Q:",
+  "report.coach": "Coach:",
+  "report.contents": "Contents",
+  "report.generatedOn": "Generated {date}",
+  "report.pageOf": "Page {page} of {count}",
+  "report.fontMissing":
+    "The Chinese report font could not be loaded: {error}. Please try again.",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en;
@@ -0,0 +1,450 @@
+import type { Messages } from "./en";
+
+// Bahasa Melayu
+const ms: Messages = {
+  // --- Navigation ---
+  "nav.home": "Utama",
+  "nav.about": "Tentang",
+  "nav.main": "Papan Pemuka",
+  "nav.library": "Pustaka",
+  "nav.language": "Bahasa",
+
+  // --- Shared ---
+  "common.seconds": "saat",
+  "common.frames": "bingkai",
+  "stats.shotSummary": "Ringkasan Pukulan",
+  "stats.shotType": "Jenis Pukulan",
+  "stats.total": "Jumlah",
+  "stats.rallyDistribution": "Taburan Panjang Rali",
+  "stats.rallyLength": "Panjang Rali",
+  "stats.rallies": "Rali",
+  "rally.bucket": "{min}-{max} pukulan",
+  "rally.bucketOpen": "{min}+ pukulan",
+
+  // --- Home Page ---
+  "home.videoUnsupported": "Pelayar anda tidak menyokong tag video.",
+  "home.uploadTitle": "Muat Naik Video Anda",
+  "home.dropPrompt":
+    "Seret & lepas fail MP4 anda di sini atau klik untuk memilih",
+  "home.unfinishedUploads": "Muat naik yang belum selesai:",
+  "home.resumeHint":
+    "Pilih fail yang sama sekali lagi untuk menyambung dari tempat ia berhenti.",
+  "home.selectedFiles": "Fail Dipilih:",
+  "home.fileSize": "{size} MB",
+  "home.startAnalysis": "Mula Analisis",
+  "home.startAnalysisCount": "Mula Analisis ({count} video)",
+  "home.clear": "Kosongkan",
+  "home.analysing": "Menganalisis Rakaman Perlawanan...",
+  "home.analysingHint":
+    "Ini mungkin mengambil masa beberapa minit bagi setiap video.",
+  "home.alreadyAnalysed": "Sudah dianalisis?",
+
+  // --- About Page ---
+  "about.title": "Tentang Platform Kami",
+  "about.tagline": "Ketepatan. Kelajuan. Wawasan.",
+  "about.intro":
+    "Dengan menggabungkan kamera berkelajuan tinggi 1000 fps dan model AI terkini seperti SlowFast, kami merakam dan mengelaskan pergerakan sepantas kilat yang terlepas daripada kamera biasa.",
+  "about.story.title": "Kisah Kami",
+  "about.story.p1":
+    "Semuanya bermula dengan satu soalan mudah — <em>berapa banyak prestasi seorang atlet yang sebenarnya terlepas daripada pandangan kita?</em>",
+  "about.story.p2":
+    "Semasa latihan, jurulatih yang paling berpengalaman pun sukar menangkap detik yang berlaku sekelip mata: lentikan pergelangan tangan, sudut raket, atau pusingan kaki sepantas kilat yang boleh menentukan keputusan sesuatu rali.",
+  "about.story.p3":
+    "Soalan itu menjadi pencetus kepada <hl>Pasukan MDS06</hl>: Bryan Leong, Phua Yee Yen, Lee Jian Jun Thomas dan Ting Shu Hui. Dengan sokongan <hl>Monash University Malaysia</hl> dan bimbingan <hl>Dr. Vishnu Monn</hl>, kami berusaha merakam apa yang tidak mampu dirakam oleh kamera tradisional.",
+  "about.story.p4":
+    "Berbekalkan <em>Kamera Berkelajuan Tinggi Chronos 2.1</em> yang mampu merakam <strong>1000 bingkai sesaat</strong>, kami mengubah gelanggang badminton biasa menjadi studio penyelidikan berkelajuan tinggi. Sudut kamera yang tepat, pencahayaan yang ditala dengan teliti dan atlet yang melakukan pukulan bertubi-tubi - rakaman ini menjadi teras set data kami, mendedahkan lapisan pergerakan yang tidak kelihatan oleh mata kasar.",
+  "about.story.p5":
+    "Dari situ, kami membina model pembelajaran mendalam yang dapat mengenal pasti dan mengelaskan setiap jenis pukulan, daripada rejaman hingga pukulan jatuh dan segala-galanya di antaranya. Apa yang bermula sebagai rasa ingin tahu berkembang menjadi alat yang membantu atlet dan jurulatih melihat prestasi dengan cara yang benar-benar baharu, menjadikan setiap milisaat satu wawasan yang bermakna.",
+  "about.mission.title": "Misi Kami",
+  "about.mission.p1":
+    "Di <hl>Pasukan MDS06</hl>, misi kami mudah tetapi bercita-cita tinggi — <em>menjadikan yang tidak kelihatan, kelihatan</em>. Kami berusaha merapatkan jurang antara teknologi termaju dan prestasi manusia dengan merakam dan memahami pergerakan terpantas dalam sukan secara tepat dan jelas.",
+  "about.mission.p2":
+    "Melalui kuasa <hl>pengimejan berkelajuan tinggi</hl> dan <hl>pembelajaran mendalam</hl>, kami berhasrat merevolusikan analisis sukan: memberikan atlet, jurulatih dan penganalisis <em>wawasan masa nyata berasaskan data</em> yang meningkatkan latihan, mengoptimumkan prestasi dan mencegah kecederaan.",
+  "about.mission.p3":
+    "Visi kami melangkaui badminton; kami ingin menetapkan penanda aras baharu untuk analisis pergerakan dalam semua sukan berprestasi tinggi, di mana setiap bingkai, setiap milisaat dan setiap pergerakan menceritakan kisah yang wajar difahami.",
+  "about.useCases.title": "Kegunaan",
+  "about.useCases.intro":
+    "Sistem kami dibina untuk atlet dan jurulatih yang mahukan cara yang lebih pintar, lebih pantas dan lebih bermakna untuk memahami prestasi. Berikut ialah dua kegunaan utama yang menunjukkan bagaimana teknologi kami menjadikan setiap saat rakaman berharga.",
+  "about.useCases.opponent.title": "1. Mengkaji Lawan Saya",
+  "about.useCases.opponent.p1":
+    "Sebelum perlawanan penting, pemain sering menghabiskan berjam-jam meneliti video YouTube yang panjang. Platform kami memudahkannya dengan membolehkan pengguna memuat naik atau memautkan rakaman perlawanan lawan mereka. Menggunakan <hl>pembelajaran mendalam</hl> dan <hl>pengecaman aksi</hl>, sistem ini mengesan jenis pukulan secara automatik serta meringkaskan kekuatan, kelemahan dan corak permainan utama.",
+  "about.useCases.opponent.p2":
+    "Dalam beberapa minit, pemain dapat mengenal pasti cara lawan menyerang, bertahan dan bertindak balas di bawah tekanan, menjadikan analisis berjam-jam sebagai strategi perlawanan yang boleh terus digunakan.",
+  "about.useCases.practice.title": "2. Menilai Rakaman Latihan Sendiri",
+  "about.useCases.practice.p1":
+    "Bagi atlet yang ingin menyempurnakan teknik, sistem kami bertindak sebagai penganalisis prestasi peribadi. Muat naik rakaman latihan berkelajuan tinggi dan biarkan model kami mengelaskan setiap pukulan, daripada rejaman hingga pukulan jatuh, sambil menjejak pergerakan, masa dan kedudukan badan.",
+  "about.useCases.practice.p2":
+    "Platform ini menonjolkan ketidakkonsistenan, mengukur ketepatan pukulan dan memberikan maklum balas berasaskan data. Pemain dapat melihat kemajuan dari semasa ke semasa, mengenal pasti ruang penambahbaikan dan memperhalusi gaya mereka dengan ketepatan yang biasanya hanya untuk analisis peringkat elit.",
+  "about.thanks.title": "Penghargaan khas kepada",
+  "about.thanks.sns":
+    "kerana menyediakan akses sementara kepada 1x GPU Nvidia H100",
+  "about.thanks.chua":
+    "kerana menyediakan gelanggang badminton luar dan seorang pemain sukarela untuk rakaman.",
+  "about.team.title": "Pasukan Kami",
+
+  // --- Main Page ---
+  "main.switchMatch": "Tukar perlawanan",
+  "main.notFound": "Perlawanan ini tidak dapat ditemui.",
+  "main.libraryFailed": "Gagal membuka pustaka perlawanan.",
+  "main.saveCorrectionsFailed": "Gagal menyimpan pembetulan: {error}",
+  "main.saveThresholdFailed": "Gagal menyimpan ambang: {error}",
+  "main.saveRosterFailed": "Gagal menyimpan senarai pemain: {error}",
+  "main.saveChatFailed": "Gagal menyimpan sembang: {error}",
+  "main.analysisFailed": "Analisis AI gagal: {error}",
+  "main.coachFailed": "Jurulatih tidak dapat menjawab: {error}",
+  "main.reportFailed": "Laporan gagal dijana: {error}",
+  "main.confirmRevert":
+    "Buang semua pembetulan dan pulihkan output saluran paip?",
+  "main.timeBase": "{fps} fps ({unit})",
+  "main.sharedView": "Paparan kongsi baca sahaja",
+  "main.linkExpires": "pautan tamat tempoh {date}",
+  "main.otherLabels":
+    'Label di luar taksonomi pukulan dikira sebagai "{other}": {labels}',
+  "main.backToLibrary": "Kembali ke pustaka",
+  "main.subtitleLabel": "Pukulan",
+  "main.noVideo":
+    "Tiada video dimuatkan. Muat naik fail di halaman Utama atau buka perlawanan dari Pustaka.",
+  "main.eventLogs": "Log Peristiwa",
+  "main.editEvents": "Sunting Peristiwa",
+  "main.doneEditing": "Selesai Menyunting",
+  "main.filter": "Tapis:",
+  "main.allShots": "Semua",
+  "main.filterByPlayer": "Tapis mengikut pemain",
+  "main.allPlayers": "Semua pemain",
+  "main.filterShots": "pukulan {shot}",
+  "main.insertShot": "+ Sisip Pukulan pada {time}s",
+  "main.undo": "Buat Asal",
+  "main.undoHint": "Buat asal (Ctrl+Z)",
+  "main.redo": "Buat Semula",
+  "main.redoHint": "Buat semula (Ctrl+Shift+Z)",
+  "main.revertAll": "Pulihkan Semua",
+  "main.correctionSummary":
+    "Dibetulkan: {edited} disunting, {inserted} ditambah, {deleted} dibuang (daripada {detected} dikesan)",
+  "main.belowThreshold":
+    "Di bawah ambang keyakinan: tidak dikira dalam statistik",
+  "main.byPlayer": "oleh {player}",
+  "main.originally": "Asalnya {shot} oleh {player} pada {time}s",
+  "main.addedManually": "Ditambah secara manual",
+  "main.corrected": "(dibetulkan)",
+  "main.edit": "Sunting",
+  "main.delete": "Padam",
+  "main.downloadLogs": "Muat Turun CSV Log",
+  "main.workbook": "Buku Kerja Excel",
+  "main.workbookHint":
+    "Peristiwa, ringkasan setiap pemain dan rali sebagai buku kerja Excel",
+  "main.vttHint": "Label pukulan sebagai sari kata WebVTT",
+  "main.srtHint": "Label pukulan sebagai sari kata SRT",
+  "main.reviewMode": "Mod Semakan",
+  "main.exitReviewMode": "Keluar Mod Semakan",
+  "main.rallyStats":
+    "{count} rali · purata {average} pukulan · terpanjang {longest} pukulan",
+  "main.downloadSummary": "Muat Turun CSV Ringkasan",
+  "main.shotDistribution": "Taburan Pukulan setiap Pemain",
+  "main.aiAnalysis": "Analisis AI",
+  "main.analysisModeHint":
+    "Analisis berasaskan peraturan berfungsi di luar talian, tanpa perkhidmatan AI",
+  "main.modeAi": "Jurulatih AI",
+  "main.modeRules": "Berasaskan peraturan (luar talian)",
+  "main.refreshHint":
+    "Jalankan semula analisis dengan nama pemain dan pembetulan semasa",
+  "main.analysing": "Menganalisis...",
+  "main.refresh": "Muat Semula Analisis",
+  "main.proMatches": "Perlawanan Profesional Disyorkan",
+  "main.exportAnalysis": "Eksport Analisis",
+  "main.share": "Kongsi",
+  "main.generateReport": "Jana Laporan Akhir",
+
+  // --- AI Analysis Panel ---
+  "analysis.strengths": "Kekuatan",
+  "analysis.weaknesses": "Kelemahan",
+  "analysis.evidence": "Bukti",
+  "analysis.placeholder": "Ringkasan AI akan dipaparkan di sini.",
+  "analysis.rulesNotice":
+    "Analisis berasaskan peraturan: dijana daripada kiraan pukulan tanpa perkhidmatan AI, jadi ia lebih berformula dan tiada cadangan perlawanan profesional.",
+  "analysis.overall": "Analisis Keseluruhan",
+
+  // --- Shot Categories ---
+  "categories.title": "Kategori Pukulan",
+  "categories.category": "Kategori",
+  "categories.attackRatio": "Nisbah Serangan",
+  "categories.attackRatioHint":
+    "Nisbah serangan: bahagian pukulan menyerang daripada semua pukulan berkategori.",
+
+  // --- Ask the Coach ---
+  "coach.title": "Tanya Jurulatih",
+  "coach.clear": "Kosongkan sembang",
+  "coach.examplesIntro":
+    "Tanya soalan susulan tentang perlawanan ini, contohnya:",
+  "coach.example.lifting":
+    "Bilakah setiap pemain mula lebih kerap mengangkat bola?",
+  "coach.example.longestRallies":
+    "Pukulan manakah yang menamatkan rali paling panjang?",
+  "coach.example.practise":
+    "Apakah yang patut dilatih oleh setiap pemain seterusnya?",
+  "coach.jumpTo": "Lompat ke detik ini",
+  "coach.thinking": "Jurulatih sedang berfikir...",
+  "coach.placeholder": "Tanya tentang perlawanan ini...",
+  "coach.ask": "Tanya",
+
+  // --- Needs Review ---
+  "review.title": "Perlu Disemak",
+  "review.threshold": "Ambang keyakinan:",
+  "review.summary":
+    "{count} daripada {scored} pengesanan berskor berada di bawah ambang dan tidak dikira dalam statistik sehingga diterima.",
+  "review.noScores": "Perlawanan ini tiada skor keyakinan.",
+  "review.score": "Skor",
+  "review.time": "Masa",
+  "review.shot": "Pukulan",
+  "review.player": "Pemain",
+  "review.accept": "Terima",
+  "review.reject": "Tolak",
+
+  // --- Event Editor ---
+  "editor.shot": "Pukulan",
+  "editor.trackId": "ID Jejak",
+  "editor.start": "Mula ({unit})",
+  "editor.end": "Tamat ({unit})",
+  "editor.unitFrame": "bingkai",
+  "editor.unitSeconds": "s",
+  "editor.optional": "pilihan",
+  "editor.trackInvalid": "ID Jejak mestilah nombor bulat.",
+  "editor.startInvalid": "Masa mula mestilah nombor bukan negatif.",
+  "editor.endInvalid": "Masa tamat mestilah nombor selepas masa mula.",
+  "editor.cancel": "Batal",
+  "editor.save": "Simpan",
+
+  // --- Highlight Reel ---
+  "reel.title": "Himpunan Sorotan",
+  "reel.hint":
+    "Tapis log peristiwa (pukulan, pemain, julat garis masa), kemudian tambah pukulan yang sepadan ke dalam himpunan.",
+  "reel.addOne": "+ Tambah {count} pukulan yang ditapis",
+  "reel.addMany": "+ Tambah {count} pukulan yang ditapis",
+  "reel.preRoll": "Sebelum",
+  "reel.postRoll": "Selepas",
+  "reel.seconds": "s",
+  "reel.clear": "Kosongkan himpunan",
+  "reel.shot": "Pukulan",
+  "reel.clip": "Klip",
+  "reel.shotBy": "{shot} oleh {player}",
+  "reel.play": "Main",
+  "reel.moveUp": "Naikkan",
+  "reel.moveDown": "Turunkan",
+  "reel.remove": "Buang",
+  "reel.empty": "Himpunan masih kosong.",
+  "reel.totals": "{count} klip · {seconds}s",
+  "reel.playReel": "▶ Main Himpunan",
+  "reel.stop": "■ Henti",
+  "reel.ffmpeg": "Skrip FFmpeg",
+
+  // --- Import Analysis ---
+  "import.failed": "Import gagal: {error}",
+  "import.importing": "Mengimport analisis...",
+  "import.prompt":
+    "Import analisis: lepaskan fail .json yang dieksport di sini atau klik untuk memilih",
+
+  // --- Analysis Queue ---
+  "jobs.title": "Baris Gilir Analisis:",
+  "jobs.clearFinished": "Kosongkan yang selesai",
+  "jobs.status.queued": "Dalam giliran",
+  "jobs.status.uploading": "Memuat naik",
+  "jobs.status.processing": "Memproses",
+  "jobs.status.analysing": "Menganalisis",
+  "jobs.status.paused": "Dijeda",
+  "jobs.status.done": "Selesai",
+  "jobs.status.failed": "Gagal",
+  "jobs.open": "Buka",
+  "jobs.pause": "Jeda",
+  "jobs.resume": "Sambung",
+  "jobs.retry": "Cuba semula",
+
+  // --- Match Timeline ---
+  "timeline.title": "Garis Masa",
+  "timeline.showing": "Memaparkan {start}–{end}",
+  "timeline.clearRange": "Kosongkan julat",
+  "timeline.hint": "Klik untuk melompat, seret untuk memilih julat",
+  "timeline.zoomOut": "Zum keluar",
+  "timeline.zoomIn": "Zum masuk",
+  "timeline.marker": "{shot} pada {time}s",
+
+  // --- Pro Match Recommendations ---
+  "pro.placeholder": "Perlawanan yang disyorkan AI akan dipaparkan di sini.",
+  "pro.forPlayer": "Untuk {player} ({style})",
+  "pro.noVideo": "tiada video ditemui",
+
+  // --- Rallies ---
+  "rallies.title": "Rali",
+  "rallies.hint": "{count} rali dikesan. Klik rali untuk memainkannya.",
+  "rallies.start": "Mula",
+  "rallies.duration": "Tempoh",
+  "rallies.shots": "Pukulan",
+  "rallies.hitters": "Pemukul",
+
+  // --- Report Builder ---
+  "builder.title": "Bina Laporan",
+  "builder.preset": "Pratetap:",
+  "builder.custom": "Tersuai",
+  "builder.delete": "Padam",
+  "builder.sections": "Bahagian",
+  "builder.moveUp": "Alih ke atas",
+  "builder.moveDown": "Alih ke bawah",
+  "builder.section.analysis": "Ringkasan AI",
+  "builder.section.recommendations": "Cadangan perlawanan profesional",
+  "builder.section.charts": "Carta taburan pukulan",
+  "builder.section.summaryTable": "Jadual ringkasan pukulan",
+  "builder.section.rallies": "Panjang rali",
+  "builder.section.eventLog": "Log peristiwa",
+  "builder.section.coachNotes": "Sembang jurulatih",
+  "builder.presetName.coach-full-report": "Laporan penuh jurulatih",
+  "builder.presetName.player-handout": "Edaran pemain",
+  "builder.foreword": "Kata pengantar jurulatih",
+  "builder.forewordPlaceholder":
+    "Nota pilihan yang dicetak sebelum bahagian pertama",
+  "builder.applyFilters": "Gunakan penapis papan pemuka",
+  "builder.filtersActive":
+    "Carta, jadual dan log peristiwa hanya akan merangkumi: {filter}.",
+  "builder.noFilters":
+    "Tiada penapis aktif, jadi seluruh perlawanan dirangkumi.",
+  "builder.presetNamePlaceholder": "Nama pratetap",
+  "builder.savePreset": "Simpan sebagai pratetap",
+  "builder.cancel": "Batal",
+  "builder.generate": "Jana PDF",
+
+  // --- Review Toolbar ---
+  "toolbar.frameCounter": "Bingkai {frame} · {time}s @ {fps} fps",
+  "toolbar.prevShot": "⏮ Pukulan",
+  "toolbar.prevFrame": "◀ Bingkai",
+  "toolbar.nextFrame": "Bingkai ▶",
+  "toolbar.nextShot": "Pukulan ⏭",
+  "toolbar.speed": "Kelajuan:",
+  "toolbar.looping": "Mengulang {start}–{end}s",
+  "toolbar.loopShot": "Ulang Pukulan",
+  "toolbar.shortcut.play": "Main / jeda",
+  "toolbar.shortcut.frame": "Bingkai sebelum / seterusnya",
+  "toolbar.shortcut.shot": "Pukulan sebelum / seterusnya",
+  "toolbar.shortcut.speed": "Lebih perlahan / lebih laju",
+  "toolbar.shortcut.loop": "Ulang pukulan semasa",
+
+  // --- Shot Transitions ---
+  "transitions.title": "Peralihan Pukulan",
+  "transitions.repliesBy": "Balasan oleh:",
+  "transitions.axes": "Diterima ↓ / Balasan →",
+  "transitions.topPatterns": "Corak Utama untuk {player}",
+  "transitions.none": "Tiada peralihan dikesan.",
+  "transitions.download": "Muat Turun CSV Peralihan",
+
+  // --- Share Dialog ---
+  "share.title": "Kongsi Perlawanan",
+  "share.description":
+    "Sesiapa yang mempunyai pautan boleh melihat perlawanan ini secara baca sahaja: video, log peristiwa, carta dan pandangan AI. Pautan menunjukkan perlawanan seperti sekarang; suntingan kemudian tidak disertakan.",
+  "share.expires": "Tamat tempoh:",
+  "share.expiry.never": "Tidak pernah",
+  "share.expiry.days": "{count} hari",
+  "share.creating": "Sedang mencipta...",
+  "share.create": "Cipta pautan",
+  "share.activeLinks": "Pautan aktif",
+  "share.noLinks": "Tiada pautan dicipta daripada pelayar ini.",
+  "share.expiresAt": "Tamat tempoh {date}",
+  "share.neverExpires": "Tidak pernah tamat tempoh",
+  "share.copied": "Disalin",
+  "share.copy": "Salin",
+  "share.revoke": "Batalkan",
+  "share.confirmRevoke":
+    "Batalkan pautan ini? Sesiapa yang menggunakannya akan hilang akses.",
+  "share.copyFailed":
+    "Tidak dapat menyalin; pilih pautan dan salin secara manual.",
+  "share.close": "Tutup",
+
+  // --- Player Roster ---
+  "roster.title": "Senarai Pemain",
+  "roster.description":
+    "Namakan setiap pemain dan gabungkan ID penjejak milik orang yang sama.",
+  "roster.trackId": "ID Jejak",
+  "roster.shots": "Pukulan",
+  "roster.belongsTo": "Milik",
+  "roster.playerName": "Nama Pemain",
+  "roster.separate": "Pemain berasingan",
+  "roster.mergedInto": "digabungkan ke dalam {player}",
+  "roster.issue.duplicate": "Pemain lain sudah menggunakan nama ini.",
+  "roster.issue.reserved": "Nama ini dikhaskan.",
+
+  // --- Rule-based Analysis ---
+  "rules.style.unclassified": "Pukulan tidak mencukupi untuk dikelaskan",
+  "rules.style.allCourtAttacker": "Pemain menyerang seluruh gelanggang",
+  "rules.style.baselineAttacker": "Penyerang agresif dari garisan belakang",
+  "rules.style.netPlayer": "Pemain jaring yang strategik",
+  "rules.style.retriever": "Pemain bertahan",
+  "rules.style.balanced": "Pemain seimbang seluruh gelanggang",
+  "rules.attacks":
+    "Mengambil inisiatif: {share} pukulan berkategori ialah pukulan menyerang.",
+  "rules.rarelyAttacks":
+    "Jarang menyerang: hanya {share} pukulan berkategori ialah pukulan menyerang.",
+  "rules.frontCourt": "Menguasai gelanggang depan ({share} permainan jaring).",
+  "rules.seldomNet": "Jarang bermain di jaring ({share} permainan jaring).",
+  "rules.varied": "Pilihan pukulan yang pelbagai, merangkumi {count} jenis.",
+  "rules.predictable": "Mudah dijangka: {share} pukulan ialah {shot}.",
+  "rules.evidenceNote": "{share} daripada {total} pukulan {player}",
+  "rules.court.front": "banyak bermain di gelanggang depan",
+  "rules.court.back": "kebanyakannya kekal di gelanggang tengah dan belakang",
+  "rules.court.split": "membahagikan permainan antara jaring dan belakang",
+  "rules.noShots":
+    "{player} tiada pukulan yang dikelaskan dalam perlawanan ini.",
+  "rules.summary":
+    "{player} membuat {total} pukulan, paling kerap {shot} ({count}), dan {court}. {share} pukulan berkategori ialah pukulan menyerang.",
+  "rules.similarAttack":
+    "{a} dan {b} menyerang pada kadar yang hampir sama ({shareA} berbanding {shareB}).",
+  "rules.moreAggressive":
+    "{attacker} ialah pemain yang lebih agresif ({high} berbanding {low} pukulan menyerang), menyebabkan {defender} lebih banyak bertahan.",
+  "rules.netControl":
+    "{player} lebih menguasai jaring ({high} berbanding {low} permainan jaring).",
+  "rules.asymmetry":
+    "{player} membuat {shot} jauh lebih kerap daripada {other} ({high} berbanding {low}).",
+  "rules.pattern":
+    "Dalam {rallies} rali, pertukaran yang paling kerap berulang ialah {player} membalas {from} dengan {to} ({count} kali).",
+
+  // --- PDF Report ---
+  "report.title": "Laporan Analisis Perlawanan",
+  "report.player": "Pemain {id}",
+  "report.versus": "lwn",
+  "report.players": "Pemain",
+  "report.uploaded": "Dimuat naik",
+  "report.sourceVideo": "Video sumber",
+  "report.shotsAnalysed": "Pukulan dianalisis",
+  "report.timeBase": "Asas masa",
+  "report.timeBaseValue": "{unit} pada {fps} fps",
+  "report.timeBaseInferred": "{unit} pada {fps} fps (dianggarkan)",
+  "report.threshold": "Ambang keyakinan",
+  "report.thresholdValue": "{threshold} ({count} pengesanan dikecualikan)",
+  "report.filteredTo": "Ditapis kepada",
+  "report.generated": "Dijana",
+  "report.foreword": "Kata Pengantar Jurulatih",
+  "report.analysis": "Analisis Perlawanan",
+  "report.rulesNote":
+    "Analisis berasaskan peraturan: dijana daripada bilangan pukulan tanpa perkhidmatan AI.",
+  "report.strengths": "Kekuatan",
+  "report.weaknesses": "Kelemahan",
+  "report.evidence": "Bukti",
+  "report.overall": "Analisis Keseluruhan",
+  "report.recommendations": "Perlawanan Profesional Disyorkan",
+  "report.shotDistribution": "Taburan Pukulan",
+  "report.eventLog": "Log Peristiwa",
+  "report.timesNote": "Masa dalam saat (sumber: {unit} pada {fps} fps).",
+  "report.thresholdNote":
+    "Ambang keyakinan {threshold}: {count} pengesanan berkeyakinan rendah dikecualikan.",
+  "report.filterNote": "Ditapis kepada {filter}.",
+  "report.noMatchingEvents": "Tiada peristiwa sepadan dengan penapis.",
+  "report.noEvents": "Tiada peristiwa dikesan.",
+  "report.time": "Masa",
+  "report.shot": "Pukulan",
+  "report.playerColumn": "Pemain",
+  "report.score": "Skor",
+  "report.coachChat": "Tanya Jurulatih",
+  "report.question": "S:",
+  "report.coach": "Jurulatih:",
+  "report.contents": "Kandungan",
+  "report.generatedOn": "Dijana {date}",
+  "report.pageOf": "Halaman {page} daripada {count}",
+  "report.fontMissing":
+    "Fon laporan bahasa Cina tidak dapat dimuatkan: {error}. Sila cuba lagi.",
+};
+
+export default ms;
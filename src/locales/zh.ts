@@ -0,0 +1,420 @@
+import type { Messages } from "./en";
+
+// Simplified Chinese
+const zh: Messages = {
+  // --- Navigation ---
+  "nav.home": "首页",
+  "nav.about": "关于",
+  "nav.main": "分析面板",
+  "nav.library": "比赛库",
+  "nav.language": "语言",
+
+  // --- Shared ---
+  "common.seconds": "秒",
+  "common.frames": "帧",
+  "stats.shotSummary": "击球统计",
+  "stats.shotType": "击球类型",
+  "stats.total": "合计",
+  "stats.rallyDistribution": "回合长度分布",
+  "stats.rallyLength": "回合长度",
+  "stats.rallies": "回合数",
+  "rally.bucket": "{min}-{max} 拍",
+  "rally.bucketOpen": "{min} 拍以上",
+
+  // --- Home Page ---
+  "home.videoUnsupported": "您的浏览器不支持视频播放。",
+  "home.uploadTitle": "上传视频",
+  "home.dropPrompt": "将 MP4 文件拖放到此处，或点击选择文件",
+  "home.unfinishedUploads": "未完成的上传：",
+  "home.resumeHint": "再次选择同一文件即可从中断处继续上传。",
+  "home.selectedFiles": "已选文件：",
+  "home.fileSize": "{size} MB",
+  "home.startAnalysis": "开始分析",
+  "home.startAnalysisCount": "开始分析（{count} 个视频）",
+  "home.clear": "清除",
+  "home.analysing": "正在分析比赛视频……",
+  "home.analysingHint": "每个视频可能需要几分钟。",
+  "home.alreadyAnalysed": "已有分析结果？",
+
+  // --- About Page ---
+  "about.title": "关于我们的平台",
+  "about.tagline": "精准。迅速。洞察。",
+  "about.intro":
+    "我们将 1000 fps 高速摄像机与 SlowFast 等先进 AI 模型相结合，捕捉并识别普通摄像机无法捕捉的瞬间动作。",
+  "about.story.title": "我们的故事",
+  "about.story.p1":
+    "一切始于一个简单的问题——<em>运动员的表现中，究竟有多少被我们错过了？</em>",
+  "about.story.p2":
+    "在训练中，即使是经验最丰富的教练，也难以捕捉转瞬即逝的细节：手腕的一抖、球拍的角度，或是足以决定回合胜负的瞬间转身。",
+  "about.story.p3":
+    "这个问题点燃了 <hl>MDS06 团队</hl>的灵感：Bryan Leong、Phua Yee Yen、Lee Jian Jun Thomas 和 Ting Shu Hui。在<hl>莫纳什大学马来西亚分校</hl>的支持和 <hl>Vishnu Monn 博士</hl>的指导下，我们开始记录传统摄像机无法捕捉的画面。",
+  "about.story.p4":
+    "借助每秒可拍摄 <strong>1000 帧</strong>的 <em>Chronos 2.1 高速摄像机</em>，我们把一个普通的羽毛球场变成了高速研究工作室。精确的机位、细致调校的灯光，以及运动员快速连续的击球——这些录像构成了我们数据集的核心，揭示了肉眼无法看见的层层动作。",
+  "about.story.p5":
+    "在此基础上，我们构建了深度学习模型，能够识别并分类每一种击球，从杀球到吊球，无所不包。出于好奇的探索，最终发展成一个帮助运动员和教练以全新方式审视表现的工具，让每一毫秒都转化为有价值的洞察。",
+  "about.mission.title": "我们的使命",
+  "about.mission.p1":
+    "<hl>MDS06 团队</hl>的使命简单而远大——<em>让看不见的变得看得见</em>。我们致力于通过精准、清晰地捕捉和理解体育运动中最快的动作，弥合尖端技术与人体表现之间的鸿沟。",
+  "about.mission.p2":
+    "借助<hl>高速成像</hl>和<hl>深度学习</hl>的力量，我们希望革新运动分析：为运动员、教练和分析师提供<em>实时、数据驱动的洞察</em>，以提升训练、优化表现并预防受伤。",
+  "about.mission.p3":
+    "我们的愿景不止于羽毛球，而是为所有高水平运动的动作分析树立新标杆——每一帧、每一毫秒、每一个动作，都讲述着值得理解的故事。",
+  "about.useCases.title": "应用场景",
+  "about.useCases.intro":
+    "我们的系统为希望以更智能、更快速、更有意义的方式理解表现的运动员和教练而打造。以下两个核心场景展示了我们的技术如何让每一秒录像都发挥价值。",
+  "about.useCases.opponent.title": "1. 研究对手",
+  "about.useCases.opponent.p1":
+    "在重要比赛之前，球员常常要花上数小时翻看冗长的 YouTube 视频。我们的平台让这一切变得简单：用户可以上传或链接对手的比赛录像。借助<hl>深度学习</hl>和<hl>动作识别</hl>，系统会自动检测击球类型，总结关键的优势、弱点和打法规律。",
+  "about.useCases.opponent.p2":
+    "只需几分钟，球员就能了解对手如何进攻、防守以及在压力下如何应对，把数小时的分析转化为可执行的比赛策略。",
+  "about.useCases.practice.title": "2. 回顾自己的训练录像",
+  "about.useCases.practice.p1":
+    "对于力求完善技术的运动员，我们的系统就是一位私人表现分析师。上传高速训练录像，让我们的模型对每一拍进行分类，从杀球到吊球，同时追踪动作、节奏和身体姿态。",
+  "about.useCases.practice.p2":
+    "平台会标出不稳定之处、衡量击球准确度，并提供数据驱动的反馈。球员可以直观地看到长期进步，发现需要改进的地方，并以通常只有精英级分析才具备的精度打磨技术动作。",
+  "about.thanks.title": "特别鸣谢",
+  "about.thanks.sns": "提供 1 块 Nvidia H100 GPU 的临时使用权限",
+  "about.thanks.chua": "提供户外羽毛球场以及一名志愿球员协助拍摄。",
+  "about.team.title": "我们的团队",
+
+  // --- Main Page ---
+  "main.switchMatch": "切换比赛",
+  "main.notFound": "找不到这场比赛。",
+  "main.libraryFailed": "无法打开比赛库。",
+  "main.saveCorrectionsFailed": "保存修正失败：{error}",
+  "main.saveThresholdFailed": "保存阈值失败：{error}",
+  "main.saveRosterFailed": "保存球员名单失败：{error}",
+  "main.saveChatFailed": "保存对话失败：{error}",
+  "main.analysisFailed": "AI 分析失败：{error}",
+  "main.coachFailed": "教练无法回答：{error}",
+  "main.reportFailed": "生成报告失败：{error}",
+  "main.confirmRevert": "放弃所有修正并恢复模型原始输出？",
+  "main.timeBase": "{fps} fps（{unit}）",
+  "main.sharedView": "共享只读视图",
+  "main.linkExpires": "链接到期时间 {date}",
+  "main.otherLabels": "击球分类以外的标签计为“{other}”：{labels}",
+  "main.backToLibrary": "返回比赛库",
+  "main.subtitleLabel": "击球",
+  "main.noVideo": "未加载视频。请在首页上传文件，或从比赛库打开一场比赛。",
+  "main.eventLogs": "事件记录",
+  "main.editEvents": "编辑事件",
+  "main.doneEditing": "完成编辑",
+  "main.filter": "筛选：",
+  "main.allShots": "全部",
+  "main.filterByPlayer": "按球员筛选",
+  "main.allPlayers": "全部球员",
+  "main.filterShots": "{shot}",
+  "main.insertShot": "+ 在 {time}s 处插入击球",
+  "main.undo": "撤销",
+  "main.undoHint": "撤销（Ctrl+Z）",
+  "main.redo": "重做",
+  "main.redoHint": "重做（Ctrl+Shift+Z）",
+  "main.revertAll": "全部还原",
+  "main.correctionSummary":
+    "已修正：编辑 {edited} 个，新增 {inserted} 个，删除 {deleted} 个（共检测到 {detected} 个）",
+  "main.belowThreshold": "低于置信度阈值：不计入统计",
+  "main.byPlayer": "（{player}）",
+  "main.originally": "原为 {player} 在 {time}s 的{shot}",
+  "main.addedManually": "手动添加",
+  "main.corrected": "（已修正）",
+  "main.edit": "编辑",
+  "main.delete": "删除",
+  "main.downloadLogs": "下载记录 CSV",
+  "main.workbook": "Excel 工作簿",
+  "main.workbookHint": "以 Excel 工作簿导出事件、各球员统计和回合",
+  "main.vttHint": "将击球标签导出为 WebVTT 字幕",
+  "main.srtHint": "将击球标签导出为 SRT 字幕",
+  "main.reviewMode": "复盘模式",
+  "main.exitReviewMode": "退出复盘模式",
+  "main.rallyStats":
+    "共 {count} 个回合 · 平均 {average} 拍 · 最长 {longest} 拍",
+  "main.downloadSummary": "下载统计 CSV",
+  "main.shotDistribution": "各球员击球分布",
+  "main.aiAnalysis": "AI 分析",
+  "main.analysisModeHint": "规则分析可离线使用，无需 AI 服务",
+  "main.modeAi": "AI 教练",
+  "main.modeRules": "规则分析（离线）",
+  "main.refreshHint": "使用当前球员名称和修正重新分析",
+  "main.analysing": "分析中……",
+  "main.refresh": "重新分析",
+  "main.proMatches": "推荐的职业比赛",
+  "main.exportAnalysis": "导出分析",
+  "main.share": "分享",
+  "main.generateReport": "生成最终报告",
+
+  // --- AI Analysis Panel ---
+  "analysis.strengths": "优势",
+  "analysis.weaknesses": "弱点",
+  "analysis.evidence": "依据",
+  "analysis.placeholder": "AI 分析将显示在这里。",
+  "analysis.rulesNotice":
+    "规则分析：根据击球统计生成，未使用 AI 服务，因此内容较为公式化，且没有职业比赛推荐。",
+  "analysis.overall": "整体分析",
+
+  // --- Shot Categories ---
+  "categories.title": "击球类别",
+  "categories.category": "类别",
+  "categories.attackRatio": "进攻比例",
+  "categories.attackRatioHint": "进攻比例：进攻性击球占全部已分类击球的比例。",
+
+  // --- Ask the Coach ---
+  "coach.title": "问教练",
+  "coach.clear": "清除对话",
+  "coach.examplesIntro": "可以就这场比赛继续提问，例如：",
+  "coach.example.lifting": "每位球员从什么时候开始更多地挑球？",
+  "coach.example.longestRallies": "最长的回合是以哪些击球结束的？",
+  "coach.example.practise": "每位球员接下来应该练习什么？",
+  "coach.jumpTo": "跳转到这一时刻",
+  "coach.thinking": "教练正在思考……",
+  "coach.placeholder": "就这场比赛提问……",
+  "coach.ask": "提问",
+
+  // --- Needs Review ---
+  "review.title": "待复核",
+  "review.threshold": "置信度阈值：",
+  "review.summary":
+    "{scored} 个有评分的检测中有 {count} 个低于阈值，在被接受之前不计入统计。",
+  "review.noScores": "这场比赛没有置信度评分。",
+  "review.score": "置信度",
+  "review.time": "时间",
+  "review.shot": "击球",
+  "review.player": "球员",
+  "review.accept": "接受",
+  "review.reject": "拒绝",
+
+  // --- Event Editor ---
+  "editor.shot": "击球",
+  "editor.trackId": "跟踪 ID",
+  "editor.start": "开始（{unit}）",
+  "editor.end": "结束（{unit}）",
+  "editor.unitFrame": "帧",
+  "editor.unitSeconds": "秒",
+  "editor.optional": "可选",
+  "editor.trackInvalid": "跟踪 ID 必须是整数。",
+  "editor.startInvalid": "开始时间必须是非负数。",
+  "editor.endInvalid": "结束时间必须是晚于开始时间的数字。",
+  "editor.cancel": "取消",
+  "editor.save": "保存",
+
+  // --- Highlight Reel ---
+  "reel.title": "精彩集锦",
+  "reel.hint":
+    "先筛选事件记录（击球、球员、时间范围），再把符合条件的击球加入集锦。",
+  "reel.addOne": "+ 添加 {count} 个筛选出的击球",
+  "reel.addMany": "+ 添加 {count} 个筛选出的击球",
+  "reel.preRoll": "前置",
+  "reel.postRoll": "后置",
+  "reel.seconds": "秒",
+  "reel.clear": "清空集锦",
+  "reel.shot": "击球",
+  "reel.clip": "片段",
+  "reel.shotBy": "{player} 的{shot}",
+  "reel.play": "播放",
+  "reel.moveUp": "上移",
+  "reel.moveDown": "下移",
+  "reel.remove": "移除",
+  "reel.empty": "集锦为空。",
+  "reel.totals": "{count} 个片段 · {seconds} 秒",
+  "reel.playReel": "▶ 播放集锦",
+  "reel.stop": "■ 停止",
+  "reel.ffmpeg": "FFmpeg 脚本",
+
+  // --- Import Analysis ---
+  "import.failed": "导入失败：{error}",
+  "import.importing": "正在导入分析……",
+  "import.prompt": "导入分析：将导出的 .json 文件拖放到此处，或点击选择文件",
+
+  // --- Analysis Queue ---
+  "jobs.title": "分析队列：",
+  "jobs.clearFinished": "清除已完成",
+  "jobs.status.queued": "排队中",
+  "jobs.status.uploading": "上传中",
+  "jobs.status.processing": "处理中",
+  "jobs.status.analysing": "分析中",
+  "jobs.status.paused": "已暂停",
+  "jobs.status.done": "已完成",
+  "jobs.status.failed": "失败",
+  "jobs.open": "打开",
+  "jobs.pause": "暂停",
+  "jobs.resume": "继续",
+  "jobs.retry": "重试",
+
+  // --- Match Timeline ---
+  "timeline.title": "时间轴",
+  "timeline.showing": "显示 {start}–{end}",
+  "timeline.clearRange": "清除范围",
+  "timeline.hint": "点击跳转，拖动选择范围",
+  "timeline.zoomOut": "缩小",
+  "timeline.zoomIn": "放大",
+  "timeline.marker": "{time} 秒：{shot}",
+
+  // --- Pro Match Recommendations ---
+  "pro.placeholder": "AI 推荐的比赛将显示在这里。",
+  "pro.forPlayer": "适合 {player}（{style}）",
+  "pro.noVideo": "未找到视频",
+
+  // --- Rallies ---
+  "rallies.title": "回合",
+  "rallies.hint": "共检测到 {count} 个回合。点击回合即可播放。",
+  "rallies.start": "开始",
+  "rallies.duration": "时长",
+  "rallies.shots": "击球数",
+  "rallies.hitters": "击球者",
+
+  // --- Report Builder ---
+  "builder.title": "生成报告",
+  "builder.preset": "预设：",
+  "builder.custom": "自定义",
+  "builder.delete": "删除",
+  "builder.sections": "章节",
+  "builder.moveUp": "上移",
+  "builder.moveDown": "下移",
+  "builder.section.analysis": "AI 摘要",
+  "builder.section.recommendations": "职业比赛推荐",
+  "builder.section.charts": "击球分布图",
+  "builder.section.summaryTable": "击球汇总表",
+  "builder.section.rallies": "回合长度",
+  "builder.section.eventLog": "事件日志",
+  "builder.section.coachNotes": "教练问答",
+  "builder.presetName.coach-full-report": "教练完整报告",
+  "builder.presetName.player-handout": "球员讲义",
+  "builder.foreword": "教练前言",
+  "builder.forewordPlaceholder": "可选，打印在第一个章节之前的说明",
+  "builder.applyFilters": "应用仪表板筛选条件",
+  "builder.filtersActive": "图表、表格和事件日志将仅包含：{filter}。",
+  "builder.noFilters": "未启用任何筛选条件，因此涵盖整场比赛。",
+  "builder.presetNamePlaceholder": "预设名称",
+  "builder.savePreset": "另存为预设",
+  "builder.cancel": "取消",
+  "builder.generate": "生成 PDF",
+
+  // --- Review Toolbar ---
+  "toolbar.frameCounter": "第 {frame} 帧 · {time}s @ {fps} fps",
+  "toolbar.prevShot": "⏮ 击球",
+  "toolbar.prevFrame": "◀ 帧",
+  "toolbar.nextFrame": "帧 ▶",
+  "toolbar.nextShot": "击球 ⏭",
+  "toolbar.speed": "速度：",
+  "toolbar.looping": "循环 {start}–{end}s",
+  "toolbar.loopShot": "循环击球",
+  "toolbar.shortcut.play": "播放 / 暂停",
+  "toolbar.shortcut.frame": "上一帧 / 下一帧",
+  "toolbar.shortcut.shot": "上一拍 / 下一拍",
+  "toolbar.shortcut.speed": "减速 / 加速",
+  "toolbar.shortcut.loop": "循环当前击球",
+
+  // --- Shot Transitions ---
+  "transitions.title": "击球衔接",
+  "transitions.repliesBy": "回球者：",
+  "transitions.axes": "来球 ↓ / 回球 →",
+  "transitions.topPatterns": "{player} 的常见套路",
+  "transitions.none": "未检测到击球衔接。",
+  "transitions.download": "下载击球衔接 CSV",
+
+  // --- Share Dialog ---
+  "share.title": "分享比赛",
+  "share.description":
+    "任何拥有链接的人都可以只读查看这场比赛：视频、事件日志、图表和 AI 分析。链接显示比赛的当前状态，之后的修改不会包含在内。",
+  "share.expires": "有效期：",
+  "share.expiry.never": "永久",
+  "share.expiry.days": "{count} 天",
+  "share.creating": "正在创建...",
+  "share.create": "创建链接",
+  "share.activeLinks": "有效链接",
+  "share.noLinks": "此浏览器尚未创建任何链接。",
+  "share.expiresAt": "{date} 过期",
+  "share.neverExpires": "永不过期",
+  "share.copied": "已复制",
+  "share.copy": "复制",
+  "share.revoke": "撤销",
+  "share.confirmRevoke": "撤销此链接？使用该链接的人将无法再访问。",
+  "share.copyFailed": "无法复制，请选中链接后手动复制。",
+  "share.close": "关闭",
+
+  // --- Player Roster ---
+  "roster.title": "球员名单",
+  "roster.description": "为每位球员命名，并合并属于同一人的追踪 ID。",
+  "roster.trackId": "追踪 ID",
+  "roster.shots": "击球数",
+  "roster.belongsTo": "归属",
+  "roster.playerName": "球员姓名",
+  "roster.separate": "独立球员",
+  "roster.mergedInto": "已合并到 {player}",
+  "roster.issue.duplicate": "已有其他球员使用此名称。",
+  "roster.issue.reserved": "此名称为保留名称。",
+
+  // --- Rule-based Analysis ---
+  "rules.style.unclassified": "击球数不足，无法判断",
+  "rules.style.allCourtAttacker": "进攻型全场球员",
+  "rules.style.baselineAttacker": "积极的后场进攻者",
+  "rules.style.netPlayer": "策略型网前球员",
+  "rules.style.retriever": "防守型球员",
+  "rules.style.balanced": "均衡型全场球员",
+  "rules.attacks": "积极主动：已分类击球中 {share} 为进攻性击球。",
+  "rules.rarelyAttacks": "很少进攻：已分类击球中仅 {share} 为进攻性击球。",
+  "rules.frontCourt": "积极争夺网前（网前击球占 {share}）。",
+  "rules.seldomNet": "很少上网（网前击球占 {share}）。",
+  "rules.varied": "击球选择多样，涵盖 {count} 种击球。",
+  "rules.predictable": "容易被预判：{share} 的击球是{shot}。",
+  "rules.evidenceNote": "占 {player} 全部 {total} 拍的 {share}",
+  "rules.court.front": "以网前为主",
+  "rules.court.back": "主要在中后场活动",
+  "rules.court.split": "网前与后场兼顾",
+  "rules.noShots": "{player} 在本场比赛中没有已分类的击球。",
+  "rules.summary":
+    "{player} 共击球 {total} 拍，最常用的是{shot}（{count} 拍），{court}。已分类击球中 {share} 为进攻性击球。",
+  "rules.similarAttack": "{a} 和 {b} 的进攻比例相近（{shareA} 对 {shareB}）。",
+  "rules.moreAggressive":
+    "{attacker} 更具攻击性（进攻性击球 {high} 对 {low}），迫使 {defender} 转入防守。",
+  "rules.netControl": "{player} 更多地控制了网前（网前击球 {high} 对 {low}）。",
+  "rules.asymmetry":
+    "{player} 使用{shot}的次数远多于 {other}（{high} 对 {low}）。",
+  "rules.pattern":
+    "在 {rallies} 个回合中，最常重复的衔接是 {player} 以{to}回应{from}（{count} 次）。",
+
+  // --- PDF Report ---
+  "report.title": "比赛分析报告",
+  "report.player": "球员 {id}",
+  "report.versus": "对",
+  "report.players": "球员",
+  "report.uploaded": "上传时间",
+  "report.sourceVideo": "源视频",
+  "report.shotsAnalysed": "分析击球数",
+  "report.timeBase": "时间基准",
+  "report.timeBaseValue": "{unit}，{fps} fps",
+  "report.timeBaseInferred": "{unit}，{fps} fps（推断）",
+  "report.threshold": "置信度阈值",
+  "report.thresholdValue": "{threshold}（排除 {count} 个检测）",
+  "report.filteredTo": "筛选条件",
+  "report.generated": "生成时间",
+  "report.foreword": "教练前言",
+  "report.analysis": "比赛分析",
+  "report.rulesNote": "规则分析：根据击球统计生成，未使用 AI 服务。",
+  "report.strengths": "优势",
+  "report.weaknesses": "弱点",
+  "report.evidence": "依据",
+  "report.overall": "整体分析",
+  "report.recommendations": "推荐的职业比赛",
+  "report.shotDistribution": "击球分布",
+  "report.eventLog": "事件记录",
+  "report.timesNote": "时间单位为秒（来源：{unit}，{fps} fps）。",
+  "report.thresholdNote":
+    "置信度阈值 {threshold}：已排除 {count} 个低置信度检测。",
+  "report.filterNote": "筛选条件：{filter}。",
+  "report.noMatchingEvents": "没有符合筛选条件的事件。",
+  "report.noEvents": "未检测到任何事件。",
+  "report.time": "时间",
+  "report.shot": "击球",
+  "report.playerColumn": "球员",
+  "report.score": "置信度",
+  "report.coachChat": "问教练",
+  "report.question": "问：",
+  "report.coach": "教练：",
+  "report.contents": "目录",
+  "report.generatedOn": "生成于 {date}",
+  "report.pageOf": "第 {page} 页，共 {count} 页",
+  "report.fontMissing":
+    "无法加载中文报告字体：{error}。请重试。",
+};
+
+export default zh;
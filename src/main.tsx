@@ -2,6 +2,9 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { getLocale } from "./utils/i18n";
+
+document.documentElement.lang = getLocale();
 
 // Application Entry Point
 ReactDOM.createRoot(document.getElementById("root")!).render(
@@ -3,19 +3,169 @@ export interface BadmintonEvent {
   track_id: number;
   t0: number; // Start time/frame
   t1?: number; // End time/frame
-  score?: number;
+  score?: number; // Detection confidence, 0-1
+  sourceIndex?: number; // Index into the original pipeline events
+  corrected?: boolean; // Edited or inserted by hand
+  reviewed?: boolean; // Low-confidence detection confirmed by hand
 }
 
-export interface ModelResult {
+export type ShotCategory = "Offensive" | "Defensive/Neutral" | "Net Play";
+
+// UI, report and AI analysis languages
+export type Locale = "en" | "ms" | "zh";
+
+export interface ShotTypeDefinition {
+  name: string; // Display name, also the key in PlayerStats
+  category: ShotCategory;
+  aliases: string[]; // Other model labels for this shot
+  color: string;
+  translations: Partial<Record<Locale, string>>; // Name in other locales
+}
+
+export type TimeUnit = "frames" | "seconds";
+
+/**
+ * Declares how event `t0`/`t1` values map onto video time.
+ */
+export interface TimeBase {
+  timeUnit: TimeUnit;
+  fps: number;
+}
+
+/**
+ * Validated pipeline output. Build instances with `loadModelResult` so that
+ * older payloads are migrated to the current `schemaVersion`.
+ */
+export interface ModelResult extends TimeBase {
+  schemaVersion: number;
+  timeBaseInferred?: boolean; // true when a legacy payload had no time base
   events: BadmintonEvent[];
-  aiSummary?: string;
-  aiVerified?: string;
+  aiAnalysis?: AIAnalysis;
   outputs?: {
     overlay_mp4?: { gcs_uri: string };
     overlay_video?: string;
   };
 }
 
+// Who wrote the analysis: the LLM or the offline rule-based engine
+export type AnalysisSource = "ai" | "rules";
+
+/**
+ * Structured coach analysis, returned by `/api/analyze-table` or built
+ * offline by `ruleBasedAnalysis`. Player names match the roster names.
+ */
+export interface AIAnalysis {
+  source?: AnalysisSource; // Missing means "ai"
+  players: PlayerAnalysis[];
+  overall: string; // Head-to-head dynamic of the match
+  recommendations: ProMatchRecommendation[];
+}
+
+export interface PlayerAnalysis {
+  player: string;
+  style: string; // Short label, e.g. "Aggressive baseline attacker"
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  evidence: ShotEvidence[];
+}
+
+// A shot count the analysis relies on
+export interface ShotEvidence {
+  shot: string;
+  count: number;
+  note: string;
+}
+
+// A professional with a similar style, for comparison
+export interface ProMatchRecommendation {
+  player: string; // The analysed player it is recommended for
+  style: string;
+  proName: string;
+  link?: string; // YouTube match, when one was found
+}
+
 export interface PlayerStats {
   [shotType: string]: number[]; // Index corresponds to player ID
 }
+
+/**
+ * A single analysis persisted in the browser's match library (IndexedDB).
+ */
+export interface MatchRecord {
+  id: string;
+  title: string;
+  uploadedAt: string; // ISO timestamp
+  sourceFilename: string;
+  result: ModelResult; // Original pipeline output, never edited
+  correctedEvents?: BadmintonEvent[]; // Manually corrected event list
+  roster?: PlayerRoster;
+  confidenceThreshold?: number; // Detections scoring below it are excluded
+  chat?: ChatMessage[]; // Ask-the-coach conversation, oldest first
+}
+
+/**
+ * One turn of the ask-the-coach chat. Coach answers cite video times as
+ * `[12.3s]`, which the dashboard turns into seek links.
+ */
+export interface ChatMessage {
+  role: "user" | "coach";
+  text: string;
+  sentAt: string; // ISO timestamp
+}
+
+// A section of the PDF match report
+export type ReportSectionId =
+  | "analysis"
+  | "recommendations"
+  | "charts"
+  | "summaryTable"
+  | "rallies"
+  | "eventLog"
+  | "coachNotes";
+
+/**
+ * What the report builder puts in the PDF and in which order.
+ */
+export interface ReportConfig {
+  sections: ReportSectionId[]; // Included sections, in report order
+  foreword: string; // Free-text coach's foreword, skipped when empty
+  applyFilters: boolean; // Limit the data to the dashboard's active filters
+}
+
+export interface ReportPreset {
+  id: string;
+  name: string; // A message key for built-in presets
+  builtIn?: boolean; // Shipped with the app, cannot be deleted
+  config: ReportConfig;
+}
+
+/**
+ * Maps tracker IDs onto real players.
+ * A player is identified by its canonical track_id; other tracks merged into
+ * it point at that id in `merges`.
+ */
+export interface PlayerRoster {
+  names: Record<number, string>; // canonical player id -> display name
+  merges: Record<number, number>; // track_id -> canonical player id
+}
+
+// A span of the match in video seconds, e.g. selected on the timeline
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A group of consecutive events forming one rally.
+ * Times are in seconds regardless of the source time base.
+ */
+export interface Rally {
+  index: number; // 1-based rally number
+  start: number;
+  end: number;
+  duration: number;
+  events: BadmintonEvent[];
+  shotCount: number;
+  hitters: number[]; // track_ids in order of first appearance
+}
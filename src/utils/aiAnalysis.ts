@@ -0,0 +1,163 @@
+import type {
+  AIAnalysis,
+  AnalysisSource,
+  BadmintonEvent,
+  Locale,
+  TimeBase,
+} from "../types";
+import { buildSummaryTable, computePlayerStats } from "./stats";
+import { ruleBasedAnalysis } from "./ruleBasedAnalysis";
+import { getLocale } from "./i18n";
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+/**
+ * Lists every way `value` differs from the `AIAnalysis` shape, one line each
+ * (empty when it is valid). `at` prefixes the paths in the messages.
+ */
+export const aiAnalysisIssues = (value: unknown, at = "aiAnalysis") => {
+  const issues: string[] = [];
+  if (!isObject(value)) return [`${at} is not an object`];
+
+  if (!Array.isArray(value.players)) {
+    issues.push(`${at}.players must be an array`);
+  } else {
+    value.players.forEach((p, i) => {
+      const path = `${at}.players[${i}]`;
+      if (!isObject(p)) {
+        issues.push(`${path} is not an object`);
+        return;
+      }
+      for (const key of ["player", "style", "summary"]) {
+        if (typeof p[key] !== "string")
+          issues.push(`${path}.${key} must be a string`);
+      }
+      for (const key of ["strengths", "weaknesses"]) {
+        if (!isStringArray(p[key]))
+          issues.push(`${path}.${key} must be a list of strings`);
+      }
+      if (!Array.isArray(p.evidence)) {
+        issues.push(`${path}.evidence must be an array`);
+      } else {
+        p.evidence.forEach((e, j) => {
+          if (
+            !isObject(e) ||
+            typeof e.shot !== "string" ||
+            typeof e.count !== "number" ||
+            typeof e.note !== "string"
+          )
+            issues.push(`${path}.evidence[${j}] must have shot, count, note`);
+        });
+      }
+    });
+  }
+
+  if (
+    value.source !== undefined &&
+    value.source !== "ai" &&
+    value.source !== "rules"
+  )
+    issues.push(`${at}.source must be "ai" or "rules"`);
+  if (typeof value.overall !== "string")
+    issues.push(`${at}.overall must be a string`);
+
+  if (!Array.isArray(value.recommendations)) {
+    issues.push(`${at}.recommendations must be an array`);
+  } else {
+    value.recommendations.forEach((r, i) => {
+      if (
+        !isObject(r) ||
+        typeof r.player !== "string" ||
+        typeof r.style !== "string" ||
+        typeof r.proName !== "string" ||
+        (r.link !== undefined && typeof r.link !== "string")
+      )
+        issues.push(
+          `${at}.recommendations[${i}] must have player, style, proName`,
+        );
+    });
+  }
+
+  return issues;
+};
+
+// --- API ---
+
+/**
+ * Requests the AI coach analysis for a shot summary table (one row per shot
+ * type, one column per player name). The free text comes back in `language`;
+ * player names and the evidence's shot types stay as sent.
+ */
+export const requestAIAnalysis = async (
+  summaryTable: Record<string, string | number>[],
+  language: Locale = getLocale(),
+): Promise<AIAnalysis> => {
+  const res = await fetch("/api/analyze-table", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ summaryTable, language }),
+  });
+  if (!res.ok) throw new Error("AI analysis service failed");
+
+  const { analysis } = await res.json();
+  const issues = aiAnalysisIssues(analysis);
+  if (issues.length > 0)
+    throw new Error(`Malformed AI analysis: ${issues.join("; ")}`);
+  return analysis as AIAnalysis;
+};
+
+// --- Analysis Mode ---
+
+const MODE_STORAGE_KEY = "mds06-analysis-mode";
+
+// The analysis the user asked for; "rules" never calls the AI service
+export const getAnalysisMode = (): AnalysisSource =>
+  localStorage.getItem(MODE_STORAGE_KEY) === "rules" ? "rules" : "ai";
+
+export const setAnalysisMode = (mode: AnalysisSource) =>
+  localStorage.setItem(MODE_STORAGE_KEY, mode);
+
+interface AnalyseMatchParams {
+  events: BadmintonEvent[];
+  playerIds: number[];
+  timeBase: TimeBase;
+  nameOf?: (id: number) => string;
+  mode?: AnalysisSource;
+  language?: Locale; // Language of the AI analysis
+}
+
+/**
+ * Produces the coach analysis in the chosen mode. In "ai" mode, any failure
+ * of the AI service (offline, error, malformed reply) falls back to the
+ * rule-based analysis, so a result is always returned.
+ */
+export const analyseMatch = async ({
+  events,
+  playerIds,
+  timeBase,
+  nameOf = (id) => `Player ${id}`,
+  mode = getAnalysisMode(),
+  language = getLocale(),
+}: AnalyseMatchParams): Promise<AIAnalysis> => {
+  if (mode === "ai") {
+    try {
+      return await requestAIAnalysis(
+        buildSummaryTable(
+          computePlayerStats(events, playerIds),
+          playerIds,
+          nameOf,
+        ),
+        language,
+      );
+    } catch (err) {
+      console.warn("AI analysis unavailable, using rule-based analysis", err);
+    }
+  }
+  return ruleBasedAnalysis(events, playerIds, timeBase, nameOf, language);
+};
@@ -0,0 +1,177 @@
+import type {
+  BadmintonEvent,
+  ChatMessage,
+  MatchRecord,
+  ModelResult,
+  PlayerRoster,
+} from "../types";
+import { ANALYSIS_BUNDLE_FORMAT, ANALYSIS_BUNDLE_VERSION } from "../constant";
+import { loadModelResult, validateEvents } from "./modelResult";
+import { overlayVideoUri } from "./videoUrl";
+
+/**
+ * Portable snapshot of one analysis, written by "Export analysis" and read
+ * back by the import drop zone without re-running the pipeline.
+ */
+export interface AnalysisBundle {
+  format: typeof ANALYSIS_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  match: {
+    title: string;
+    uploadedAt: string;
+    sourceFilename: string;
+  };
+  video: {
+    uri: string | null; // gs://, local:// or https:// overlay video reference
+  };
+  result: ModelResult;
+  correctedEvents?: BadmintonEvent[];
+  roster?: PlayerRoster;
+  confidenceThreshold?: number;
+  chat?: ChatMessage[];
+}
+
+export interface ImportedAnalysis {
+  title: string;
+  uploadedAt: string;
+  sourceFilename: string;
+  result: ModelResult;
+  correctedEvents?: BadmintonEvent[];
+  roster?: PlayerRoster;
+  confidenceThreshold?: number;
+  chat?: ChatMessage[];
+}
+
+// --- Export ---
+
+export const createAnalysisBundle = (record: MatchRecord): AnalysisBundle => ({
+  format: ANALYSIS_BUNDLE_FORMAT,
+  version: ANALYSIS_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  match: {
+    title: record.title,
+    uploadedAt: record.uploadedAt,
+    sourceFilename: record.sourceFilename,
+  },
+  video: {
+    uri: overlayVideoUri(record.result),
+  },
+  result: record.result,
+  correctedEvents: record.correctedEvents,
+  roster: record.roster,
+  confidenceThreshold: record.confidenceThreshold,
+  chat: record.chat,
+});
+
+/**
+ * Triggers a browser download of the match as a single JSON bundle.
+ */
+export const downloadAnalysisBundle = (record: MatchRecord) => {
+  const bundle = createAnalysisBundle(record);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+    type: "application/json;charset=utf-8;",
+  });
+  const safeTitle = record.title.replace(/[^\w-]+/g, "_") || "analysis";
+
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `${safeTitle}.${ANALYSIS_BUNDLE_FORMAT}.json`;
+  link.click();
+};
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stringField = (value: unknown, fallback: string) =>
+  typeof value === "string" ? value : fallback;
+
+// Keeps only numeric track ids with string names / numeric targets
+const parseRoster = (raw: unknown): PlayerRoster | undefined => {
+  if (!isObject(raw)) return undefined;
+  const names: Record<number, string> = {};
+  const merges: Record<number, number> = {};
+  Object.entries(isObject(raw.names) ? raw.names : {}).forEach(([id, name]) => {
+    if (Number.isInteger(Number(id)) && typeof name === "string")
+      names[Number(id)] = name;
+  });
+  Object.entries(isObject(raw.merges) ? raw.merges : {}).forEach(
+    ([id, target]) => {
+      if (
+        Number.isInteger(Number(id)) &&
+        typeof target === "number" &&
+        Number.isInteger(target)
+      )
+        merges[Number(id)] = target;
+    },
+  );
+  return { names, merges };
+};
+
+const isChatMessage = (m: unknown): m is ChatMessage =>
+  isObject(m) &&
+  (m.role === "user" || m.role === "coach") &&
+  typeof m.text === "string" &&
+  typeof m.sentAt === "string";
+
+// Drops malformed chat messages rather than rejecting the whole bundle
+const parseChat = (raw: unknown): ChatMessage[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter(isChatMessage);
+};
+
+/**
+ * Parses and validates an exported bundle. The embedded result goes through
+ * `loadModelResult`, so bundles from older app versions are migrated.
+ */
+export const parseAnalysisBundle = (text: string): ImportedAnalysis => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isObject(raw) || raw.format !== ANALYSIS_BUNDLE_FORMAT) {
+    throw new Error("The file is not an exported match analysis.");
+  }
+  if (typeof raw.version !== "number" || raw.version > ANALYSIS_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported analysis bundle version: ${raw.version}. Please update the app.`,
+    );
+  }
+
+  const { result } = loadModelResult(raw.result);
+  const correctedEvents =
+    raw.correctedEvents === undefined
+      ? undefined
+      : validateEvents(raw.correctedEvents);
+
+  // Restore the video reference if the result itself lost it
+  const videoUri =
+    isObject(raw.video) && typeof raw.video.uri === "string"
+      ? raw.video.uri
+      : null;
+  if (videoUri && !result.outputs?.overlay_mp4 && !result.outputs?.overlay_video) {
+    result.outputs = { ...result.outputs, overlay_video: videoUri };
+  }
+
+  const match = isObject(raw.match) ? raw.match : {};
+  return {
+    title: stringField(match.title, ""),
+    uploadedAt: stringField(match.uploadedAt, new Date().toISOString()),
+    sourceFilename: stringField(match.sourceFilename, "imported-analysis"),
+    result,
+    correctedEvents,
+    roster: parseRoster(raw.roster),
+    confidenceThreshold:
+      typeof raw.confidenceThreshold === "number" &&
+      raw.confidenceThreshold >= 0 &&
+      raw.confidenceThreshold <= 1
+        ? raw.confidenceThreshold
+        : undefined,
+    chat: parseChat(raw.chat),
+  };
+};
@@ -0,0 +1,232 @@
+import { saveMatch } from "./matchLibrary";
+import { addPendingJob, removePendingJob } from "./pendingJobs";
+import { loadModelResult, ModelResultValidationError } from "./modelResult";
+import { querySessionOffset, uploadChunks } from "./resumableUpload";
+import {
+  uploadFingerprint,
+  getUploadSession,
+  saveUploadSession,
+  removeUploadSession,
+} from "./uploadSessions";
+import { analyseMatch } from "./aiAnalysis";
+import type { MatchRecord, ModelResult } from "../types";
+
+export type JobStage = "uploading" | "processing" | "analysing";
+
+/** Status reported by `GET /api/jobs/:jobId`. */
+export interface PipelineJobStatus {
+  jobId: string;
+  stage: "queued" | "processing" | "done" | "failed";
+  percent: number;
+  percentEstimated?: boolean;
+  error?: string;
+}
+
+/**
+ * Thrown when the server reports the pipeline job itself as failed (or lost),
+ * as opposed to a network error while tracking it. Such jobs must be
+ * resubmitted rather than polled again.
+ */
+export class PipelineJobFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PipelineJobFailedError";
+  }
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+interface ProcessVideoParams {
+  sourceFilename: string;
+  file?: File; // Not available when resuming a job after a reload
+  uploadedKey?: string; // Skip the upload when retrying after it succeeded
+  pipelineJobId?: string; // Resume tracking instead of resubmitting
+  signal?: AbortSignal; // Pauses the upload
+  onStage: (stage: JobStage) => void;
+  onUploadProgress: (percent: number) => void;
+  onUploaded: (key: string) => void;
+  onSubmitted: (jobId: string) => void;
+  onPipelineStatus: (status: PipelineJobStatus) => void;
+}
+
+// --- Pipeline Steps ---
+
+/**
+ * Uploads the raw video to the server's storage (GCS or local disk) through
+ * a resumable session, reusing the session left by an interrupted upload of
+ * the same file when there is one. Resolves with the storage key.
+ */
+export const uploadVideo = async (
+  file: File,
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal,
+): Promise<string> => {
+  if (file.size === 0) throw new Error(`${file.name} is empty`);
+
+  const fingerprint = uploadFingerprint(file);
+  let session = getUploadSession(fingerprint);
+  let offset = session
+    ? await querySessionOffset(session.uploadUrl, file.size, signal)
+    : null;
+
+  if (!session || offset === null) {
+    const urlRes = await fetch(
+      `/api/upload-url?filename=${encodeURIComponent(file.name)}&filetype=${encodeURIComponent(file.type)}`,
+    );
+    const { uploadUrl, key } = await urlRes.json();
+
+    if (!urlRes.ok || !uploadUrl) {
+      throw new Error(`Failed to start an upload session for ${file.name}`);
+    }
+
+    session = {
+      uploadUrl,
+      key,
+      fileName: file.name,
+      size: file.size,
+      createdAt: new Date().toISOString(),
+    };
+    saveUploadSession(fingerprint, session);
+    offset = 0;
+  }
+
+  await uploadChunks(session.uploadUrl, file, offset, onProgress, signal);
+  removeUploadSession(fingerprint);
+
+  return session.key;
+};
+
+/**
+ * Submits an uploaded video to the ML pipeline (`/api/jobs`).
+ * Resolves with the server's job id as soon as the job is accepted.
+ */
+export const submitPipelineJob = async (key: string): Promise<string> => {
+  const res = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ filename: key }),
+  });
+
+  if (!res.ok) throw new Error("Could not start the model pipeline");
+  const { jobId } = await res.json();
+  return jobId;
+};
+
+/**
+ * Polls a pipeline job until it finishes, reporting each status, then
+ * fetches and validates its output.
+ */
+export const pollPipelineJob = async (
+  jobId: string,
+  onStatus: (status: PipelineJobStatus) => void,
+): Promise<ModelResult> => {
+  for (;;) {
+    const res = await fetch(`/api/jobs/${jobId}`);
+    if (res.status === 404) {
+      throw new PipelineJobFailedError("The pipeline job no longer exists");
+    }
+    if (!res.ok) throw new Error("Could not check the pipeline status");
+
+    const status: PipelineJobStatus = await res.json();
+    onStatus(status);
+
+    if (status.stage === "failed") {
+      throw new PipelineJobFailedError(
+        status.error || "Model pipeline execution failed",
+      );
+    }
+    if (status.stage === "done") break;
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  const resultRes = await fetch(`/api/jobs/${jobId}/result`);
+  if (!resultRes.ok) throw new Error("Could not fetch the pipeline result");
+  // Validate pipeline output and pin down its time base. Output that fails
+  // validation will not improve on another poll, so the job counts as failed.
+  try {
+    return loadModelResult(await resultRes.json()).result;
+  } catch (err) {
+    if (err instanceof ModelResultValidationError) {
+      throw new PipelineJobFailedError(err.message);
+    }
+    throw err;
+  }
+};
+
+/**
+ * Adds the coach analysis to a result: from the AI service, or rule-based
+ * when that is unavailable or the rule-based mode is selected.
+ */
+export const analyseResult = async (
+  modelData: ModelResult,
+): Promise<ModelResult> => {
+  const events = modelData.events;
+  const uniqueIds = Array.from(new Set(events.map((e) => e.track_id)));
+
+  return {
+    ...modelData,
+    aiAnalysis: await analyseMatch({
+      events,
+      playerIds: uniqueIds,
+      timeBase: modelData,
+    }),
+  };
+};
+
+// --- Orchestration ---
+
+/**
+ * Core Upload Pipeline for one video
+ * 1. Uploads the file (unless `uploadedKey` is given).
+ * 2. Submits a pipeline job (unless `pipelineJobId` is given) and polls it.
+ * 3. Fetches the AI analysis.
+ * 4. Saves the result to the match library.
+ * In-flight pipeline jobs are remembered so they can be resumed after a
+ * reload.
+ */
+export const processVideo = async ({
+  sourceFilename,
+  file,
+  uploadedKey,
+  pipelineJobId,
+  signal,
+  onStage,
+  onUploadProgress,
+  onUploaded,
+  onSubmitted,
+  onPipelineStatus,
+}: ProcessVideoParams): Promise<MatchRecord> => {
+  let key = uploadedKey;
+  if (!key) {
+    if (!file) {
+      throw new Error(`The video for ${sourceFilename} is no longer available`);
+    }
+    onStage("uploading");
+    key = await uploadVideo(file, onUploadProgress, signal);
+    onUploaded(key);
+  }
+
+  onStage("processing");
+  let jobId = pipelineJobId;
+  if (!jobId) {
+    jobId = await submitPipelineJob(key);
+    addPendingJob({ jobId, sourceFilename, uploadedKey: key });
+    onSubmitted(jobId);
+  }
+
+  let modelData: ModelResult;
+  try {
+    modelData = await pollPipelineJob(jobId, onPipelineStatus);
+  } catch (err) {
+    if (err instanceof PipelineJobFailedError) removePendingJob(jobId);
+    throw err;
+  }
+
+  onStage("analysing");
+  const finalResult = await analyseResult(modelData);
+
+  const record = await saveMatch({ result: finalResult, sourceFilename });
+  removePendingJob(jobId);
+  return record;
+};
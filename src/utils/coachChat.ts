@@ -0,0 +1,95 @@
+import type {
+  AIAnalysis,
+  BadmintonEvent,
+  ChatMessage,
+  Locale,
+  TimeBase,
+} from "../types";
+import { COACH_CHAT_HISTORY_LIMIT } from "../constant";
+import { toSeconds } from "./modelResult";
+import { findShotType } from "./shots";
+import { buildSummaryTable, computePlayerStats } from "./stats";
+import { getLocale } from "./i18n";
+
+interface AskCoachParams {
+  question: string;
+  history: ChatMessage[];
+  events: BadmintonEvent[];
+  playerIds: number[];
+  timeBase: TimeBase;
+  nameOf: (id: number) => string;
+  analysis?: AIAnalysis;
+  language?: Locale; // Language of the answer
+}
+
+/**
+ * Sends a question to `/api/coach-chat` with the match as context: every
+ * event (in seconds), the shot summary, the prior analysis and the recent
+ * conversation. Resolves to the coach's answer.
+ */
+export const askCoach = async ({
+  question,
+  history,
+  events,
+  playerIds,
+  timeBase,
+  nameOf,
+  analysis,
+  language = getLocale(),
+}: AskCoachParams): Promise<string> => {
+  const res = await fetch("/api/coach-chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      question,
+      language,
+      history: history
+        .slice(-COACH_CHAT_HISTORY_LIMIT)
+        .map(({ role, text }) => ({ role, text })),
+      context: {
+        players: playerIds.map(nameOf),
+        events: events.map((e) => ({
+          t: Number(toSeconds(e.t0, timeBase).toFixed(1)),
+          shot: findShotType(e.label) ?? e.label,
+          player: nameOf(e.track_id),
+        })),
+        summaryTable: buildSummaryTable(
+          computePlayerStats(events, playerIds),
+          playerIds,
+          nameOf,
+        ),
+        analysis,
+      },
+    }),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "The coach is unavailable");
+  return data.answer as string;
+};
+
+// --- Citations ---
+
+// A video time cited as [12.3s]
+const CITATION_PATTERN = /\[(\d+(?:\.\d+)?)s\]/g;
+
+export type ChatSegment =
+  | { kind: "text"; text: string }
+  | { kind: "time"; seconds: number };
+
+/**
+ * Splits a coach answer into plain text and cited video times.
+ */
+export const splitCitations = (text: string): ChatSegment[] => {
+  const segments: ChatSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const at = match.index ?? 0;
+    if (at > last) segments.push({ kind: "text", text: text.slice(last, at) });
+    segments.push({ kind: "time", seconds: Number(match[1]) });
+    last = at + match[0].length;
+  }
+  if (last < text.length)
+    segments.push({ kind: "text", text: text.slice(last) });
+  return segments;
+};
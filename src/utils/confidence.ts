@@ -0,0 +1,24 @@
+import type { BadmintonEvent } from "../types";
+
+/**
+ * Whether an event counts towards the stats at a confidence threshold.
+ * Unscored, hand-corrected and reviewed events always count.
+ */
+export const isConfident = (e: BadmintonEvent, threshold: number) =>
+  e.score === undefined ||
+  e.score >= threshold ||
+  !!e.corrected ||
+  !!e.reviewed;
+
+/**
+ * Events excluded at the threshold, least confident first, with their index
+ * in `events`.
+ */
+export const reviewQueue = (events: BadmintonEvent[], threshold: number) =>
+  events
+    .map((event, index) => ({ event, index }))
+    .filter(({ event }) => !isConfident(event, threshold))
+    .sort((a, b) => (a.event.score ?? 0) - (b.event.score ?? 0));
+
+export const formatScore = (score?: number) =>
+  score === undefined ? "" : score.toFixed(2);
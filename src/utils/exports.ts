@@ -0,0 +1,209 @@
+import type { BadmintonEvent, TimeBase } from "../types";
+import { DEFAULT_SHOT_SECONDS } from "../constant";
+import { toSeconds } from "./modelResult";
+import { findShotType } from "./shots";
+import { createZip } from "./zip";
+
+export type Cell = string | number | null | undefined;
+
+export interface Sheet {
+  name: string; // Max 31 characters, no []:*?/\
+  rows: Cell[][]; // First row is styled as a header
+}
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+export const CSV_TYPE = "text/csv;charset=utf-8;";
+
+/**
+ * Triggers a browser download of `content`. `type` is ignored for blobs,
+ * which carry their own.
+ */
+export const downloadFile = (
+  content: BlobPart | Blob,
+  filename: string,
+  type = "",
+) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+};
+
+// --- CSV ---
+
+// Quotes cells containing commas, quotes or line breaks (RFC 4180)
+const csvCell = (value: Cell) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (rows: Cell[][]) =>
+  rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+
+// --- Subtitles ---
+
+/**
+ * One cue per shot, from `t0` to `t1` (or `DEFAULT_SHOT_SECONDS` when the
+ * model gave no end), reading e.g. "Smash - Lee". `shotName` can translate
+ * the shot type; exported files keep the English names.
+ */
+export const shotCues = (
+  events: BadmintonEvent[],
+  timeBase: TimeBase,
+  nameOf: (trackId: number) => string,
+  shotName: (shot: string) => string = (shot) => shot,
+): SubtitleCue[] =>
+  events
+    .map((e) => {
+      const start = toSeconds(e.t0, timeBase);
+      const end =
+        e.t1 !== undefined
+          ? toSeconds(e.t1, timeBase)
+          : start + DEFAULT_SHOT_SECONDS;
+      const label = shotName(
+        findShotType(e.label) ?? e.label.replace(/_/g, " "),
+      );
+      return {
+        start,
+        end: Math.max(end, start + 0.1),
+        text: `${label} - ${nameOf(e.track_id)}`,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+
+// HH:MM:SS.mmm, with `separator` before the milliseconds
+const cueTime = (seconds: number, separator: "." | ",") => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, "0");
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const toWebVTT = (cues: SubtitleCue[]) =>
+  [
+    "WEBVTT",
+    "",
+    ...cues.flatMap((cue, i) => [
+      `${i + 1}`,
+      `${cueTime(cue.start, ".")} --> ${cueTime(cue.end, ".")}`,
+      cue.text,
+      "",
+    ]),
+  ].join("\n");
+
+export const toSRT = (cues: SubtitleCue[]) =>
+  cues
+    .flatMap((cue, i) => [
+      `${i + 1}`,
+      `${cueTime(cue.start, ",")} --> ${cueTime(cue.end, ",")}`,
+      cue.text,
+      "",
+    ])
+    .join("\r\n");
+
+// --- XLSX ---
+
+const XLSX_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const escapeXML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+// A, B, ..., Z, AA, ...
+const columnName = (index: number): string =>
+  index < 26
+    ? String.fromCharCode(65 + index)
+    : columnName(Math.floor(index / 26) - 1) + columnName(index % 26);
+
+const sheetXML = (rows: Cell[][]) => {
+  const body = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          if (value === null || value === undefined || value === "") return "";
+          const ref = `${columnName(c)}${r + 1}`;
+          const style = r === 0 ? ' s="1"' : "";
+          return typeof value === "number" && Number.isFinite(value)
+            ? `<c r="${ref}"${style}><v>${value}</v></c>`
+            : `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXML(String(value))}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${body}</sheetData></worksheet>`;
+};
+
+/**
+ * Builds an XLSX workbook with one worksheet per sheet. The first row of
+ * each sheet is bold and frozen.
+ */
+export const toXLSX = (sheets: Sheet[]): Blob => {
+  const names = sheets.map((s) =>
+    s.name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31),
+  );
+
+  return createZip(
+    [
+      {
+        name: "[Content_Types].xml",
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+          )
+          .join("")}</Types>`,
+      },
+      {
+        name: "_rels/.rels",
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+      },
+      {
+        name: "xl/workbook.xml",
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+          .map(
+            (name, i) =>
+              `<sheet name="${escapeXML(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+          )
+          .join("")}</sheets></workbook>`,
+      },
+      {
+        name: "xl/_rels/workbook.xml.rels",
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+          )
+          .join(
+            "",
+          )}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+      },
+      {
+        name: "xl/styles.xml",
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+      },
+      ...sheets.map((sheet, i) => ({
+        name: `xl/worksheets/sheet${i + 1}.xml`,
+        data: sheetXML(sheet.rows),
+      })),
+    ],
+    XLSX_TYPE,
+  );
+};
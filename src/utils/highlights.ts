@@ -0,0 +1,140 @@
+import { HIGHLIGHTS_FORMAT, HIGHLIGHTS_VERSION } from "../constant";
+
+/** A shot added to the highlight reel, in video seconds. */
+export interface ReelShot {
+  id: string;
+  label: string;
+  playerName: string;
+  t0: number;
+  t1: number;
+}
+
+/** The stretch of video a reel shot plays, after pre/post-roll. */
+export interface ClipWindow {
+  shot: ReelShot;
+  start: number;
+  end: number;
+}
+
+export interface RollSettings {
+  preRoll: number;
+  postRoll: number;
+}
+
+/**
+ * Expands each shot by the pre/post-roll, clamped to the video length
+ * (`duration` of 0 means unknown).
+ */
+export const clipWindows = (
+  shots: ReelShot[],
+  { preRoll, postRoll }: RollSettings,
+  duration = 0,
+): ClipWindow[] =>
+  shots.map((shot) => ({
+    shot,
+    start: Math.max(0, shot.t0 - preRoll),
+    end: duration
+      ? Math.min(duration, shot.t1 + postRoll)
+      : shot.t1 + postRoll,
+  }));
+
+const clipTitle = (shot: ReelShot) => `${shot.label} by ${shot.playerName}`;
+
+// --- Exporters ---
+
+/**
+ * FFmpeg concat demuxer script. Cut the reel with
+ * `ffmpeg -f concat -safe 0 -i reel.ffconcat reel.mp4`
+ * (re-encoding keeps cuts frame-accurate; `-c copy` snaps to keyframes).
+ */
+export const toFfmpegConcat = (windows: ClipWindow[], sourceName: string) => {
+  const file = sourceName.replace(/'/g, "'\\''");
+  return [
+    "ffconcat version 1.0",
+    `# Highlight reel from ${sourceName}`,
+    ...windows.flatMap((w) => [
+      `# ${clipTitle(w.shot)}`,
+      `file '${file}'`,
+      `inpoint ${w.start.toFixed(3)}`,
+      `outpoint ${w.end.toFixed(3)}`,
+    ]),
+    "",
+  ].join("\n");
+};
+
+// HH:MM:SS:FF at a whole-number frame rate
+const timecode = (seconds: number, fps: number) => {
+  const totalFrames = Math.round(seconds * fps);
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+    frames,
+  ]
+    .map((n) => n.toString().padStart(2, "0"))
+    .join(":");
+};
+
+/**
+ * CMX 3600 edit decision list, with clips laid back to back on the record
+ * side. Non-integer frame rates are rounded (non-drop-frame timecode).
+ */
+export const toEDL = (
+  windows: ClipWindow[],
+  { title, sourceName, fps }: { title: string; sourceName: string; fps: number },
+) => {
+  const rate = Math.max(1, Math.round(fps));
+  let recordStart = 0;
+
+  const entries = windows.flatMap((w, i) => {
+    const length = w.end - w.start;
+    const line = `${String(i + 1).padStart(3, "0")}  AX       V     C        ${timecode(w.start, rate)} ${timecode(w.end, rate)} ${timecode(recordStart, rate)} ${timecode(recordStart + length, rate)}`;
+    recordStart += length;
+    return [
+      line,
+      `* FROM CLIP NAME: ${sourceName}`,
+      `* COMMENT: ${clipTitle(w.shot)}`,
+      "",
+    ];
+  });
+
+  return [`TITLE: ${title}`, "FCM: NON-DROP FRAME", "", ...entries].join(
+    "\n",
+  );
+};
+
+/** Machine-readable clip list. */
+export const toHighlightsJSON = (
+  windows: ClipWindow[],
+  {
+    title,
+    sourceName,
+    fps,
+    preRoll,
+    postRoll,
+  }: RollSettings & { title: string; sourceName: string; fps: number },
+) =>
+  JSON.stringify(
+    {
+      format: HIGHLIGHTS_FORMAT,
+      version: HIGHLIGHTS_VERSION,
+      title,
+      source: sourceName,
+      fps,
+      preRoll,
+      postRoll,
+      clips: windows.map((w, i) => ({
+        index: i + 1,
+        label: w.shot.label,
+        player: w.shot.playerName,
+        shotStart: w.shot.t0,
+        shotEnd: w.shot.t1,
+        start: Number(w.start.toFixed(3)),
+        end: Number(w.end.toFixed(3)),
+      })),
+    },
+    null,
+    2,
+  );
@@ -0,0 +1,68 @@
+import type { Locale } from "../types";
+import { LOCALES, DEFAULT_LOCALE } from "../constant";
+import en from "../locales/en";
+import ms from "../locales/ms";
+import zh from "../locales/zh";
+import type { MessageKey, Messages } from "../locales/en";
+
+export type { MessageKey };
+
+const MESSAGES: Record<Locale, Messages> = { en, ms, zh };
+
+// --- Translation ---
+
+export type TranslateParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+/**
+ * Looks up `key` in the locale's messages and fills its `{name}`
+ * placeholders from `params`. Unknown placeholders are left as written.
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: TranslateParams = {},
+) =>
+  (MESSAGES[locale]?.[key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match,
+  );
+
+// `translate` bound to a locale, as returned by useI18n
+export const translator =
+  (locale: Locale): Translate =>
+  (key, params) =>
+    translate(locale, key, params);
+
+// --- Current Locale ---
+
+const STORAGE_KEY = "mds06-locale";
+
+const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((l) => l.code === value);
+
+/**
+ * The language chosen with the switcher, else the browser's language when
+ * it is one of LOCALES ("zh-CN" → "zh"), else English.
+ */
+export const getLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  const browser = navigator.language.split("-")[0].toLowerCase();
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+const listeners = new Set<() => void>();
+
+export const setLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+};
+
+// Calls `listener` whenever the locale changes; returns the unsubscribe
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
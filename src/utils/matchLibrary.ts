@@ -0,0 +1,153 @@
+import type {
+  BadmintonEvent,
+  ChatMessage,
+  MatchRecord,
+  ModelResult,
+  PlayerRoster,
+} from "../types";
+
+const DB_NAME = "mds06-match-library";
+const DB_VERSION = 1;
+const STORE_NAME = "matches";
+
+interface SaveMatchParams {
+  result: ModelResult;
+  sourceFilename: string;
+  title?: string;
+  uploadedAt?: string; // Preserved when importing an exported analysis
+  correctedEvents?: BadmintonEvent[];
+  roster?: PlayerRoster;
+  confidenceThreshold?: number;
+  chat?: ChatMessage[];
+}
+
+// --- Helpers ---
+
+// Wraps a single IDBRequest in a Promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("uploadedAt", "uploadedAt");
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens a transaction on the matches store, runs `fn` against it and
+ * closes the connection once the transaction settles. `fn` may chain
+ * several requests by awaiting them, as long as it issues each one as soon
+ * as the previous one resolves (otherwise the transaction commits early).
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(STORE_NAME, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    const request = fn(tx.objectStore(STORE_NAME));
+    const [result] = await Promise.all([
+      request instanceof IDBRequest ? promisify(request) : request,
+      done,
+    ]);
+    return result;
+  } finally {
+    db.close();
+  }
+};
+
+// Strips the extension from an uploaded file name for a default title
+const defaultTitle = (filename: string) =>
+  filename.replace(/\.[^/.]+$/, "") || "Untitled match";
+
+// --- Public API ---
+
+/**
+ * Stores a new analysis in the library and returns the saved record.
+ */
+export const saveMatch = async ({
+  result,
+  sourceFilename,
+  title,
+  uploadedAt,
+  correctedEvents,
+  roster,
+  confidenceThreshold,
+  chat,
+}: SaveMatchParams): Promise<MatchRecord> => {
+  const record: MatchRecord = {
+    id: crypto.randomUUID(),
+    title: title?.trim() || defaultTitle(sourceFilename),
+    uploadedAt: uploadedAt ?? new Date().toISOString(),
+    sourceFilename,
+    result,
+    correctedEvents,
+    roster,
+    confidenceThreshold,
+    chat,
+  };
+  await withStore("readwrite", (store) => store.put(record));
+  return record;
+};
+
+/**
+ * Returns every stored match, most recent first.
+ */
+export const listMatches = async (): Promise<MatchRecord[]> => {
+  const records = await withStore<MatchRecord[]>("readonly", (store) =>
+    store.getAll(),
+  );
+  return records.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+};
+
+export const getMatch = async (id: string): Promise<MatchRecord | null> => {
+  const record = await withStore<MatchRecord | undefined>(
+    "readonly",
+    (store) => store.get(id),
+  );
+  return record ?? null;
+};
+
+/**
+ * Merges `changes` into an existing record. Throws if the match is unknown.
+ * The read and the write share one transaction, so concurrent updates of
+ * the same match cannot overwrite each other's changes.
+ */
+export const updateMatch = (
+  id: string,
+  changes: Partial<Omit<MatchRecord, "id">>,
+): Promise<MatchRecord> =>
+  withStore("readwrite", async (store) => {
+    const existing = await promisify<MatchRecord | undefined>(store.get(id));
+    if (!existing) throw new Error(`Match ${id} not found`);
+
+    const updated: MatchRecord = { ...existing, ...changes, id };
+    await promisify(store.put(updated));
+    return updated;
+  });
+
+export const renameMatch = (id: string, title: string) =>
+  updateMatch(id, { title: title.trim() || "Untitled match" });
+
+export const deleteMatch = async (id: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+};
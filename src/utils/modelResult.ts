@@ -0,0 +1,246 @@
+import type { BadmintonEvent, ModelResult, TimeBase, TimeUnit } from "../types";
+import { DEFAULT_FPS, MODEL_RESULT_SCHEMA_VERSION } from "../constant";
+import { aiAnalysisIssues } from "./aiAnalysis";
+
+/**
+ * Thrown when a pipeline payload cannot be turned into a ModelResult.
+ * `issues` lists every problem found, one human-readable line each.
+ */
+export class ModelResultValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid analysis data:\n- ${issues.join("\n- ")}`);
+    this.name = "ModelResultValidationError";
+    this.issues = issues;
+  }
+}
+
+export interface LoadedModelResult {
+  result: ModelResult;
+  warnings: string[];
+}
+
+type RawPayload = Record<string, unknown>;
+
+// --- Helpers ---
+
+const isObject = (value: unknown): value is RawPayload =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const parseTimeUnit = (value: unknown): TimeUnit | null => {
+  if (typeof value !== "string") return null;
+  const unit = value.toLowerCase().trim();
+  if (unit === "frames" || unit === "frame") return "frames";
+  if (unit === "seconds" || unit === "second" || unit === "s") return "seconds";
+  return null;
+};
+
+/**
+ * Converts a raw `t0`/`t1` value into seconds using the declared time base.
+ */
+export const toSeconds = (t: number, { timeUnit, fps }: TimeBase) =>
+  timeUnit === "frames" ? t / fps : t;
+
+/**
+ * Inverse of `toSeconds`: converts video seconds into the declared time base.
+ */
+export const fromSeconds = (seconds: number, { timeUnit, fps }: TimeBase) =>
+  timeUnit === "frames" ? Math.round(seconds * fps) : seconds;
+
+// --- Migrations ---
+
+/**
+ * v0 → v1: the raw pipeline output with no schema version.
+ * Picks up `fps` / `time_unit` when the pipeline sent them, otherwise infers
+ * the unit (integer timestamps are frame indices) and flags the result.
+ */
+const migrateV0 = (raw: RawPayload, warnings: string[]): RawPayload => {
+  const declaredUnit = parseTimeUnit(raw.timeUnit ?? raw.time_unit);
+  const declaredFps = raw.fps ?? raw.video_fps;
+  const events = Array.isArray(raw.events) ? raw.events : [];
+
+  let timeUnit = declaredUnit;
+  let inferred = false;
+  if (!timeUnit) {
+    const times = events.flatMap((e) =>
+      isObject(e) ? [e.t0, e.t1].filter(isFiniteNumber) : [],
+    );
+    timeUnit =
+      times.length > 0 && times.every(Number.isInteger) ? "frames" : "seconds";
+    inferred = true;
+  }
+
+  let fps = declaredFps;
+  if (!isFiniteNumber(fps)) {
+    fps = DEFAULT_FPS;
+    if (timeUnit === "frames") inferred = true;
+  }
+
+  if (inferred) {
+    warnings.push(
+      timeUnit === "frames"
+        ? `The pipeline did not declare a time base. Timestamps were read as frames at ${fps} fps.`
+        : "The pipeline did not declare a time base. Timestamps were read as seconds.",
+    );
+  }
+
+  return {
+    ...raw,
+    schemaVersion: 1,
+    timeUnit,
+    fps,
+    timeBaseInferred: inferred || undefined,
+  };
+};
+
+/**
+ * v1 → v2: the AI analysis became structured (`aiAnalysis`). The old
+ * free-text `aiSummary` / `aiVerified` cannot be parsed reliably, so they are
+ * dropped and the analysis has to be refreshed.
+ */
+const migrateV1 = (raw: RawPayload, warnings: string[]): RawPayload => {
+  const { aiSummary, aiVerified, ...rest } = raw;
+  if (aiSummary !== undefined || aiVerified !== undefined) {
+    warnings.push(
+      "This match has an AI analysis in the old free-text format. Use Refresh Analysis to regenerate it.",
+    );
+  }
+  return { ...rest, schemaVersion: 2 };
+};
+
+const MIGRATIONS: Record<
+  number,
+  (raw: RawPayload, warnings: string[]) => RawPayload
+> = {
+  0: migrateV0,
+  1: migrateV1,
+};
+
+// --- Validation ---
+
+const validateEvent = (
+  value: unknown,
+  idx: number,
+  issues: string[],
+): BadmintonEvent | null => {
+  const at = `events[${idx}]`;
+  if (!isObject(value)) {
+    issues.push(`${at} is not an object`);
+    return null;
+  }
+
+  const { label, track_id, t0, t1, score } = value;
+  const before = issues.length;
+
+  if (typeof label !== "string" || label.trim() === "")
+    issues.push(`${at}.label must be a non-empty string`);
+  if (!isFiniteNumber(track_id) || !Number.isInteger(track_id))
+    issues.push(`${at}.track_id must be an integer`);
+  if (!isFiniteNumber(t0) || t0 < 0)
+    issues.push(`${at}.t0 must be a non-negative number`);
+  if (t1 !== undefined && t1 !== null) {
+    if (!isFiniteNumber(t1)) issues.push(`${at}.t1 must be a number`);
+    else if (isFiniteNumber(t0) && t1 < t0)
+      issues.push(`${at}.t1 (${t1}) is before t0 (${t0})`);
+  }
+  if (score !== undefined && score !== null && !isFiniteNumber(score))
+    issues.push(`${at}.score must be a number`);
+
+  if (issues.length > before) return null;
+  return {
+    ...value,
+    label: label as string,
+    track_id: track_id as number,
+    t0: t0 as number,
+    t1: isFiniteNumber(t1) ? t1 : undefined,
+    score: isFiniteNumber(score) ? score : undefined,
+  };
+};
+
+const validateCurrent = (raw: RawPayload): ModelResult => {
+  const issues: string[] = [];
+
+  const timeUnit = parseTimeUnit(raw.timeUnit);
+  if (!timeUnit) issues.push(`timeUnit must be "frames" or "seconds"`);
+  if (!isFiniteNumber(raw.fps) || raw.fps <= 0)
+    issues.push("fps must be a positive number");
+
+  if (!Array.isArray(raw.events)) issues.push("events must be an array");
+  const events = Array.isArray(raw.events)
+    ? raw.events.map((e, idx) => validateEvent(e, idx, issues))
+    : [];
+
+  if (raw.aiAnalysis !== undefined)
+    issues.push(...aiAnalysisIssues(raw.aiAnalysis));
+  if (raw.outputs !== undefined && !isObject(raw.outputs))
+    issues.push("outputs must be an object");
+
+  if (issues.length > 0) throw new ModelResultValidationError(issues);
+
+  return {
+    ...raw,
+    schemaVersion: MODEL_RESULT_SCHEMA_VERSION,
+    timeUnit: timeUnit as TimeUnit,
+    fps: raw.fps as number,
+    events: events as BadmintonEvent[],
+  } as ModelResult;
+};
+
+// --- Public API ---
+
+/**
+ * Validates a bare event list, e.g. manually corrected events.
+ */
+export const validateEvents = (raw: unknown): BadmintonEvent[] => {
+  if (!Array.isArray(raw))
+    throw new ModelResultValidationError(["events must be an array"]);
+
+  const issues: string[] = [];
+  const events = raw.map((e, idx) => validateEvent(e, idx, issues));
+  if (issues.length > 0) throw new ModelResultValidationError(issues);
+  return events as BadmintonEvent[];
+};
+
+/**
+ * Validates pipeline JSON (or a stored result) and migrates it to the current
+ * schema. Throws `ModelResultValidationError` listing every problem found.
+ */
+export const loadModelResult = (raw: unknown): LoadedModelResult => {
+  if (!isObject(raw))
+    throw new ModelResultValidationError(["payload is not a JSON object"]);
+
+  const warnings: string[] = [];
+  let payload = raw;
+  let version = isFiniteNumber(payload.schemaVersion)
+    ? payload.schemaVersion
+    : 0;
+
+  if (version > MODEL_RESULT_SCHEMA_VERSION) {
+    throw new ModelResultValidationError([
+      `schemaVersion ${version} is newer than this app supports (${MODEL_RESULT_SCHEMA_VERSION})`,
+    ]);
+  }
+
+  while (version < MODEL_RESULT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ModelResultValidationError([
+        `no migration available from schemaVersion ${version}`,
+      ]);
+    }
+    payload = migrate(payload, warnings);
+    version = payload.schemaVersion as number;
+  }
+
+  const result = validateCurrent(payload);
+  if (result.timeBaseInferred && warnings.length === 0) {
+    warnings.push(
+      `The time base for this match was inferred (${result.timeUnit} at ${result.fps} fps).`,
+    );
+  }
+  return { result, warnings };
+};
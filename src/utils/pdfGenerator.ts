@@ -1,205 +1,675 @@
 import jsPDF from "jspdf";
-import html2canvas from "html2canvas";
-import { ModelResult, PlayerStats } from "../types";
-import { SHOT_TYPES } from "../constants";
+import cjkFontUrl from "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url";
+import type {
+  ChatMessage,
+  Locale,
+  MatchRecord,
+  ModelResult,
+  PlayerStats,
+  ReportSectionId,
+} from "../types";
+import {
+  CHART_COLORS,
+  DEFAULT_LOCALE,
+  REPORT_SECTIONS,
+} from "../constant";
+import type { RallyLengthBucket } from "./rallies";
+import { rallyBucketLabel } from "./rallies";
+import { toSeconds } from "./modelResult";
+import { findShotType, localizedShotName } from "./shots";
+import { statShotTypes } from "./stats";
+import { translator } from "./i18n";
 
 interface GeneratePDFParams {
+  match: Pick<MatchRecord, "title" | "uploadedAt" | "sourceFilename">;
   modelResult: ModelResult;
   playerIds: number[];
+  playerName?: (playerId: number) => string;
   playerStats: PlayerStats;
-  chartElement: HTMLElement | null; // The DOM node for the chart
-  timeUnit: "frames" | "seconds";
-  fps: number;
+  rallyDistribution?: RallyLengthBucket[];
+  confidenceThreshold?: number;
+  excludedCount?: number; // Detections left out below the threshold
+  chat?: ChatMessage[]; // Ask-the-coach conversation
+  sections?: ReportSectionId[]; // Sections to include, in order
+  foreword?: string; // Coach's foreword, printed before the sections
+  filterNote?: string; // Describes the filters applied to the data
+  locale?: Locale; // Language of the report's own text and shot names
 }
 
+interface TableColumn {
+  header: string;
+  width: number; // Share of the content width, columns sum to 1
+  align?: "left" | "right";
+}
+
+interface ChartSeries {
+  name: string;
+  color: string;
+  values: number[]; // One per category
+}
+
+// --- Layout ---
+
+const LATIN_FONT = "helvetica";
+const CJK_FONT = "NotoSansSC";
+const MARGIN = 40;
+const HEADER_Y = 26; // Running header baseline
+const FOOTER_GAP = 20; // Footer baseline above the page bottom
+const CONTENT_TOP = MARGIN + 20;
+const TOC_PAGE = 2;
+
+const GRID_COLOR = "#e5e7eb";
+const TEXT_MUTED = "#6b7280";
+const ZEBRA_FILL = "#f9fafb";
+const HEADER_FILL = "#f3f4f6";
+
+// Rounds a chart maximum up to 1, 2 or 5 times a power of ten
+const niceCeil = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((s) => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+// --- Fonts ---
+
+// Chinese, Japanese and Korean characters, which the standard fonts lack
+const CJK_PATTERN = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// The bundled Noto Sans SC (TrueType) is about 10 MB, so it is fetched once
+// and only when a report needs it; jsPDF embeds just the glyphs used
+let cjkFontData: Promise<string> | null = null;
+
+const fetchCjkFont = () => {
+  cjkFontData ??= fetch(cjkFontUrl)
+    .then(async (res) => {
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return toBase64(await res.arrayBuffer());
+    })
+    .catch((err) => {
+      cjkFontData = null; // Try again on the next report
+      throw err;
+    });
+  return cjkFontData;
+};
+
 /**
- * Generates a professional PDF report including AI summaries,
- * charts, event logs, and statistical tables.
+ * Generates the PDF match report: a cover page, a table of contents, an
+ * optional coach's foreword and the chosen `sections` in order (AI analysis,
+ * recommendations, vector charts drawn from `playerStats`, tables, rally
+ * lengths, the event log and the coach chat). Every page after the cover has
+ * a running header and a footer with its page number; long tables repeat
+ * their header on each page.
+ *
+ * The report is written in `locale`. jsPDF's standard fonts cannot draw CJK
+ * text, so Chinese reports (and reports whose names, file name, shot labels,
+ * notes or analysis contain CJK characters) embed the bundled Noto Sans SC
+ * font.
  */
 export const generateMatchReport = async ({
+  match,
   modelResult,
   playerIds,
+  playerName,
   playerStats,
-  chartElement,
-  timeUnit,
-  fps,
+  rallyDistribution,
+  confidenceThreshold,
+  excludedCount = 0,
+  chat,
+  sections = REPORT_SECTIONS.map((s) => s.id),
+  foreword,
+  filterNote,
+  locale = DEFAULT_LOCALE,
 }: GeneratePDFParams) => {
+  const t = translator(locale);
+  const nameOf = playerName ?? ((id: number) => t("report.player", { id }));
+  const reportTitle = t("report.title");
   const pdf = new jsPDF("p", "pt", "a4");
-  const pageWidth = 595;
-  const pageHeight = 842;
-  const margin = 40;
-  const pdfWidth = pageWidth - margin * 2;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const contentBottom = pageHeight - MARGIN - 10;
+  const generatedAt = new Date();
+  const toc: { title: string; page: number }[] = [];
+
+  // Embed the CJK font when the report's text needs it. A Chinese report
+  // cannot do without it; otherwise only the CJK names would be garbled.
+  let font = LATIN_FONT;
+  const reportText = [
+    reportTitle,
+    match.title,
+    match.sourceFilename,
+    ...playerIds.map(nameOf),
+    ...modelResult.events.map((e) => e.label),
+    JSON.stringify(modelResult.aiAnalysis ?? ""),
+    ...(chat ?? []).map((m) => m.text),
+    foreword ?? "",
+    filterNote ?? "",
+  ].join("\n");
+  if (CJK_PATTERN.test(reportText)) {
+    try {
+      const fontFile = "NotoSansSC-Regular.ttf";
+      pdf.addFileToVFS(fontFile, await fetchCjkFont());
+      // No bold face is bundled; headings use the regular weight
+      pdf.addFont(fontFile, CJK_FONT, "normal");
+      pdf.addFont(fontFile, CJK_FONT, "bold");
+      font = CJK_FONT;
+    } catch (err: any) {
+      if (locale === "zh")
+        throw new Error(
+          t("report.fontMissing", { error: err.message }),
+        );
+      console.warn("CJK font unavailable, CJK text will not render", err);
+    }
+  }
+
+  let yOffset = CONTENT_TOP;
 
-  let yOffset = margin;
+  // --- Helpers ---
 
-  // --- Helper: Label Formatter ---
-  const formatLabel = (label: string) => {
-    const normalize = (l: string) => l.toLowerCase().replace(/_/g, " ").trim();
-    const match = SHOT_TYPES.find((s) => normalize(s) === normalize(label));
-    return match || label.replace(/_/g, " ");
+  const formatLabel = (label: string) =>
+    localizedShotName(findShotType(label) || label.replace(/_/g, " "), locale);
+
+  const setFont = (size: number, style: "normal" | "bold" = "normal") => {
+    pdf.setFont(font, style);
+    pdf.setFontSize(size);
   };
 
-  // --- Section 1: AI Summary ---
-  if (modelResult?.aiSummary) {
-    pdf.setFont(undefined, "bold");
-    pdf.setFontSize(18);
+  const newPage = () => {
+    pdf.addPage();
+    yOffset = CONTENT_TOP;
+  };
 
-    const title = "Match Analysis";
-    pdf.text(title, (pageWidth - pdf.getTextWidth(title)) / 2, yOffset);
-    yOffset += 30;
+  // Starts a new page unless `height` still fits on this one
+  const ensureSpace = (height: number) => {
+    if (yOffset + height > contentBottom) newPage();
+  };
+
+  const centeredText = (text: string, y: number) =>
+    pdf.text(text, (pageWidth - pdf.getTextWidth(text)) / 2, y);
+
+  // Section heading, recorded in the table of contents
+  const startSection = (title: string, { freshPage = false } = {}) => {
+    // The table of contents page is kept free of content
+    if (freshPage || pdf.getNumberOfPages() === TOC_PAGE) newPage();
+    else ensureSpace(60);
+    toc.push({ title, page: pdf.getNumberOfPages() });
+    setFont(16, "bold");
+    pdf.text(title, MARGIN, yOffset);
+    pdf.setDrawColor("#7c3aed");
+    pdf.setLineWidth(1);
+    pdf.line(MARGIN, yOffset + 6, pageWidth - MARGIN, yOffset + 6);
+    yOffset += 26;
+  };
 
-    // Process markdown-style bolding (**text**) locally for PDF
-    const plainText = modelResult.aiSummary
-      .replace(/<\/?[^>]+(>|$)/g, "")
-      .trim();
-    const lines = plainText.split("\n").filter((l) => l.trim() !== "");
+  const subheading = (title: string) => {
+    ensureSpace(40);
+    setFont(12, "bold");
+    pdf.text(title, MARGIN, yOffset);
+    yOffset += 16;
+  };
 
+  // Wrapped paragraph, breaking pages between lines
+  const writeText = (
+    text: string,
+    { size = 10, bold = false, indent = 0, lineHeight = 12 } = {},
+  ) => {
+    setFont(size, bold ? "bold" : "normal");
+    const lines: string[] = pdf.splitTextToSize(text, contentWidth - indent);
     lines.forEach((line) => {
-      // Simple splitting by bold markers
-      const parts = line.split(/(\*\*.*?\*\*)/g);
-      parts.forEach((part) => {
-        if (!part) return;
-        if (/\*\*(.*?)\*\*/.test(part)) {
-          pdf.setFont(undefined, "bold");
-          pdf.setFontSize(12);
-          const text = part.replace(/\*\*/g, "");
-          const splitText = pdf.splitTextToSize(text, pdfWidth);
-          pdf.text(splitText, margin, yOffset);
-          yOffset += splitText.length * 14;
+      ensureSpace(lineHeight);
+      pdf.text(line, MARGIN + indent, yOffset);
+      yOffset += lineHeight;
+    });
+  };
+
+  /**
+   * Draws a table, repeating the header row after every page break.
+   * Cells are truncated to a single line.
+   */
+  const drawTable = (
+    columns: TableColumn[],
+    rows: string[][],
+    { rowHeight = 16, fontSize = 9 } = {},
+  ) => {
+    const widths = columns.map((c) => c.width * contentWidth);
+    const padding = 4;
+
+    const drawRow = (cells: string[], { header = false, zebra = false }) => {
+      if (header || zebra) {
+        pdf.setFillColor(header ? HEADER_FILL : ZEBRA_FILL);
+        pdf.rect(MARGIN, yOffset, contentWidth, rowHeight, "F");
+      }
+      setFont(fontSize, header ? "bold" : "normal");
+      let x = MARGIN;
+      cells.forEach((cell, c) => {
+        const [text] = pdf.splitTextToSize(cell, widths[c] - padding * 2);
+        const baseline = yOffset + rowHeight / 2 + fontSize * 0.35;
+        if (columns[c].align === "right") {
+          pdf.text(text ?? "", x + widths[c] - padding, baseline, {
+            align: "right",
+          });
         } else {
-          pdf.setFont(undefined, "normal");
-          pdf.setFontSize(10);
-          const splitText = pdf.splitTextToSize(part, pdfWidth);
-          pdf.text(splitText, margin, yOffset);
-          yOffset += splitText.length * 12;
+          pdf.text(text ?? "", x + padding, baseline);
         }
+        x += widths[c];
       });
-      yOffset += 10;
+      pdf.setDrawColor(GRID_COLOR);
+      pdf.setLineWidth(0.5);
+      pdf.line(
+        MARGIN,
+        yOffset + rowHeight,
+        MARGIN + contentWidth,
+        yOffset + rowHeight,
+      );
+      yOffset += rowHeight;
+    };
+
+    const headers = columns.map((c) => c.header);
+    ensureSpace(rowHeight * 2);
+    drawRow(headers, { header: true });
+    rows.forEach((row, idx) => {
+      if (yOffset + rowHeight > contentBottom) {
+        newPage();
+        drawRow(headers, { header: true });
+      }
+      drawRow(row, { zebra: idx % 2 === 1 });
     });
-    yOffset += 30;
-  }
+    yOffset += 16;
+  };
 
-  // --- Section 2: Chart Image ---
-  if (chartElement) {
-    const chartTitle = "Shot Distribution Between Players";
-    pdf.setFont(undefined, "bold");
-    pdf.setFontSize(16);
-    pdf.text(
-      chartTitle,
-      (pageWidth - pdf.getTextWidth(chartTitle)) / 2,
-      yOffset,
-    );
-    yOffset += 15;
-
-    const chartCanvas = await html2canvas(chartElement, { scale: 2 });
-    const chartImg = chartCanvas.toDataURL("image/png");
-    const chartMaxWidth = pageWidth - margin * 2;
-    const chartHeight = 300;
-
-    // Center chart
-    const xOffset = (pageWidth - chartMaxWidth) / 2 + 30;
-    pdf.addImage(
-      chartImg,
-      "PNG",
-      xOffset,
-      yOffset,
-      chartMaxWidth - 60,
-      chartHeight,
-    );
+  /**
+   * Draws a grouped vertical bar chart with a y-axis, gridlines, slanted
+   * category labels and a legend (when there is more than one series).
+   */
+  const drawBarChart = (
+    categories: string[],
+    series: ChartSeries[],
+    { plotHeight = 200 } = {},
+  ) => {
+    const legendHeight = series.length > 1 ? 20 : 0;
+    const labelHeight = 60;
+    ensureSpace(legendHeight + plotHeight + labelHeight);
 
-    yOffset += chartHeight + 40;
-  }
+    // Legend
+    if (series.length > 1) {
+      setFont(9);
+      let x = MARGIN;
+      series.forEach((s) => {
+        pdf.setFillColor(s.color);
+        pdf.rect(x, yOffset - 7, 8, 8, "F");
+        pdf.setTextColor("#000000");
+        pdf.text(s.name, x + 12, yOffset);
+        x += pdf.getTextWidth(s.name) + 28;
+      });
+      yOffset += legendHeight;
+    }
+
+    const axisWidth = 28;
+    const plotLeft = MARGIN + axisWidth;
+    const plotWidth = contentWidth - axisWidth;
+    const plotTop = yOffset;
+    const plotBottom = plotTop + plotHeight;
+    const maxValue = niceCeil(Math.max(0, ...series.flatMap((s) => s.values)));
+    const ticks = 5;
+
+    // Gridlines and y-axis labels
+    setFont(8);
+    pdf.setLineWidth(0.5);
+    for (let i = 0; i <= ticks; i++) {
+      const value = (maxValue / ticks) * i;
+      const y = plotBottom - (plotHeight / ticks) * i;
+      pdf.setDrawColor(i === 0 ? "#9ca3af" : GRID_COLOR);
+      pdf.line(plotLeft, y, plotLeft + plotWidth, y);
+      pdf.setTextColor(TEXT_MUTED);
+      pdf.text(
+        Number.isInteger(value) ? `${value}` : value.toFixed(1),
+        plotLeft - 4,
+        y + 3,
+        { align: "right" },
+      );
+    }
 
-  // --- Page Break for Data Logs ---
-  pdf.addPage();
-  yOffset = margin;
+    // Bars
+    const groupWidth = plotWidth / Math.max(categories.length, 1);
+    const barWidth = (groupWidth * 0.8) / Math.max(series.length, 1);
+    categories.forEach((category, c) => {
+      const groupLeft = plotLeft + groupWidth * c + groupWidth * 0.1;
+      series.forEach((s, i) => {
+        const barHeight = (s.values[c] / maxValue) * plotHeight;
+        if (barHeight <= 0) return;
+        pdf.setFillColor(s.color);
+        pdf.rect(
+          groupLeft + barWidth * i,
+          plotBottom - barHeight,
+          barWidth,
+          barHeight,
+          "F",
+        );
+      });
 
-  // --- Section 3: Event Logs ---
-  pdf.setFont(undefined, "bold");
-  pdf.setFontSize(16);
-  const logsTitle = "Event Logs";
-  pdf.text(logsTitle, (pageWidth - pdf.getTextWidth(logsTitle)) / 2, yOffset);
-  yOffset += 25;
+      pdf.setTextColor("#000000");
+      pdf.text(category, plotLeft + groupWidth * (c + 0.5), plotBottom + 10, {
+        angle: -45,
+      });
+    });
 
-  if (modelResult.events && modelResult.events.length > 0) {
-    pdf.setFont(undefined, "normal");
-    pdf.setFontSize(9);
+    pdf.setTextColor("#000000");
+    yOffset = plotBottom + labelHeight;
+  };
 
-    modelResult.events.forEach((event) => {
-      const eventTime = timeUnit === "frames" ? event.t0 / fps : event.t0;
-      const line = `[${eventTime.toFixed(1)}s] ${formatLabel(event.label)} by Player ${event.track_id}`;
-      const splitText = pdf.splitTextToSize(line, pdfWidth);
+  // --- Cover Page ---
+  setFont(26, "bold");
+  centeredText(reportTitle, 200);
+  setFont(16);
+  const titleLines: string[] = pdf.splitTextToSize(match.title, contentWidth);
+  titleLines.forEach((line, idx) => centeredText(line, 240 + idx * 20));
 
-      pdf.text(splitText, margin, yOffset);
-      yOffset += splitText.length * 12;
+  const timeUnit = t(
+    modelResult.timeUnit === "frames" ? "common.frames" : "common.seconds",
+  );
+  const coverDetails: [string, string][] = [
+    [
+      t("report.players"),
+      playerIds.map(nameOf).join(` ${t("report.versus")} `),
+    ],
+    [t("report.uploaded"), new Date(match.uploadedAt).toLocaleString(locale)],
+    [t("report.sourceVideo"), match.sourceFilename],
+    [t("report.shotsAnalysed"), `${modelResult.events.length}`],
+    [
+      t("report.timeBase"),
+      t(
+        modelResult.timeBaseInferred
+          ? "report.timeBaseInferred"
+          : "report.timeBaseValue",
+        { unit: timeUnit, fps: modelResult.fps },
+      ),
+    ],
+    ...(confidenceThreshold !== undefined
+      ? [
+          [
+            t("report.threshold"),
+            t("report.thresholdValue", {
+              threshold: confidenceThreshold.toFixed(2),
+              count: excludedCount,
+            }),
+          ] as [string, string],
+        ]
+      : []),
+    ...(filterNote
+      ? [[t("report.filteredTo"), filterNote] as [string, string]]
+      : []),
+    [t("report.generated"), generatedAt.toLocaleString(locale)],
+  ];
+  let coverY = 330;
+  coverDetails.forEach(([label, value]) => {
+    setFont(11, "bold");
+    pdf.text(label, pageWidth / 2 - 10, coverY, { align: "right" });
+    setFont(11);
+    const [line] = pdf.splitTextToSize(value, pageWidth / 2 - MARGIN);
+    pdf.text(line ?? "", pageWidth / 2 + 10, coverY);
+    coverY += 20;
+  });
 
-      if (yOffset > pageHeight - margin) {
-        pdf.addPage();
-        yOffset = margin;
-      }
-    });
-    yOffset += 20;
+  // Reserved for the table of contents, filled in once pages are known
+  newPage();
+
+  // --- Section: Coach's Foreword ---
+  if (foreword?.trim()) {
+    startSection(t("report.foreword"), { freshPage: true });
+    writeText(foreword.trim(), { size: 11, lineHeight: 14 });
   }
 
-  // --- Section 4: Summary Table ---
-  pdf.setFont(undefined, "bold");
-  pdf.setFontSize(16);
-  const tableTitle = "Shot Summary Table";
+  const analysis = modelResult.aiAnalysis;
+  const shotTypes = statShotTypes(playerStats);
 
-  const rowHeight = 18;
-  const tableHeight = rowHeight * (SHOT_TYPES.length + 1);
+  // --- Section: AI Analysis ---
+  const renderAnalysis = () => {
+    if (!analysis) return;
+    startSection(t("report.analysis"), { freshPage: true });
 
-  // Check if table fits, else new page
-  if (yOffset + tableHeight + margin > pageHeight) {
-    pdf.addPage();
-    yOffset = margin;
-  }
+    if (analysis.source === "rules") {
+      pdf.setTextColor(TEXT_MUTED);
+      writeText(t("report.rulesNote"), { size: 9, lineHeight: 11 });
+      pdf.setTextColor("#000000");
+      yOffset += 8;
+    }
 
-  pdf.text(tableTitle, (pageWidth - pdf.getTextWidth(tableTitle)) / 2, yOffset);
-  yOffset += 20;
-
-  // Render Table
-  const cellPadding = 4;
-  const cols = playerIds.length + 1;
-  const colWidth = pdfWidth / cols;
-
-  // Header
-  pdf.setFont(undefined, "bold");
-  pdf.setFontSize(10);
-  pdf.text("Shot Type", margin + cellPadding, yOffset + 12);
-  playerIds.forEach((id, idx) => {
-    const x = margin + colWidth * (idx + 1) + cellPadding;
-    pdf.text(`Player ${id}`, x, yOffset + 12);
-  });
+    analysis.players.forEach((player) => {
+      subheading(`${player.player}: ${player.style}`);
+      writeText(player.summary);
+      yOffset += 4;
 
-  // Header Grid
-  for (let c = 0; c < cols; c++) {
-    pdf.rect(margin + colWidth * c, yOffset, colWidth, rowHeight);
-  }
-  yOffset += rowHeight;
-
-  // Rows
-  pdf.setFont(undefined, "normal");
-  pdf.setFontSize(9);
-  SHOT_TYPES.forEach((shot) => {
-    if (yOffset + rowHeight + margin > pageHeight) {
-      pdf.addPage();
-      yOffset = margin;
+      const lists: [string, string[]][] = [
+        [t("report.strengths"), player.strengths],
+        [t("report.weaknesses"), player.weaknesses],
+        [
+          t("report.evidence"),
+          player.evidence.map(
+            (e) => `${formatLabel(e.shot)} x ${e.count}: ${e.note}`,
+          ),
+        ],
+      ];
+      lists.forEach(([heading, points]) => {
+        if (points.length === 0) return;
+        writeText(heading, { bold: true });
+        points.forEach((point) => writeText(`- ${point}`, { indent: 10 }));
+      });
+      yOffset += 10;
+    });
+
+    subheading(t("report.overall"));
+    writeText(analysis.overall);
+    yOffset += 10;
+  };
+
+  // --- Section: Pro Match Recommendations ---
+  const renderRecommendations = () => {
+    if (!analysis || analysis.recommendations.length === 0) return;
+    startSection(t("report.recommendations"));
+    analysis.recommendations.forEach((rec) => {
+      writeText(
+        `- ${rec.player} (${rec.style}): ${rec.proName}${rec.link ? ` - ${rec.link}` : ""}`,
+        { indent: 10 },
+      );
+    });
+    yOffset += 10;
+  };
+
+  // --- Section: Shot Distribution ---
+  const renderCharts = () => {
+    startSection(t("report.shotDistribution"), { freshPage: true });
+    drawBarChart(
+      shotTypes.map(formatLabel),
+      playerIds.map((id, idx) => ({
+        name: nameOf(id),
+        color: CHART_COLORS[idx % CHART_COLORS.length],
+        values: shotTypes.map((shot) => playerStats[shot]?.[idx] || 0),
+      })),
+    );
+  };
+
+  // --- Section: Shot Summary Table ---
+  const renderSummaryTable = () => {
+    startSection(t("stats.shotSummary"));
+    const total = (idx: number) =>
+      shotTypes.reduce((acc, shot) => acc + (playerStats[shot]?.[idx] || 0), 0);
+    const playerWidth = 0.7 / Math.max(playerIds.length, 1);
+    drawTable(
+      [
+        { header: t("stats.shotType"), width: 0.3 },
+        ...playerIds.map((id) => ({
+          header: nameOf(id),
+          width: playerWidth,
+          align: "right" as const,
+        })),
+      ],
+      [
+        ...shotTypes.map((shot) => [
+          formatLabel(shot),
+          ...playerIds.map((_, idx) => `${playerStats[shot]?.[idx] || 0}`),
+        ]),
+        [t("stats.total"), ...playerIds.map((_, idx) => `${total(idx)}`)],
+      ],
+    );
+  };
+
+  // --- Section: Rally Length Distribution ---
+  const renderRallies = () => {
+    if (!rallyDistribution || rallyDistribution.length === 0) return;
+    startSection(t("stats.rallyDistribution"));
+    drawBarChart(
+      rallyDistribution.map((b) => rallyBucketLabel(b, t)),
+      [
+        {
+          name: t("stats.rallies"),
+          color: CHART_COLORS[0],
+          values: rallyDistribution.map((b) => b.count),
+        },
+      ],
+      { plotHeight: 140 },
+    );
+    drawTable(
+      [
+        { header: t("stats.rallyLength"), width: 0.5 },
+        { header: t("stats.rallies"), width: 0.5, align: "right" },
+      ],
+      rallyDistribution.map((b) => [rallyBucketLabel(b, t), `${b.count}`]),
+    );
+  };
+
+  // --- Section: Event Log ---
+  const renderEventLog = () => {
+    startSection(t("report.eventLog"), { freshPage: true });
+    pdf.setTextColor(TEXT_MUTED);
+    writeText(t("report.timesNote", { unit: timeUnit, fps: modelResult.fps }), {
+      size: 9,
+      lineHeight: 11,
+    });
+    if (confidenceThreshold !== undefined) {
+      writeText(
+        t("report.thresholdNote", {
+          threshold: confidenceThreshold.toFixed(2),
+          count: excludedCount,
+        }),
+        { size: 9, lineHeight: 11 },
+      );
+    }
+    if (filterNote) {
+      writeText(t("report.filterNote", { filter: filterNote }), {
+        size: 9,
+        lineHeight: 11,
+      });
     }
+    pdf.setTextColor("#000000");
+    yOffset += 8;
 
-    // Grid
-    for (let c = 0; c < cols; c++) {
-      pdf.rect(margin + colWidth * c, yOffset, colWidth, rowHeight);
+    if (modelResult.events.length === 0) {
+      writeText(
+        t(filterNote ? "report.noMatchingEvents" : "report.noEvents"),
+      );
+      return;
     }
+    drawTable(
+      [
+        { header: "#", width: 0.08, align: "right" },
+        { header: t("report.time"), width: 0.14, align: "right" },
+        { header: t("report.shot"), width: 0.3 },
+        { header: t("report.playerColumn"), width: 0.33 },
+        { header: t("report.score"), width: 0.15, align: "right" },
+      ],
+      modelResult.events.map((event, idx) => [
+        `${idx + 1}`,
+        `${toSeconds(event.t0, modelResult).toFixed(1)}s`,
+        formatLabel(event.label),
+        nameOf(event.track_id),
+        event.score !== undefined ? event.score.toFixed(2) : "-",
+      ]),
+    );
+  };
 
-    // Data
-    pdf.text(shot, margin + cellPadding, yOffset + 12);
-    playerIds.forEach((_, idx) => {
-      const x = margin + colWidth * (idx + 1) + cellPadding;
-      pdf.text((playerStats[shot]?.[idx] || 0).toString(), x, yOffset + 12);
+  // --- Section: Coach Chat ---
+  const renderCoachNotes = () => {
+    if (!chat || chat.length === 0) return;
+    startSection(t("report.coachChat"), { freshPage: true });
+    chat.forEach((message) => {
+      writeText(
+        t(message.role === "user" ? "report.question" : "report.coach"),
+        { bold: true },
+      );
+      writeText(message.text, { indent: 10 });
+      yOffset += 8;
     });
-    yOffset += rowHeight;
+  };
+
+  const renderers: Record<ReportSectionId, () => void> = {
+    analysis: renderAnalysis,
+    recommendations: renderRecommendations,
+    charts: renderCharts,
+    summaryTable: renderSummaryTable,
+    rallies: renderRallies,
+    eventLog: renderEventLog,
+    coachNotes: renderCoachNotes,
+  };
+  sections.forEach((id) => renderers[id]());
+
+  // --- Table of Contents ---
+  pdf.setPage(TOC_PAGE);
+  setFont(18, "bold");
+  pdf.text(t("report.contents"), MARGIN, CONTENT_TOP);
+  let tocY = CONTENT_TOP + 36;
+  toc.forEach(({ title, page }) => {
+    setFont(12);
+    pdf.textWithLink(title, MARGIN, tocY, { pageNumber: page });
+    const pageLabel = `${page}`;
+    pdf.text(pageLabel, pageWidth - MARGIN, tocY, { align: "right" });
+
+    // Dotted leader between the title and the page number
+    const leaderStart = MARGIN + pdf.getTextWidth(title) + 6;
+    const leaderEnd = pageWidth - MARGIN - pdf.getTextWidth(pageLabel) - 6;
+    pdf.setDrawColor("#9ca3af");
+    pdf.setLineDashPattern([1, 3], 0);
+    pdf.line(leaderStart, tocY, leaderEnd, tocY);
+    pdf.setLineDashPattern([], 0);
+    tocY += 24;
   });
 
+  // --- Running Headers & Footers (not on the cover) ---
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    pdf.setPage(page);
+    setFont(8);
+    pdf.setTextColor(TEXT_MUTED);
+    const [headerTitle] = pdf.splitTextToSize(match.title, contentWidth / 2);
+    pdf.text(headerTitle ?? "", MARGIN, HEADER_Y);
+    pdf.text(reportTitle, pageWidth - MARGIN, HEADER_Y, { align: "right" });
+    pdf.setDrawColor(GRID_COLOR);
+    pdf.setLineWidth(0.5);
+    pdf.line(MARGIN, HEADER_Y + 6, pageWidth - MARGIN, HEADER_Y + 6);
+
+    const footerY = pageHeight - FOOTER_GAP;
+    pdf.text(
+      t("report.generatedOn", { date: generatedAt.toLocaleDateString(locale) }),
+      MARGIN,
+      footerY,
+    );
+    pdf.text(
+      t("report.pageOf", { page, count: pageCount }),
+      pageWidth - MARGIN,
+      footerY,
+      { align: "right" },
+    );
+    pdf.setTextColor("#000000");
+  }
+
   pdf.save("match_report.pdf");
 };
@@ -0,0 +1,31 @@
+// Pipeline jobs still running on the server, remembered across reloads so the
+// home page can resume tracking them.
+
+const STORAGE_KEY = "mds06-pending-jobs";
+
+export interface PendingJob {
+  jobId: string;
+  sourceFilename: string;
+  uploadedKey: string;
+}
+
+export const listPendingJobs = (): PendingJob[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+};
+
+const writePendingJobs = (jobs: PendingJob[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+
+export const addPendingJob = (job: PendingJob) =>
+  writePendingJobs([
+    ...listPendingJobs().filter((j) => j.jobId !== job.jobId),
+    job,
+  ]);
+
+export const removePendingJob = (jobId: string) =>
+  writePendingJobs(listPendingJobs().filter((j) => j.jobId !== jobId));
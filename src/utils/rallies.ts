@@ -0,0 +1,81 @@
+import type { BadmintonEvent, Rally } from "../types";
+import { RALLY_GAP_SECONDS, RALLY_LENGTH_BUCKETS } from "../constant";
+import { findShotType } from "./shots";
+import type { Translate } from "./i18n";
+
+export interface RallyLengthBucket {
+  label: string;
+  min: number;
+  max: number; // Infinity for the open-ended last bucket
+  count: number;
+}
+
+// Any alias of Serve (e.g. "short serve") counts, as in the shot stats
+const isServe = (label: string) => findShotType(label) === "Serve";
+
+/**
+ * Groups events into rallies.
+ * A new rally starts on every Serve, or whenever the gap between the end of
+ * the previous shot and the start of the next exceeds `gapSeconds`.
+ *
+ * `toSeconds` converts a raw `t0`/`t1` value into seconds.
+ */
+export const segmentRallies = (
+  events: BadmintonEvent[],
+  toSeconds: (t: number) => number,
+  gapSeconds: number = RALLY_GAP_SECONDS,
+): Rally[] => {
+  const sorted = [...events].sort((a, b) => a.t0 - b.t0);
+  const groups: BadmintonEvent[][] = [];
+
+  let current: BadmintonEvent[] = [];
+  let lastEnd = -Infinity;
+
+  sorted.forEach((e) => {
+    const start = toSeconds(e.t0);
+    const startsNewRally =
+      current.length > 0 && (isServe(e.label) || start - lastEnd > gapSeconds);
+
+    if (startsNewRally) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(e);
+    lastEnd = Math.max(start, toSeconds(e.t1 ?? e.t0));
+  });
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group, idx) => {
+    const start = toSeconds(group[0].t0);
+    const end = Math.max(...group.map((e) => toSeconds(e.t1 ?? e.t0)));
+    return {
+      index: idx + 1,
+      start,
+      end,
+      duration: end - start,
+      events: group,
+      shotCount: group.length,
+      hitters: Array.from(new Set(group.map((e) => e.track_id))),
+    };
+  });
+};
+
+/**
+ * Counts rallies per shot-count bucket (see RALLY_LENGTH_BUCKETS).
+ */
+export const rallyLengthDistribution = (
+  rallies: Rally[],
+): RallyLengthBucket[] =>
+  RALLY_LENGTH_BUCKETS.map(({ label, min, max }) => ({
+    label,
+    min,
+    max,
+    count: rallies.filter((r) => r.shotCount >= min && r.shotCount <= max)
+      .length,
+  }));
+
+// A bucket's shot range in the current language ("4-6 shots", "21+ shots")
+export const rallyBucketLabel = (bucket: RallyLengthBucket, t: Translate) =>
+  bucket.max === Infinity
+    ? t("rally.bucketOpen", { min: bucket.min })
+    : t("rally.bucket", { min: bucket.min, max: bucket.max });
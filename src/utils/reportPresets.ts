@@ -0,0 +1,64 @@
+// Report builder presets saved by the user, kept in the browser next to the
+// built-in ones.
+
+import type { ReportConfig, ReportPreset } from "../types";
+import { BUILT_IN_REPORT_PRESETS, REPORT_SECTIONS } from "../constant";
+
+const STORAGE_KEY = "mds06-report-presets";
+
+const SECTION_IDS = new Set<string>(REPORT_SECTIONS.map((s) => s.id));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isValidConfig = (c: unknown): c is ReportConfig =>
+  isObject(c) &&
+  Array.isArray(c.sections) &&
+  c.sections.every((id) => typeof id === "string" && SECTION_IDS.has(id)) &&
+  typeof c.foreword === "string" &&
+  typeof c.applyFilters === "boolean";
+
+// Drops presets that no longer match the current section list
+const isValidPreset = (p: unknown): p is ReportPreset =>
+  isObject(p) &&
+  typeof p.id === "string" &&
+  typeof p.name === "string" &&
+  isValidConfig(p.config);
+
+const listSavedPresets = (): ReportPreset[] => {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isValidPreset) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeSavedPresets = (presets: ReportPreset[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+
+export const listReportPresets = (): ReportPreset[] => [
+  ...BUILT_IN_REPORT_PRESETS,
+  ...listSavedPresets(),
+];
+
+/**
+ * Saves `config` under `name`, replacing a saved preset of the same name.
+ */
+export const saveReportPreset = (
+  name: string,
+  config: ReportConfig,
+): ReportPreset => {
+  const saved = listSavedPresets();
+  const existing = saved.find((p) => p.name === name);
+  const preset: ReportPreset = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    config,
+  };
+  writeSavedPresets([...saved.filter((p) => p.id !== preset.id), preset]);
+  return preset;
+};
+
+export const deleteReportPreset = (id: string) =>
+  writeSavedPresets(listSavedPresets().filter((p) => p.id !== id));
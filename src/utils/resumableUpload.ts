@@ -0,0 +1,155 @@
+// Chunked uploads against a GCS resumable session. Each chunk is PUT with a
+// Content-Range header; GCS answers 308 with the bytes it has persisted so
+// far, and 200/201 once the object is complete. The server's local storage
+// backend implements the same protocol.
+
+// Every chunk but the last must be a multiple of 256 KiB
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+
+/** Thrown when the caller aborts the upload; the session stays resumable. */
+export class UploadPausedError extends Error {
+  constructor() {
+    super("Upload paused");
+    this.name = "UploadPausedError";
+  }
+}
+
+// Network errors and 5xx/408/429 replies are worth another attempt
+class RetryableUploadError extends Error {}
+
+const isRetryableStatus = (status: number) =>
+  status >= 500 || status === 408 || status === 429;
+
+const putRange = async (
+  uploadUrl: string,
+  body: Blob | null,
+  contentRange: string,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  let res: Response;
+  try {
+    res = await fetch(uploadUrl, {
+      method: "PUT",
+      headers: { "Content-Range": contentRange },
+      body,
+      signal,
+    });
+  } catch {
+    if (signal?.aborted) throw new UploadPausedError();
+    throw new RetryableUploadError("Network error during upload");
+  }
+
+  if (isRetryableStatus(res.status)) {
+    throw new RetryableUploadError(`Upload failed (${res.status})`);
+  }
+  return res;
+};
+
+// Offset after the last persisted byte, from a 308 reply's "Range: bytes=0-N";
+// null when the reply has no readable Range header
+const persistedOffset = (res: Response): number | null => {
+  const match = res.headers.get("Range")?.match(/bytes=0-(\d+)/);
+  return match ? Number(match[1]) + 1 : null;
+};
+
+// Browsers hide Range unless the bucket's CORS config exposes it (cors.json)
+const rangeUnreadableError = () =>
+  new Error(
+    "Could not read the upload progress. The storage bucket's CORS configuration must expose the Range header.",
+  );
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadPausedError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadPausedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Asks GCS how many bytes of a session it has persisted.
+ * Resolves with `null` when the session no longer exists.
+ */
+export const querySessionOffset = async (
+  uploadUrl: string,
+  size: number,
+  signal?: AbortSignal,
+): Promise<number | null> => {
+  const res = await putRange(uploadUrl, null, `bytes */${size}`, signal);
+  // A 308 without Range means nothing has been persisted yet
+  if (res.status === 308) return persistedOffset(res) ?? 0;
+  if (res.ok) return size;
+  if (res.status === 404 || res.status === 410) return null;
+  throw new Error(`Upload status check failed (${res.status})`);
+};
+
+/**
+ * Uploads `file` from `offset` in chunks, retrying failed chunks with
+ * exponential backoff after re-syncing with the bytes GCS confirmed.
+ * Progress only counts confirmed bytes.
+ */
+export const uploadChunks = async (
+  uploadUrl: string,
+  file: File,
+  offset: number,
+  onProgress: (percent: number) => void,
+  signal?: AbortSignal,
+): Promise<void> => {
+  const reportProgress = () =>
+    onProgress(Math.round((offset / file.size) * 100));
+  let failures = 0;
+
+  reportProgress();
+  while (offset < file.size) {
+    if (signal?.aborted) throw new UploadPausedError();
+
+    try {
+      // A failed chunk may still have been partly persisted
+      if (failures > 0) {
+        const confirmed = await querySessionOffset(uploadUrl, file.size, signal);
+        if (confirmed === null) {
+          throw new Error("The upload session expired. Please retry.");
+        }
+        // GCS never drops confirmed bytes, so going back means Range is hidden
+        if (confirmed < offset) throw rangeUnreadableError();
+        offset = confirmed;
+        if (offset >= file.size) break;
+      }
+
+      const end = Math.min(offset + CHUNK_SIZE, file.size);
+      const res = await putRange(
+        uploadUrl,
+        file.slice(offset, end),
+        `bytes ${offset}-${end - 1}/${file.size}`,
+        signal,
+      );
+
+      if (res.status === 308) {
+        // A chunk was just sent, so GCS must report at least some bytes
+        const confirmed = persistedOffset(res);
+        if (confirmed === null) throw rangeUnreadableError();
+        offset = confirmed;
+      } else if (res.ok) offset = file.size;
+      else throw new Error(`Upload failed (${res.status})`);
+
+      failures = 0;
+      reportProgress();
+    } catch (err) {
+      if (!(err instanceof RetryableUploadError) || failures >= MAX_RETRIES) {
+        throw err;
+      }
+      failures++;
+      await wait(BASE_BACKOFF_MS * 2 ** (failures - 1), signal);
+    }
+  }
+
+  onProgress(100);
+};
@@ -0,0 +1,92 @@
+import type { BadmintonEvent, PlayerRoster } from "../types";
+
+export const EMPTY_ROSTER: PlayerRoster = { names: {}, merges: {} };
+
+/**
+ * Returns the canonical player id a track belongs to.
+ */
+export const resolvePlayerId = (roster: PlayerRoster, trackId: number) =>
+  roster.merges[trackId] ?? trackId;
+
+/**
+ * Display name for a canonical player id ("Player 3" when unnamed).
+ */
+export const playerName = (roster: PlayerRoster, playerId: number) =>
+  roster.names[playerId]?.trim() || `Player ${playerId}`;
+
+/**
+ * Rewrites every event's track_id to its canonical player id, so stats,
+ * rallies and charts aggregate merged tracks as one player.
+ */
+export const applyRoster = (
+  events: BadmintonEvent[],
+  roster: PlayerRoster,
+): BadmintonEvent[] =>
+  events.map((e) => {
+    const playerId = resolvePlayerId(roster, e.track_id);
+    return playerId === e.track_id ? e : { ...e, track_id: playerId };
+  });
+
+export type PlayerNameIssue = "duplicate" | "reserved";
+
+// Column of the summary table that holds the shot type
+const RESERVED_PLAYER_NAMES = ["shot"];
+
+/**
+ * Why `name` cannot be given to `playerId`, or null when it can. The summary
+ * table sent to the AI endpoints has one column per player keyed by display
+ * name, so names must be unique and must not clash with its "shot" column.
+ */
+export const playerNameIssue = (
+  roster: PlayerRoster,
+  playerIds: number[],
+  playerId: number,
+  name: string,
+): PlayerNameIssue | null => {
+  const display = playerName(
+    { ...roster, names: { ...roster.names, [playerId]: name } },
+    playerId,
+  ).toLowerCase();
+  if (RESERVED_PLAYER_NAMES.includes(display)) return "reserved";
+  const taken = playerIds.some(
+    (id) =>
+      id !== playerId && playerName(roster, id).toLowerCase() === display,
+  );
+  return taken ? "duplicate" : null;
+};
+
+export const renamePlayer = (
+  roster: PlayerRoster,
+  playerId: number,
+  name: string,
+): PlayerRoster => ({
+  ...roster,
+  names: { ...roster.names, [playerId]: name },
+});
+
+/**
+ * Merges `trackId` (and any tracks already merged into it) into the player
+ * `targetId`. Passing the track's own id splits it back out.
+ */
+export const mergeTrack = (
+  roster: PlayerRoster,
+  trackId: number,
+  targetId: number,
+): PlayerRoster => {
+  const target =
+    targetId === trackId ? trackId : resolvePlayerId(roster, targetId);
+  const merges: Record<number, number> = {};
+
+  Object.entries(roster.merges).forEach(([track, player]) => {
+    const t = Number(track);
+    const repointed = player === trackId ? target : player;
+    if (t !== trackId && t !== repointed) merges[t] = repointed;
+  });
+  if (target !== trackId) merges[trackId] = target;
+
+  // A merged track no longer carries its own name
+  const names = { ...roster.names };
+  if (target !== trackId) delete names[trackId];
+
+  return { names, merges };
+};
@@ -0,0 +1,252 @@
+import type {
+  AIAnalysis,
+  BadmintonEvent,
+  Locale,
+  PlayerAnalysis,
+  ShotEvidence,
+  TimeBase,
+} from "../types";
+import { DEFAULT_LOCALE, SHOT_CATEGORIES } from "../constant";
+import { toSeconds } from "./modelResult";
+import { segmentRallies } from "./rallies";
+import { localizedShotName } from "./shots";
+import {
+  computePlayerStats,
+  computeCategoryStats,
+  statShotTypes,
+} from "./stats";
+import { computeTransitions, topTransitions } from "./transitions";
+import { translator } from "./i18n";
+import type { Translate } from "./i18n";
+
+// --- Thresholds ---
+
+const ATTACKING_RATIO = 0.45; // Offensive share for an attacking style
+const DEFENSIVE_SHARE = 0.5; // Defensive/Neutral share for a defensive style
+const NET_SHARE = 0.35; // Net Play share for a front-court style
+const LOW_NET_SHARE = 0.15;
+const PREDICTABLE_SHARE = 0.4; // One shot type above this is predictable
+const VARIED_SHOT_TYPES = 6;
+const ASYMMETRY_RATIO = 2; // One player plays a shot at least twice as often
+const ASYMMETRY_MIN_COUNT = 3;
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+interface PlayerProfile {
+  name: string;
+  total: number;
+  shotCounts: [string, number][]; // Most played first
+  categoryShare: Record<string, number>;
+  attackRatio: number;
+}
+
+const classifyStyle = (p: PlayerProfile, t: Translate) => {
+  const net = p.categoryShare["Net Play"];
+  const defensive = p.categoryShare["Defensive/Neutral"];
+  if (p.total === 0) return t("rules.style.unclassified");
+  if (p.attackRatio >= ATTACKING_RATIO && net >= NET_SHARE)
+    return t("rules.style.allCourtAttacker");
+  if (p.attackRatio >= ATTACKING_RATIO) return t("rules.style.baselineAttacker");
+  if (net >= NET_SHARE) return t("rules.style.netPlayer");
+  if (defensive >= DEFENSIVE_SHARE) return t("rules.style.retriever");
+  return t("rules.style.balanced");
+};
+
+const describePlayer = (
+  p: PlayerProfile,
+  t: Translate,
+  shotName: (shot: string) => string,
+): PlayerAnalysis => {
+  const net = p.categoryShare["Net Play"];
+  const [topShot, topCount] = p.shotCounts[0] ?? ["", 0];
+  const topShare = p.total ? topCount / p.total : 0;
+  const strengths: string[] = [];
+  const weaknesses: string[] = [];
+
+  if (p.attackRatio >= ATTACKING_RATIO)
+    strengths.push(t("rules.attacks", { share: percent(p.attackRatio) }));
+  else
+    weaknesses.push(t("rules.rarelyAttacks", { share: percent(p.attackRatio) }));
+
+  if (net >= NET_SHARE)
+    strengths.push(t("rules.frontCourt", { share: percent(net) }));
+  else if (net < LOW_NET_SHARE)
+    weaknesses.push(t("rules.seldomNet", { share: percent(net) }));
+
+  const variety = p.shotCounts.length;
+  if (variety >= VARIED_SHOT_TYPES)
+    strengths.push(t("rules.varied", { count: variety }));
+  if (topShare > PREDICTABLE_SHARE)
+    weaknesses.push(
+      t("rules.predictable", {
+        share: percent(topShare),
+        shot: shotName(topShot),
+      }),
+    );
+
+  // `shot` stays the taxonomy name, like the AI's evidence
+  const evidence: ShotEvidence[] = p.shotCounts.slice(0, 3).map(
+    ([shot, count]) => ({
+      shot,
+      count,
+      note: t("rules.evidenceNote", {
+        share: percent(count / p.total),
+        player: p.name,
+        total: p.total,
+      }),
+    }),
+  );
+
+  const court =
+    net >= NET_SHARE
+      ? t("rules.court.front")
+      : net < LOW_NET_SHARE
+        ? t("rules.court.back")
+        : t("rules.court.split");
+  const summary =
+    p.total === 0
+      ? t("rules.noShots", { player: p.name })
+      : t("rules.summary", {
+          player: p.name,
+          total: p.total,
+          shot: shotName(topShot),
+          count: topCount,
+          court,
+          share: percent(p.attackRatio),
+        });
+
+  return {
+    player: p.name,
+    style: classifyStyle(p, t),
+    summary,
+    strengths,
+    weaknesses,
+    evidence,
+  };
+};
+
+/**
+ * Deterministic coach summary built from shot counts and the event stream,
+ * used when the AI service is unavailable or when chosen instead of it.
+ * Produces the same shape as the AI analysis, with `source: "rules"`,
+ * written in `locale`.
+ */
+export const ruleBasedAnalysis = (
+  events: BadmintonEvent[],
+  playerIds: number[],
+  timeBase: TimeBase,
+  nameOf: (id: number) => string = (id) => `Player ${id}`,
+  locale: Locale = DEFAULT_LOCALE,
+): AIAnalysis => {
+  const t = translator(locale);
+  const shotName = (shot: string) => localizedShotName(shot, locale);
+  const playerStats = computePlayerStats(events, playerIds);
+  const { counts, attackRatio } = computeCategoryStats(events, playerIds);
+  const shotTypes = statShotTypes(playerStats);
+
+  const profiles: PlayerProfile[] = playerIds.map((id, idx) => {
+    const shotCounts = shotTypes
+      .map((shot): [string, number] => [shot, playerStats[shot]?.[idx] || 0])
+      .filter(([, count]) => count > 0)
+      .sort((a, b) => b[1] - a[1]);
+    const total = shotCounts.reduce((acc, [, count]) => acc + count, 0);
+    const categorised = SHOT_CATEGORIES.reduce(
+      (acc, c) => acc + counts[c][idx],
+      0,
+    );
+    const categoryShare = Object.fromEntries(
+      SHOT_CATEGORIES.map((c) => [
+        c,
+        categorised ? counts[c][idx] / categorised : 0,
+      ]),
+    );
+    return {
+      name: nameOf(id),
+      total,
+      shotCounts,
+      categoryShare,
+      attackRatio: attackRatio[idx],
+    };
+  });
+
+  // --- Head-to-head ---
+  const overall: string[] = [];
+  const [a, b] = profiles;
+  if (a && b) {
+    const diff = a.attackRatio - b.attackRatio;
+    overall.push(
+      Math.abs(diff) < 0.1
+        ? t("rules.similarAttack", {
+            a: a.name,
+            b: b.name,
+            shareA: percent(a.attackRatio),
+            shareB: percent(b.attackRatio),
+          })
+        : t("rules.moreAggressive", {
+            attacker: diff > 0 ? a.name : b.name,
+            defender: diff > 0 ? b.name : a.name,
+            high: percent(Math.max(a.attackRatio, b.attackRatio)),
+            low: percent(Math.min(a.attackRatio, b.attackRatio)),
+          }),
+    );
+
+    const netA = a.categoryShare["Net Play"];
+    const netB = b.categoryShare["Net Play"];
+    if (Math.abs(netA - netB) >= 0.1)
+      overall.push(
+        t("rules.netControl", {
+          player: netA > netB ? a.name : b.name,
+          high: percent(Math.max(netA, netB)),
+          low: percent(Math.min(netA, netB)),
+        }),
+      );
+
+    // Shot types one player used far more than the other
+    shotTypes.forEach((shot) => {
+      const [countA, countB] = [0, 1].map((i) => playerStats[shot]?.[i] || 0);
+      const [hi, lo] = countA >= countB ? [a, b] : [b, a];
+      const [hiCount, loCount] = [
+        Math.max(countA, countB),
+        Math.min(countA, countB),
+      ];
+      if (
+        hiCount >= ASYMMETRY_MIN_COUNT &&
+        hiCount >= ASYMMETRY_RATIO * Math.max(loCount, 1)
+      )
+        overall.push(
+          t("rules.asymmetry", {
+            player: hi.name,
+            other: lo.name,
+            shot: shotName(shot),
+            high: hiCount,
+            low: loCount,
+          }),
+        );
+    });
+  }
+
+  // Most frequent reply pattern, from the event stream
+  const rallies = segmentRallies(events, (t) => toSeconds(t, timeBase));
+  const matrix = computeTransitions(rallies, playerIds);
+  const [pattern] = playerIds
+    .flatMap((id) => topTransitions(matrix, id, 1))
+    .sort((x, y) => y.count - x.count);
+  if (pattern)
+    overall.push(
+      t("rules.pattern", {
+        rallies: rallies.length,
+        player: nameOf(pattern.player),
+        from: shotName(pattern.from),
+        to: shotName(pattern.to),
+        count: pattern.count,
+      }),
+    );
+
+  return {
+    source: "rules",
+    players: profiles.map((p) => describePlayer(p, t, shotName)),
+    // Chinese runs sentences together without spaces
+    overall: overall.join(locale === "zh" ? "" : " "),
+    recommendations: [],
+  };
+};
@@ -0,0 +1,105 @@
+// Read-only share links. The server stores an analysis bundle under an
+// unguessable id; the revoke tokens for links created here are remembered in
+// the browser so they can be listed and revoked later.
+
+import type { MatchRecord } from "../types";
+import { createAnalysisBundle, parseAnalysisBundle } from "./analysisBundle";
+import type { ImportedAnalysis } from "./analysisBundle";
+
+const STORAGE_KEY = "mds06-share-links";
+
+export interface ShareLink {
+  id: string;
+  matchId: string;
+  createdAt: string;
+  expiresAt: string | null; // null: never expires
+  revokeToken: string;
+}
+
+export interface SharedMatch extends ImportedAnalysis {
+  shareId: string;
+  expiresAt: string | null;
+}
+
+export const shareUrl = (id: string) => `${window.location.origin}/share/${id}`;
+
+const listAllShareLinks = (): ShareLink[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeShareLinks = (links: ShareLink[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(links));
+
+// Links for one match that have not expired yet, newest first
+export const listShareLinks = (matchId: string): ShareLink[] =>
+  listAllShareLinks()
+    .filter(
+      (l) =>
+        l.matchId === matchId &&
+        (l.expiresAt === null || new Date(l.expiresAt) > new Date()),
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+/**
+ * Publishes `record` as a read-only link. The snapshot is taken now; later
+ * edits to the match do not change what the link shows.
+ */
+export const createShareLink = async (
+  record: MatchRecord,
+  expiresInDays: number | null,
+): Promise<ShareLink> => {
+  const res = await fetch("/api/shares", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      bundle: createAnalysisBundle(record),
+      expiresInDays,
+    }),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "Could not create the link");
+
+  const link: ShareLink = {
+    id: data.id,
+    matchId: record.id,
+    createdAt: data.createdAt,
+    expiresAt: data.expiresAt,
+    revokeToken: data.revokeToken,
+  };
+  writeShareLinks([...listAllShareLinks(), link]);
+  return link;
+};
+
+export const revokeShareLink = async (link: ShareLink) => {
+  const res = await fetch(`/api/shares/${link.id}`, {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ revokeToken: link.revokeToken }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || "Could not revoke the link");
+  }
+  writeShareLinks(listAllShareLinks().filter((l) => l.id !== link.id));
+};
+
+/**
+ * Loads a shared analysis. The bundle is validated like an imported file.
+ */
+export const fetchSharedMatch = async (id: string): Promise<SharedMatch> => {
+  const res = await fetch(`/api/shares/${encodeURIComponent(id)}`);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "Could not open the shared match");
+
+  return {
+    ...parseAnalysisBundle(JSON.stringify(data.bundle)),
+    shareId: data.id,
+    expiresAt: data.expiresAt ?? null,
+  };
+};
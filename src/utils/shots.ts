@@ -0,0 +1,78 @@
+import {
+  SHOT_TAXONOMY,
+  OTHER_SHOT_TYPE,
+  OTHER_SHOT_COLOR,
+  OTHER_SHOT_TRANSLATIONS,
+  SHOT_CATEGORY_TRANSLATIONS,
+} from "../constant";
+import type {
+  BadmintonEvent,
+  Locale,
+  ShotCategory,
+  ShotTypeDefinition,
+} from "../types";
+
+/**
+ * Normalises a model label or display name for comparison
+ * ("jump_smash", "Jump Smash" → "jump smash").
+ */
+export const normalizeLabel = (label: string) =>
+  label.toLowerCase().replace(/_/g, " ").trim();
+
+// Normalised name/alias → taxonomy entry
+const SHOT_LOOKUP = new Map<string, ShotTypeDefinition>(
+  SHOT_TAXONOMY.flatMap((def) =>
+    [def.name, ...def.aliases].map((l) => [normalizeLabel(l), def] as const),
+  ),
+);
+
+/**
+ * Returns the taxonomy entry for a model label (by name or alias), or
+ * undefined for labels outside the taxonomy.
+ */
+export const findShotDefinition = (label: string) =>
+  SHOT_LOOKUP.get(normalizeLabel(label));
+
+/**
+ * Returns the SHOT_TYPES entry matching a model label, or undefined.
+ */
+export const findShotType = (label: string) => findShotDefinition(label)?.name;
+
+/**
+ * Name of a shot type (or OTHER_SHOT_TYPE) in `locale`, from the taxonomy's
+ * translations. Names outside the taxonomy are returned unchanged.
+ */
+export const localizedShotName = (name: string, locale: Locale) => {
+  const translations =
+    name === OTHER_SHOT_TYPE
+      ? OTHER_SHOT_TRANSLATIONS
+      : findShotDefinition(name)?.translations;
+  return translations?.[locale] ?? name;
+};
+
+// Name of a shot category in `locale`
+export const localizedCategoryName = (
+  category: ShotCategory,
+  locale: Locale,
+) => SHOT_CATEGORY_TRANSLATIONS[category][locale] ?? category;
+
+/**
+ * Colour for a shot label from the taxonomy. Labels outside it are grey.
+ */
+export const shotColor = (label: string) =>
+  findShotDefinition(label)?.color ?? OTHER_SHOT_COLOR;
+
+/**
+ * Counts the labels that fall into the OTHER_SHOT_TYPE bucket, most
+ * frequent first.
+ */
+export const unknownLabels = (events: BadmintonEvent[]) => {
+  const counts = new Map<string, number>();
+  events.forEach((e) => {
+    if (!findShotDefinition(e.label))
+      counts.set(e.label, (counts.get(e.label) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,85 @@
+import type { BadmintonEvent, PlayerStats, ShotCategory } from "../types";
+import { SHOT_TYPES, SHOT_CATEGORIES, OTHER_SHOT_TYPE } from "../constant";
+import { findShotDefinition, findShotType } from "./shots";
+
+/**
+ * Counts shots per player.
+ * Returns object: { "Smash": [player1Count, player2Count], ... } with indices
+ * following `playerIds`. Labels outside the taxonomy are counted under
+ * OTHER_SHOT_TYPE.
+ */
+export const computePlayerStats = (
+  events: BadmintonEvent[],
+  playerIds: number[],
+): PlayerStats => {
+  if (playerIds.length === 0) return {};
+
+  const stats: PlayerStats = {};
+  [...SHOT_TYPES, OTHER_SHOT_TYPE].forEach(
+    (type) => (stats[type] = Array(playerIds.length).fill(0)),
+  );
+
+  events.forEach((e) => {
+    const key = findShotType(e.label) ?? OTHER_SHOT_TYPE;
+    const playerIdx = playerIds.indexOf(e.track_id);
+    if (playerIdx !== -1) stats[key][playerIdx] += 1;
+  });
+  return stats;
+};
+
+/**
+ * Shot types to list in tables and charts: the taxonomy, plus the Other
+ * bucket when anything landed in it.
+ */
+export const statShotTypes = (playerStats: PlayerStats) =>
+  playerStats[OTHER_SHOT_TYPE]?.some((n) => n > 0)
+    ? [...SHOT_TYPES, OTHER_SHOT_TYPE]
+    : SHOT_TYPES;
+
+/**
+ * Builds the per-shot table sent to `/api/analyze-table`, one column per
+ * player keyed by display name (the roster editor keeps those unique and
+ * clear of "shot").
+ */
+export const buildSummaryTable = (
+  playerStats: PlayerStats,
+  playerIds: number[],
+  nameOf: (id: number) => string = (id) => `Player ${id}`,
+) =>
+  statShotTypes(playerStats).map((shot) => ({
+    shot,
+    ...Object.fromEntries(
+      playerIds.map((id, idx) => [nameOf(id), playerStats[shot]?.[idx] || 0]),
+    ),
+  }));
+
+export interface CategoryStats {
+  counts: Record<ShotCategory, number[]>; // Indices follow `playerIds`
+  attackRatio: number[]; // Offensive share of categorised shots, 0-1
+}
+
+/**
+ * Aggregates shot counts by taxonomy category. The Other bucket has no
+ * category and is left out of the attack ratio.
+ */
+export const computeCategoryStats = (
+  events: BadmintonEvent[],
+  playerIds: number[],
+): CategoryStats => {
+  const counts = Object.fromEntries(
+    SHOT_CATEGORIES.map((c) => [c, Array(playerIds.length).fill(0)]),
+  ) as Record<ShotCategory, number[]>;
+
+  events.forEach((e) => {
+    const def = findShotDefinition(e.label);
+    const playerIdx = playerIds.indexOf(e.track_id);
+    if (def && playerIdx !== -1) counts[def.category][playerIdx] += 1;
+  });
+
+  const attackRatio = playerIds.map((_, idx) => {
+    const total = SHOT_CATEGORIES.reduce((acc, c) => acc + counts[c][idx], 0);
+    return total ? counts.Offensive[idx] / total : 0;
+  });
+
+  return { counts, attackRatio };
+};
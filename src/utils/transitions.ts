@@ -0,0 +1,82 @@
+import type { BadmintonEvent, Rally } from "../types";
+import { SHOT_TYPES } from "../constant";
+import { findShotType } from "./shots";
+
+/**
+ * counts[from][to]: how often the player replied with `to` after the
+ * opponent played `from`. Both keys are SHOT_TYPES entries.
+ */
+export type TransitionCounts = Record<string, Record<string, number>>;
+
+// Keyed by the responding player's track_id
+export type TransitionMatrix = Record<number, TransitionCounts>;
+
+export interface ShotTransition {
+  player: number;
+  from: string;
+  to: string;
+  count: number;
+  share: number; // Fraction of the player's replies to `from`
+}
+
+const emptyCounts = (): TransitionCounts =>
+  Object.fromEntries(
+    SHOT_TYPES.map((from) => [
+      from,
+      Object.fromEntries(SHOT_TYPES.map((to) => [to, 0])),
+    ]),
+  );
+
+/**
+ * Counts shot A by one player followed by shot B from the opponent.
+ * Pairs are only taken within a rally, and labels outside SHOT_TYPES are
+ * skipped, matching `playerStats`.
+ */
+export const computeTransitions = (
+  rallies: Rally[],
+  playerIds: number[],
+): TransitionMatrix => {
+  const matrix: TransitionMatrix = Object.fromEntries(
+    playerIds.map((id) => [id, emptyCounts()]),
+  );
+
+  rallies.forEach(({ events }) => {
+    events.forEach((current: BadmintonEvent, idx) => {
+      const prev = events[idx - 1];
+      if (!prev || prev.track_id === current.track_id) return;
+
+      const from = findShotType(prev.label);
+      const to = findShotType(current.label);
+      if (!from || !to || !matrix[current.track_id]) return;
+
+      matrix[current.track_id][from][to] += 1;
+    });
+  });
+  return matrix;
+};
+
+/**
+ * Flattens one player's counts into the N most frequent transitions.
+ */
+export const topTransitions = (
+  matrix: TransitionMatrix,
+  player: number,
+  n = 5,
+): ShotTransition[] => {
+  const counts = matrix[player];
+  if (!counts) return [];
+
+  return SHOT_TYPES.flatMap((from) => {
+    const row = counts[from];
+    const total = SHOT_TYPES.reduce((acc, to) => acc + row[to], 0);
+    return SHOT_TYPES.filter((to) => row[to] > 0).map((to) => ({
+      player,
+      from,
+      to,
+      count: row[to],
+      share: row[to] / total,
+    }));
+  })
+    .sort((a, b) => b.count - a.count)
+    .slice(0, n);
+};
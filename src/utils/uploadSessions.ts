@@ -0,0 +1,56 @@
+// Resumable upload sessions, remembered across reloads so re-selecting the
+// same video continues from the last byte storage acknowledged.
+
+const STORAGE_KEY = "mds06-upload-sessions";
+
+// GCS expires resumable sessions after a week; give up on them a day early
+const SESSION_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+
+export interface UploadSession {
+  uploadUrl: string;
+  key: string;
+  fileName: string;
+  size: number;
+  createdAt: string;
+}
+
+/** Identifies a local file well enough to match it up after a reload. */
+export const uploadFingerprint = (file: File): string =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+const readSessions = (): Record<string, UploadSession> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    if (!raw || typeof raw !== "object") return {};
+
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(raw as Record<string, UploadSession>).filter(
+        ([, s]) => now - new Date(s.createdAt).getTime() < SESSION_MAX_AGE_MS,
+      ),
+    );
+  } catch {
+    return {};
+  }
+};
+
+const writeSessions = (sessions: Record<string, UploadSession>) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+
+export const listUploadSessions = (): UploadSession[] =>
+  Object.values(readSessions());
+
+export const getUploadSession = (
+  fingerprint: string,
+): UploadSession | undefined => readSessions()[fingerprint];
+
+export const saveUploadSession = (
+  fingerprint: string,
+  session: UploadSession,
+) => writeSessions({ ...readSessions(), [fingerprint]: session });
+
+export const removeUploadSession = (fingerprint: string) => {
+  const sessions = readSessions();
+  delete sessions[fingerprint];
+  writeSessions(sessions);
+};
@@ -0,0 +1,29 @@
+import type { ModelResult } from "../types";
+
+// Storage URI of the pipeline's overlay video (gs://, local:// or https://)
+export const overlayVideoUri = (result: ModelResult): string | null =>
+  result.outputs?.overlay_mp4?.gcs_uri || result.outputs?.overlay_video || null;
+
+/**
+ * Turns a stored video URI into a URL the video element can play. The
+ * server resolves gs:// and local:// URIs for its storage backend (signed
+ * links for local disk); a gs:// URI it cannot resolve falls back to the
+ * public bucket URL.
+ */
+export const resolveVideoUrl = async (uri: string): Promise<string> => {
+  if (/^https?:\/\//.test(uri)) return uri;
+
+  try {
+    const res = await fetch(
+      `/api/storage/read-url?uri=${encodeURIComponent(uri)}`,
+    );
+    const data = await res.json();
+    if (res.ok && typeof data.url === "string") return data.url;
+  } catch {
+    // Fall through to the public URL
+  }
+
+  if (uri.startsWith("gs://"))
+    return uri.replace("gs://", "https://storage.googleapis.com/");
+  throw new Error(`The video at ${uri} is not available on this server.`);
+};
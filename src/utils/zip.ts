@@ -0,0 +1,97 @@
+// Minimal ZIP writer (stored entries, no compression) for building Office
+// Open XML files such as XLSX in the browser without a dependency.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, forward slashes
+  data: string; // Written as UTF-8
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Little-endian header writer
+const header = (size: number) => {
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+  const put = (value: number, bytes: 2 | 4) => {
+    if (bytes === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += bytes;
+  };
+  return { put, bytes: new Uint8Array(view.buffer) };
+};
+
+/**
+ * Packs `entries` into a ZIP archive. Entry times are left at the DOS epoch,
+ * which spreadsheet apps ignore.
+ */
+export const createZip = (entries: ZipEntry[], type: string): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const content = encoder.encode(data);
+    const crc = crc32(content);
+
+    const local = header(30);
+    local.put(0x04034b50, 4); // Local file header signature
+    local.put(20, 2); // Version needed
+    local.put(0x0800, 2); // Flags: UTF-8 names
+    local.put(0, 2); // Method: stored
+    local.put(0, 2); // Time
+    local.put(0x21, 2); // Date: 1980-01-01
+    local.put(crc, 4);
+    local.put(content.length, 4);
+    local.put(content.length, 4);
+    local.put(nameBytes.length, 2);
+    local.put(0, 2); // Extra field length
+
+    const entry = header(46);
+    entry.put(0x02014b50, 4); // Central directory signature
+    entry.put(20, 2); // Version made by
+    entry.put(20, 2); // Version needed
+    entry.put(0x0800, 2);
+    entry.put(0, 2);
+    entry.put(0, 2);
+    entry.put(0x21, 2);
+    entry.put(crc, 4);
+    entry.put(content.length, 4);
+    entry.put(content.length, 4);
+    entry.put(nameBytes.length, 2);
+    entry.put(0, 2); // Extra field length
+    entry.put(0, 2); // Comment length
+    entry.put(0, 2); // Disk number
+    entry.put(0, 2); // Internal attributes
+    entry.put(0, 4); // External attributes
+    entry.put(offset, 4); // Local header offset
+
+    parts.push(local.bytes, nameBytes, content);
+    central.push(entry.bytes, nameBytes);
+    offset += local.bytes.length + nameBytes.length + content.length;
+  });
+
+  const centralSize = central.reduce((acc, b) => acc + b.length, 0);
+  const end = header(22);
+  end.put(0x06054b50, 4); // End of central directory signature
+  end.put(0, 2);
+  end.put(0, 2);
+  end.put(entries.length, 2);
+  end.put(entries.length, 2);
+  end.put(centralSize, 4);
+  end.put(offset, 4);
+  end.put(0, 2); // Comment length
+
+  return new Blob([...parts, ...central, end.bytes] as BlobPart[], { type });
+};